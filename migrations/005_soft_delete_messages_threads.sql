@@ -0,0 +1,34 @@
+-- Migration: Soft-delete support for messages and threads
+-- message.deleted / thread.deleted webhooks mark rows as deleted instead of removing them,
+-- and extractions built from deleted content are flagged (stale) or retired
+
+-- Soft-delete markers
+ALTER TABLE support_email_messages
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+ALTER TABLE support_email_threads
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+-- Extraction lifecycle
+-- is_stale:   the thread changed (a message was deleted) and the extraction should be re-run
+-- retired_at: the thread no longer exists in the mailbox and the extraction must not be shown
+ALTER TABLE email_extractions
+  ADD COLUMN IF NOT EXISTS is_stale BOOLEAN DEFAULT FALSE NOT NULL,
+  ADD COLUMN IF NOT EXISTS stale_reason TEXT,
+  ADD COLUMN IF NOT EXISTS retired_at TIMESTAMP;
+
+ALTER TABLE email_extraction_entities
+  ADD COLUMN IF NOT EXISTS retired_at TIMESTAMP;
+
+-- Indexes for the common "live rows only" queries
+CREATE INDEX IF NOT EXISTS idx_email_messages_live
+  ON support_email_messages(thread_id, received_date)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_threads_live
+  ON support_email_threads(inbox_id, latest_message_received_date)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_extractions_active
+  ON email_extractions(thread_id)
+  WHERE retired_at IS NULL;
@@ -0,0 +1,12 @@
+-- Migration: Grant lifecycle tracking on support_inboxes
+-- Records when a grant expired, was re-authenticated or was deleted so the service can
+-- reactivate inboxes automatically and schedule a catch-up sync for the outage window
+
+ALTER TABLE support_inboxes
+  ADD COLUMN IF NOT EXISTS auth_expired_at TIMESTAMP,      -- Start of the current outage (cleared on re-auth)
+  ADD COLUMN IF NOT EXISTS reauthenticated_at TIMESTAMP,   -- Last successful re-authentication
+  ADD COLUMN IF NOT EXISTS grant_deleted_at TIMESTAMP;     -- When the grant was detached
+
+-- Thread jobs of a cancelled backfill are marked 'cancelled' so thread processors drop them
+CREATE INDEX IF NOT EXISTS idx_queued_threads_inbox_status
+  ON queued_threads(inbox_id, status);
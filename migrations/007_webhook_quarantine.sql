@@ -0,0 +1,67 @@
+-- Migration: Quarantine for webhook payloads that fail schema validation
+-- Instead of burning through the retry limit, invalid payloads are moved here with the
+-- validation error so they stay visible and can be replayed once the parser supports them
+
+CREATE TABLE IF NOT EXISTS support_webhook_quarantine (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID REFERENCES support_webhook_notifications(id) ON DELETE SET NULL,
+  inbox_id UUID,
+  grant_id TEXT,
+  notification_type TEXT NOT NULL,
+  payload JSONB NOT NULL,              -- Raw Nylas payload as received
+  queue_message JSONB NOT NULL,        -- Full PGMQ message, re-sent as-is on replay
+  validation_error TEXT NOT NULL,
+
+  quarantined_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  replayed_at TIMESTAMP,
+  replay_count INT DEFAULT 0 NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_quarantine_pending
+  ON support_webhook_quarantine(quarantined_at)
+  WHERE replayed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_quarantine_type
+  ON support_webhook_quarantine(notification_type);
+
+-- Re-queue a quarantined notification for the webhook processor
+CREATE OR REPLACE FUNCTION replay_quarantined_notification(
+  p_quarantine_id UUID
+) RETURNS BIGINT AS $$
+DECLARE
+  v_entry support_webhook_quarantine%ROWTYPE;
+  v_msg_id BIGINT;
+BEGIN
+  SELECT * INTO v_entry
+  FROM support_webhook_quarantine
+  WHERE id = p_quarantine_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quarantine entry % not found', p_quarantine_id;
+  END IF;
+
+  SELECT * INTO v_msg_id
+  FROM pgmq_public.send('nylas_webhook_notifications', v_entry.queue_message);
+
+  UPDATE support_webhook_quarantine
+  SET
+    replayed_at = NOW(),
+    replay_count = replay_count + 1
+  WHERE id = p_quarantine_id;
+
+  IF v_entry.notification_id IS NOT NULL THEN
+    UPDATE support_webhook_notifications
+    SET
+      status = 'pending',
+      error_message = NULL
+    WHERE id = v_entry.notification_id;
+  END IF;
+
+  RAISE NOTICE 'Replayed quarantined % notification % as queue message %',
+    v_entry.notification_type,
+    p_quarantine_id,
+    v_msg_id;
+
+  RETURN v_msg_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,11 @@
+-- Migration: Record messages whose webhook notification was truncated
+-- Nylas sends message.created.truncated / message.updated.truncated when the body is too
+-- large for the webhook payload. The service always refetches the full message and flags it here.
+
+ALTER TABLE support_email_messages
+  ADD COLUMN IF NOT EXISTS large_body BOOLEAN DEFAULT FALSE NOT NULL,
+  ADD COLUMN IF NOT EXISTS body_size_bytes INT;
+
+CREATE INDEX IF NOT EXISTS idx_email_messages_large_body
+  ON support_email_messages(large_body)
+  WHERE large_body = TRUE;
@@ -0,0 +1,38 @@
+-- Migration: Attachment content storage
+-- Attachment bytes are downloaded through Nylas into a blob store (Supabase Storage or the
+-- local filesystem) under a content-addressed key, and recorded per message here.
+-- Identical files share one stored blob (same sha256 / storage_key).
+
+CREATE TABLE IF NOT EXISTS support_email_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES support_email_messages(id) ON DELETE CASCADE,
+  nylas_attachment_id TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes BIGINT,
+  content_id TEXT,                     -- For inline parts referenced from the HTML body
+  is_inline BOOLEAN DEFAULT FALSE NOT NULL,
+
+  sha256 TEXT,                         -- Hex digest of the content (NULL until stored)
+  storage_backend TEXT,                -- 'supabase' | 'local'
+  storage_key TEXT,                    -- e.g. sha256/ab/ab12...
+
+  status TEXT DEFAULT 'stored' NOT NULL, -- 'stored' | 'skipped' | 'error'
+  error_message TEXT,
+
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+
+  UNIQUE (message_id, nylas_attachment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_attachments_message
+  ON support_email_attachments(message_id);
+
+CREATE INDEX IF NOT EXISTS idx_email_attachments_sha256
+  ON support_email_attachments(sha256)
+  WHERE sha256 IS NOT NULL;
+
+-- Private bucket for the Supabase Storage backend (ATTACHMENTS_BUCKET)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('email-attachments', 'email-attachments', FALSE)
+ON CONFLICT (id) DO NOTHING;
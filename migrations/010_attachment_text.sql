@@ -0,0 +1,10 @@
+-- Migration: Attachment text for the extraction transcript
+-- Text is extracted from PDF, DOCX, TXT and CSV attachments at ingestion time and fed
+-- (within EXTRACTION_ATTACHMENT_CHAR_BUDGET) into the thread extraction prompt.
+-- extraction_metadata records which attachments were included and how much of each.
+
+ALTER TABLE support_email_attachments
+  ADD COLUMN IF NOT EXISTS extracted_text TEXT;
+
+ALTER TABLE email_extractions
+  ADD COLUMN IF NOT EXISTS extraction_metadata JSONB;
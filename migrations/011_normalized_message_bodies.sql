@@ -0,0 +1,9 @@
+-- Migration: Normalized plain-text bodies
+-- body stays the raw HTML from Nylas. At sync time the service also stores:
+--   body_text  - the full body as plain text
+--   body_clean - body_text without quoted replies, forwarded headers and signatures
+-- Rows synced before this migration keep NULLs; readers fall back to body.
+
+ALTER TABLE support_email_messages
+  ADD COLUMN IF NOT EXISTS body_text TEXT,
+  ADD COLUMN IF NOT EXISTS body_clean TEXT;
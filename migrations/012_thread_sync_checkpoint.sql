@@ -0,0 +1,9 @@
+-- Migration: Resumable thread sync
+-- Threads are paged through 100 messages at a time. After each page the thread processor
+-- stores the next cursor here, so a retried job resumes instead of starting over.
+-- Cleared when the thread completes or fails.
+--   { "page_token": "...", "pages_completed": 3, "messages_seen": 300,
+--     "messages_synced": 298, "updated_at": "..." }
+
+ALTER TABLE queued_threads
+  ADD COLUMN IF NOT EXISTS sync_checkpoint JSONB;
@@ -0,0 +1,112 @@
+-- Migration: Exact thread aggregates
+-- support_email_threads carries denormalized values derived from its live (not deleted)
+-- messages. The service calls recompute_thread_aggregates after every message insert,
+-- update and delete; recompute_inbox_thread_aggregates repairs a whole inbox.
+
+ALTER TABLE support_email_threads
+  ADD COLUMN IF NOT EXISTS message_count INT DEFAULT 0 NOT NULL;
+
+-- Recompute one thread. Returns the number of live messages.
+-- A thread without live messages only gets message_count = 0; the caller decides
+-- whether to soft-delete it.
+CREATE OR REPLACE FUNCTION recompute_thread_aggregates(
+  p_thread_id UUID
+) RETURNS INT AS $$
+DECLARE
+  v_count INT;
+  v_flags RECORD;
+  v_participants JSONB;
+BEGIN
+  SELECT
+    COUNT(*) AS message_count,
+    COALESCE(BOOL_OR(unread), FALSE) AS unread,
+    COALESCE(BOOL_OR(starred), FALSE) AS starred
+  INTO v_flags
+  FROM support_email_messages
+  WHERE thread_id = p_thread_id
+    AND deleted_at IS NULL;
+
+  v_count := v_flags.message_count;
+
+  IF v_count = 0 THEN
+    UPDATE support_email_threads
+    SET message_count = 0, updated_at = NOW()
+    WHERE id = p_thread_id;
+    RETURN 0;
+  END IF;
+
+  -- Unique participants (sender, to, cc) by lower-cased email, preferring entries with a name
+  SELECT COALESCE(jsonb_agg(p.participant ORDER BY p.email), '[]'::jsonb)
+  INTO v_participants
+  FROM (
+    SELECT DISTINCT ON (LOWER(e.participant->>'email'))
+      LOWER(e.participant->>'email') AS email,
+      e.participant
+    FROM support_email_messages m
+    CROSS JOIN LATERAL (
+      SELECT m.sender AS participant
+      UNION ALL
+      SELECT jsonb_array_elements(
+        CASE WHEN jsonb_typeof(m.to_recipients) = 'array' THEN m.to_recipients ELSE '[]'::jsonb END
+      )
+      UNION ALL
+      SELECT jsonb_array_elements(
+        CASE WHEN jsonb_typeof(m.cc_recipients) = 'array' THEN m.cc_recipients ELSE '[]'::jsonb END
+      )
+    ) e
+    WHERE m.thread_id = p_thread_id
+      AND m.deleted_at IS NULL
+      AND COALESCE(e.participant->>'email', '') <> ''
+    ORDER BY LOWER(e.participant->>'email'), COALESCE(e.participant->>'name', '') = ''
+  ) p;
+
+  UPDATE support_email_threads t
+  SET
+    message_count = v_count,
+    unread = v_flags.unread,
+    starred = v_flags.starred,
+    participants = v_participants,
+    latest_message_received_date = latest.received_date,
+    snippet = COALESCE(latest.snippet, ''),
+    updated_at = NOW()
+  FROM (
+    SELECT received_date, snippet
+    FROM support_email_messages
+    WHERE thread_id = p_thread_id
+      AND deleted_at IS NULL
+    ORDER BY received_date DESC
+    LIMIT 1
+  ) latest
+  WHERE t.id = p_thread_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recompute every live thread of an inbox. Returns the number of threads processed.
+CREATE OR REPLACE FUNCTION recompute_inbox_thread_aggregates(
+  p_inbox_id UUID
+) RETURNS INT AS $$
+DECLARE
+  v_thread_id UUID;
+  v_processed INT := 0;
+BEGIN
+  FOR v_thread_id IN
+    SELECT id
+    FROM support_email_threads
+    WHERE inbox_id = p_inbox_id
+      AND deleted_at IS NULL
+  LOOP
+    PERFORM recompute_thread_aggregates(v_thread_id);
+    v_processed := v_processed + 1;
+  END LOOP;
+
+  RAISE NOTICE 'Recomputed aggregates for % threads in inbox %', v_processed, p_inbox_id;
+
+  RETURN v_processed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Existing threads are not backfilled here: recomputing every inbox in one statement runs into
+-- the statement timeout on large deployments. After deploying, run `yarn repair-threads --all`,
+-- which recomputes them in batches (recompute_thread_aggregates_range, migration 024).
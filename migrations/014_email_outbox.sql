@@ -0,0 +1,83 @@
+-- Migration: Outbound email (reply / compose) through a PGMQ outbox
+-- The app inserts a support_email_outbox row; the insert trigger queues it on email_outbox
+-- and the outbox worker sends it through Nylas, then records the sent message in
+-- support_email_messages. Replies reference a support_email_threads row and are sent with
+-- reply_to_message_id set to the thread's latest message.
+
+SELECT pgmq.create('email_outbox');
+
+CREATE TABLE IF NOT EXISTS support_email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inbox_id UUID NOT NULL REFERENCES support_inboxes(id) ON DELETE CASCADE,
+  thread_id UUID REFERENCES support_email_threads(id) ON DELETE SET NULL, -- Required for replies
+  kind TEXT NOT NULL CHECK (kind IN ('reply', 'compose')),
+
+  to_recipients JSONB DEFAULT '[]'::jsonb NOT NULL, -- [{ "email": ..., "name": ... }]; replies default to the customer
+  cc_recipients JSONB DEFAULT '[]'::jsonb NOT NULL,
+  bcc_recipients JSONB DEFAULT '[]'::jsonb NOT NULL,
+  subject TEXT,                        -- Replies default to "Re: <thread subject>"
+  body TEXT NOT NULL,                  -- HTML
+  requested_by TEXT,                   -- Agent / user that asked for the send
+
+  status TEXT DEFAULT 'pending' NOT NULL, -- 'pending' | 'sending' | 'sent' | 'failed'
+  attempts INT DEFAULT 0 NOT NULL,
+  last_error TEXT,
+  reply_to_message_id TEXT,            -- Nylas message id the reply was sent against
+  nylas_message_id TEXT,               -- Nylas id of the sent message
+  message_id UUID REFERENCES support_email_messages(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  sent_at TIMESTAMP,
+
+  CHECK (kind = 'compose' OR thread_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_thread
+  ON support_email_outbox(thread_id)
+  WHERE thread_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_status
+  ON support_email_outbox(status, created_at);
+
+-- Queue an outbox row for the worker (also used to retry a failed send)
+CREATE OR REPLACE FUNCTION queue_outbound_email(
+  p_outbox_id UUID
+) RETURNS BIGINT AS $$
+DECLARE
+  v_msg_id BIGINT;
+BEGIN
+  UPDATE support_email_outbox
+  SET
+    status = 'pending',
+    last_error = NULL,
+    updated_at = NOW()
+  WHERE id = p_outbox_id
+    AND status IN ('pending', 'failed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Outbox entry % not found or already sent', p_outbox_id;
+  END IF;
+
+  SELECT * INTO v_msg_id
+  FROM pgmq_public.send('email_outbox', jsonb_build_object('outbox_id', p_outbox_id));
+
+  RAISE NOTICE 'Queued outbox entry % as queue message %', p_outbox_id, v_msg_id;
+
+  RETURN v_msg_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION queue_outbound_email_on_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM queue_outbound_email(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_queue_outbound_email ON support_email_outbox;
+CREATE TRIGGER trg_queue_outbound_email
+  AFTER INSERT ON support_email_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_outbound_email_on_insert();
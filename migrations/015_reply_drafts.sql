@@ -0,0 +1,122 @@
+-- Migration: AI-drafted replies
+-- Threads whose latest extraction has reply_expectation 'expected' or 'required' get a suggested
+-- reply written by the reply-draft worker, using the thread transcript and the tenant's tone
+-- settings. Drafts can optionally be pushed to the mailbox as Nylas drafts.
+
+-- Per-tenant settings (one row per tenant; missing rows use the defaults below)
+CREATE TABLE IF NOT EXISTS support_tenant_settings (
+  tenant_id UUID PRIMARY KEY,
+  reply_tone TEXT DEFAULT 'professional' NOT NULL, -- e.g. professional, friendly, formal
+  reply_guidelines TEXT,               -- Free-form instructions for the drafting model
+  reply_signature TEXT,                -- Appended to every draft as-is
+  reply_drafts_enabled BOOLEAN DEFAULT TRUE NOT NULL,
+  push_reply_drafts BOOLEAN DEFAULT FALSE NOT NULL, -- Also create a Nylas draft in the mailbox
+
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS email_reply_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  extraction_id UUID NOT NULL UNIQUE REFERENCES email_extractions(id) ON DELETE CASCADE,
+  thread_id UUID NOT NULL REFERENCES support_email_threads(id) ON DELETE CASCADE,
+  inbox_id UUID NOT NULL,
+  tenant_id UUID,
+  reply_to_message_id UUID REFERENCES support_email_messages(id) ON DELETE SET NULL,
+
+  to_recipients JSONB DEFAULT '[]'::jsonb NOT NULL,
+  subject TEXT,
+  body_text TEXT,
+  body_html TEXT,
+  addressed_points JSONB DEFAULT '[]'::jsonb NOT NULL, -- What the draft answers
+  open_questions JSONB DEFAULT '[]'::jsonb NOT NULL,   -- What the agent still has to fill in
+  confidence NUMERIC,
+
+  tone TEXT,
+  model TEXT,                          -- provider/model
+  prompt_version TEXT,
+  token_usage INT,
+
+  status TEXT DEFAULT 'draft' NOT NULL, -- 'draft' | 'pushed' | 'error' | 'discarded' | 'sent'
+  attempts INT DEFAULT 0 NOT NULL,
+  error_message TEXT,
+  nylas_draft_id TEXT,
+  push_error TEXT,
+
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_reply_drafts_thread
+  ON email_reply_drafts(thread_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_email_reply_drafts_status
+  ON email_reply_drafts(status);
+
+-- Extractions that need a draft: the thread's current extraction expects a reply, nothing has
+-- arrived since it was made, and no draft exists yet (or earlier attempts errored)
+CREATE OR REPLACE FUNCTION get_reply_draft_candidates(
+  p_limit INT DEFAULT 5,
+  p_max_attempts INT DEFAULT 3,
+  p_max_age_hours INT DEFAULT 72
+) RETURNS TABLE (
+  extraction_id UUID,
+  thread_id UUID,
+  inbox_id UUID,
+  tenant_id UUID,
+  reply_expectation TEXT,
+  summary TEXT,
+  tasks JSONB,
+  reply_tone TEXT,
+  reply_guidelines TEXT,
+  reply_signature TEXT,
+  push_reply_drafts BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.thread_id,
+    e.inbox_id,
+    e.tenant_id,
+    e.reply_expectation::TEXT,
+    COALESCE(e.thread_summary, e.summary)::TEXT,
+    to_jsonb(e.tasks),
+    COALESCE(s.reply_tone, 'professional'),
+    s.reply_guidelines,
+    s.reply_signature,
+    COALESCE(s.push_reply_drafts, FALSE)
+  FROM email_extractions e
+  JOIN support_email_threads t ON t.id = e.thread_id
+  LEFT JOIN support_tenant_settings s ON s.tenant_id = e.tenant_id
+  WHERE e.reply_expectation IN ('expected', 'required')
+    AND e.retired_at IS NULL
+    AND e.is_stale = FALSE
+    AND e.created_at > NOW() - make_interval(hours => p_max_age_hours)
+    AND t.deleted_at IS NULL
+    AND t.is_spam IS NOT TRUE
+    AND COALESCE(s.reply_drafts_enabled, TRUE)
+    -- Only the thread's current extraction
+    AND NOT EXISTS (
+      SELECT 1 FROM email_extractions newer
+      WHERE newer.thread_id = e.thread_id
+        AND newer.retired_at IS NULL
+        AND newer.created_at > e.created_at
+    )
+    -- Nothing (e.g. our own reply) has arrived since the extraction
+    AND e.nylas_message_id = (
+      SELECT m.nylas_message_id FROM support_email_messages m
+      WHERE m.thread_id = e.thread_id
+        AND m.deleted_at IS NULL
+      ORDER BY m.received_date DESC
+      LIMIT 1
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM email_reply_drafts d
+      WHERE d.extraction_id = e.id
+        AND (d.status <> 'error' OR d.attempts >= p_max_attempts)
+    )
+  ORDER BY (e.reply_expectation = 'required') DESC, e.created_at ASC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,35 @@
+-- Migration: Gap detection for missed webhooks
+-- The webhook processor records the newest notification it processed per inbox. The gap-fill
+-- check (run by the completion monitor) asks Nylas for messages received since then; any that
+-- are missing from support_email_messages mean webhooks were lost, and a bounded catch-up
+-- backfill is queued for the window through the regular inbox_backfill_jobs path.
+
+ALTER TABLE support_inboxes
+  ADD COLUMN IF NOT EXISTS last_webhook_processed_at TIMESTAMP, -- received_at of the newest processed notification
+  ADD COLUMN IF NOT EXISTS gap_checked_at TIMESTAMP;            -- Mailbox verified complete up to here
+
+CREATE TABLE IF NOT EXISTS support_inbox_gap_fills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inbox_id UUID NOT NULL REFERENCES support_inboxes(id) ON DELETE CASCADE,
+  window_start TIMESTAMP NOT NULL,
+  window_end TIMESTAMP NOT NULL,
+  missing_messages INT NOT NULL,       -- Missing messages seen by the probe (capped by the probe size)
+  sample_message_ids JSONB DEFAULT '[]'::jsonb NOT NULL,
+  backfill_msg_id BIGINT NOT NULL,     -- inbox_backfill_jobs message of the catch-up
+  detected_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_gap_fills_inbox
+  ON support_inbox_gap_fills(inbox_id, detected_at DESC);
+
+-- Advance the per-inbox webhook cursor (never moves backwards when batches finish out of order)
+CREATE OR REPLACE FUNCTION record_webhook_processed(
+  p_inbox_id UUID,
+  p_received_at TIMESTAMP
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE support_inboxes
+  SET last_webhook_processed_at = GREATEST(COALESCE(last_webhook_processed_at, p_received_at), p_received_at)
+  WHERE id = p_inbox_id;
+END;
+$$ LANGUAGE plpgsql;
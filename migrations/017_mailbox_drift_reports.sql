@@ -0,0 +1,42 @@
+-- Migration: Mailbox reconciliation reports
+-- The reconciler lists threads and messages from Nylas for a rolling window and compares them
+-- with support_email_threads / support_email_messages. Every run writes one row per inbox so
+-- drift can be tracked over time and alerted on; fix runs also record what was repaired.
+
+CREATE TABLE IF NOT EXISTS mailbox_drift_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inbox_id UUID NOT NULL REFERENCES support_inboxes(id) ON DELETE CASCADE,
+  window_start TIMESTAMP NOT NULL,
+  window_end TIMESTAMP NOT NULL,
+
+  nylas_threads INT DEFAULT 0 NOT NULL,
+  nylas_messages INT DEFAULT 0 NOT NULL,
+  db_threads INT DEFAULT 0 NOT NULL,
+  db_messages INT DEFAULT 0 NOT NULL,
+
+  missing_threads INT DEFAULT 0 NOT NULL,   -- In Nylas, not in the database
+  partial_threads INT DEFAULT 0 NOT NULL,   -- In both, but missing some of their messages
+  missing_messages INT DEFAULT 0 NOT NULL,
+  orphaned_threads INT DEFAULT 0 NOT NULL,  -- Live in the database, gone from Nylas
+  orphaned_messages INT DEFAULT 0 NOT NULL,
+  total_drift INT DEFAULT 0 NOT NULL,       -- missing_threads + partial_threads + missing_messages + orphans
+
+  sample_ids JSONB DEFAULT '{}'::jsonb NOT NULL, -- A few Nylas ids per category for debugging
+
+  fix_applied BOOLEAN DEFAULT FALSE NOT NULL,
+  threads_queued INT DEFAULT 0 NOT NULL,
+  threads_soft_deleted INT DEFAULT 0 NOT NULL,
+  messages_soft_deleted INT DEFAULT 0 NOT NULL,
+  error_message TEXT,
+
+  duration_ms INT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_mailbox_drift_reports_inbox
+  ON mailbox_drift_reports(inbox_id, created_at DESC);
+
+-- Runs that found drift, for alerting
+CREATE INDEX IF NOT EXISTS idx_mailbox_drift_reports_drift
+  ON mailbox_drift_reports(created_at DESC)
+  WHERE total_drift > 0;
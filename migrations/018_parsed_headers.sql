@@ -0,0 +1,14 @@
+-- Migration: Parsed mail headers
+-- support_email_messages.headers keeps the raw header list as the provider returned it. The sync
+-- now also stores typed fields parsed from it (see src/header-parser.ts): Message-ID, In-Reply-To,
+-- References, List-Id, List-Unsubscribe, Auto-Submitted, Precedence, Return-Path and the
+-- SPF/DKIM/DMARC verdicts. NULL means the message had no headers to parse (rows synced before
+-- headers were requested from Nylas).
+
+ALTER TABLE support_email_messages
+  ADD COLUMN IF NOT EXISTS parsed_headers JSONB;
+
+-- Thread reconstruction looks messages up by their Message-ID (e.g. imports replying to synced mail)
+CREATE INDEX IF NOT EXISTS idx_email_messages_header_message_id
+  ON support_email_messages((parsed_headers->>'message_id'))
+  WHERE parsed_headers IS NOT NULL;
@@ -0,0 +1,197 @@
+-- Migration: Contacts directory
+-- Every sender and recipient of a message is linked to a contact, per tenant. Addresses are
+-- normalized by the service (lower case, plus-addressing tags dropped, Gmail dots removed) and
+-- a contact can own several addresses (known aliases). Counts, first/last seen and display
+-- names are derived from the contact's live messages by recompute_contact_stats.
+
+CREATE TABLE IF NOT EXISTS support_contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  primary_email TEXT NOT NULL,         -- Normalized address the contact was created for
+  display_name TEXT,                   -- Most used display name
+  display_names JSONB DEFAULT '[]'::jsonb NOT NULL, -- Every display name seen, most used first
+
+  message_count INT DEFAULT 0 NOT NULL, -- Live messages the contact sent or received
+  sent_count INT DEFAULT 0 NOT NULL,    -- ... of which the contact is the sender
+  first_seen_at TIMESTAMP,
+  last_seen_at TIMESTAMP,
+
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE (tenant_id, primary_email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_support_contacts_last_seen
+  ON support_contacts(tenant_id, last_seen_at DESC);
+
+-- Normalized addresses that belong to a contact
+CREATE TABLE IF NOT EXISTS support_contact_addresses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  contact_id UUID NOT NULL REFERENCES support_contacts(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  source TEXT DEFAULT 'seen' NOT NULL, -- 'seen' (on a message) | 'alias' (added by hand)
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE (tenant_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_support_contact_addresses_contact
+  ON support_contact_addresses(contact_id);
+
+-- One row per address on a message, as written on the message
+CREATE TABLE IF NOT EXISTS support_message_participants (
+  message_id UUID NOT NULL REFERENCES support_email_messages(id) ON DELETE CASCADE,
+  role TEXT NOT NULL,                  -- 'from' | 'to' | 'cc' | 'bcc' | 'reply_to'
+  email TEXT NOT NULL,
+  name TEXT,
+  contact_id UUID NOT NULL REFERENCES support_contacts(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL,
+  PRIMARY KEY (message_id, role, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_support_message_participants_contact
+  ON support_message_participants(contact_id);
+
+-- Recompute counts, first/last seen and display names of the given contacts
+CREATE OR REPLACE FUNCTION recompute_contact_stats(
+  p_contact_ids UUID[]
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE support_contacts c
+  SET
+    message_count = COALESCE(s.message_count, 0),
+    sent_count = COALESCE(s.sent_count, 0),
+    first_seen_at = s.first_seen_at,
+    last_seen_at = s.last_seen_at,
+    display_names = COALESCE(n.names, '[]'::jsonb),
+    display_name = n.names->>0,
+    updated_at = NOW()
+  FROM UNNEST(p_contact_ids) AS ids(contact_id)
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(DISTINCT m.id) AS message_count,
+      COUNT(DISTINCT m.id) FILTER (WHERE p.role = 'from') AS sent_count,
+      MIN(m.received_date) AS first_seen_at,
+      MAX(m.received_date) AS last_seen_at
+    FROM support_message_participants p
+    JOIN support_email_messages m ON m.id = p.message_id
+    WHERE p.contact_id = ids.contact_id
+      AND m.deleted_at IS NULL
+  ) s ON TRUE
+  LEFT JOIN LATERAL (
+    -- Names that aren't just the address, most used first
+    SELECT jsonb_agg(named.name ORDER BY named.uses DESC, named.name) AS names
+    FROM (
+      SELECT p.name, COUNT(*) AS uses
+      FROM support_message_participants p
+      JOIN support_email_messages m ON m.id = p.message_id
+      WHERE p.contact_id = ids.contact_id
+        AND m.deleted_at IS NULL
+        AND COALESCE(TRIM(p.name), '') <> ''
+        AND LOWER(TRIM(p.name)) <> LOWER(p.email)
+      GROUP BY p.name
+    ) named
+  ) n ON TRUE
+  WHERE c.id = ids.contact_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Link the participants of a message to contacts, creating contacts for new addresses.
+-- p_participants: [{ "role", "email" (as written), "normalized", "name" }]. Returns the number linked.
+CREATE OR REPLACE FUNCTION link_message_participants(
+  p_message_id UUID,
+  p_tenant_id UUID,
+  p_participants JSONB
+) RETURNS INT AS $$
+DECLARE
+  v_participant JSONB;
+  v_normalized TEXT;
+  v_contact_id UUID;
+  v_contact_ids UUID[] := '{}';
+BEGIN
+  -- Contacts the message was linked to before (a relink may drop some of them)
+  SELECT COALESCE(ARRAY_AGG(DISTINCT contact_id), '{}')
+  INTO v_contact_ids
+  FROM support_message_participants
+  WHERE message_id = p_message_id;
+
+  DELETE FROM support_message_participants WHERE message_id = p_message_id;
+
+  FOR v_participant IN SELECT * FROM jsonb_array_elements(p_participants) LOOP
+    v_normalized := v_participant->>'normalized';
+
+    SELECT contact_id INTO v_contact_id
+    FROM support_contact_addresses
+    WHERE tenant_id = p_tenant_id AND email = v_normalized;
+
+    IF v_contact_id IS NULL THEN
+      -- Concurrent syncs of the same new address end up on the same contact
+      INSERT INTO support_contacts (tenant_id, primary_email)
+      VALUES (p_tenant_id, v_normalized)
+      ON CONFLICT (tenant_id, primary_email) DO NOTHING;
+
+      SELECT id INTO v_contact_id
+      FROM support_contacts
+      WHERE tenant_id = p_tenant_id AND primary_email = v_normalized;
+
+      INSERT INTO support_contact_addresses (tenant_id, contact_id, email)
+      VALUES (p_tenant_id, v_contact_id, v_normalized)
+      ON CONFLICT (tenant_id, email) DO NOTHING;
+    END IF;
+
+    INSERT INTO support_message_participants (message_id, role, email, name, contact_id, tenant_id)
+    VALUES (
+      p_message_id,
+      v_participant->>'role',
+      v_participant->>'email',
+      NULLIF(TRIM(v_participant->>'name'), ''),
+      v_contact_id,
+      p_tenant_id
+    )
+    ON CONFLICT (message_id, role, email) DO NOTHING;
+
+    v_contact_ids := ARRAY_APPEND(v_contact_ids, v_contact_id);
+  END LOOP;
+
+  PERFORM recompute_contact_stats(ARRAY(SELECT DISTINCT UNNEST(v_contact_ids)));
+
+  RETURN jsonb_array_length(p_participants);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refresh the contacts of a thread's messages (after messages were deleted)
+CREATE OR REPLACE FUNCTION recompute_thread_contact_stats(
+  p_thread_id UUID
+) RETURNS VOID AS $$
+BEGIN
+  PERFORM recompute_contact_stats(ARRAY(
+    SELECT DISTINCT p.contact_id
+    FROM support_message_participants p
+    JOIN support_email_messages m ON m.id = p.message_id
+    WHERE m.thread_id = p_thread_id
+  ));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Fold one contact into another (a known alias): its addresses and message links move over
+CREATE OR REPLACE FUNCTION merge_contacts(
+  p_keep_id UUID,
+  p_merge_id UUID
+) RETURNS VOID AS $$
+BEGIN
+  IF p_keep_id = p_merge_id THEN
+    RETURN;
+  END IF;
+
+  IF (SELECT tenant_id FROM support_contacts WHERE id = p_keep_id)
+     IS DISTINCT FROM (SELECT tenant_id FROM support_contacts WHERE id = p_merge_id) THEN
+    RAISE EXCEPTION 'Contacts % and % belong to different tenants', p_keep_id, p_merge_id;
+  END IF;
+
+  UPDATE support_contact_addresses SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE support_message_participants SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  DELETE FROM support_contacts WHERE id = p_merge_id;
+
+  PERFORM recompute_contact_stats(ARRAY[p_keep_id]);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,44 @@
+-- Migration: Multi-window backfills
+-- Backfill ranges are no longer clamped to one year. The processor splits a range into windows
+-- (BACKFILL_WINDOW_DAYS, newest first) and keeps each window's checkpoint and stats in
+-- support_inbox_configurations.backfill_progress->'windows'. The longest range a tenant can
+-- backfill is configurable; NULL uses the service default (BACKFILL_MAX_DAYS).
+
+ALTER TABLE support_tenant_settings
+  ADD COLUMN IF NOT EXISTS backfill_max_days INT CHECK (backfill_max_days > 0);
+
+-- Per-window progress of an inbox configuration's current (or last) backfill
+CREATE OR REPLACE FUNCTION get_backfill_windows(
+  p_config_id UUID
+) RETURNS TABLE (
+  window_index INT,
+  start_date TIMESTAMP,
+  end_date TIMESTAMP,
+  status TEXT,
+  pages INT,
+  threads_queued INT,
+  threads_skipped INT,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    (w->>'index')::INT,
+    (w->>'start_date')::TIMESTAMP,
+    (w->>'end_date')::TIMESTAMP,
+    w->>'status',
+    COALESCE((w->>'pages')::INT, 0),
+    COALESCE((w->>'threads_queued')::INT, 0),
+    COALESCE((w->>'threads_skipped')::INT, 0),
+    (w->>'started_at')::TIMESTAMP,
+    (w->>'completed_at')::TIMESTAMP
+  FROM support_inbox_configurations c
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(c.backfill_progress->'windows') = 'array'
+      THEN c.backfill_progress->'windows' ELSE '[]'::jsonb END
+  ) w
+  WHERE c.id = p_config_id
+  ORDER BY (w->>'index')::INT;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,50 @@
+-- Migration: Folder-scoped sync
+-- An inbox configuration can limit which folders/labels are synced. Backfills only queue threads
+-- the policy admits and webhook sync skips messages that would start an excluded thread.
+-- NULL uses the service defaults: no include list, FOLDER_POLICY_DEFAULT_EXCLUDE. A backfill
+-- job's include_folders / exclude_folders replace the inbox's lists for that run.
+
+ALTER TABLE support_inbox_configurations
+  ADD COLUMN IF NOT EXISTS include_folders TEXT[], -- Only threads in one of these (NULL/empty = all)
+  ADD COLUMN IF NOT EXISTS exclude_folders TEXT[]; -- Never threads in any of these, e.g. {SPAM,TRASH}
+
+-- The result columns change, so the function has to be dropped first
+DROP FUNCTION IF EXISTS get_backfill_windows(UUID);
+
+-- Per-window progress of an inbox configuration's current (or last) backfill
+CREATE OR REPLACE FUNCTION get_backfill_windows(
+  p_config_id UUID
+) RETURNS TABLE (
+  window_index INT,
+  start_date TIMESTAMP,
+  end_date TIMESTAMP,
+  status TEXT,
+  pages INT,
+  threads_queued INT,
+  threads_skipped INT,
+  threads_filtered INT,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    (w->>'index')::INT,
+    (w->>'start_date')::TIMESTAMP,
+    (w->>'end_date')::TIMESTAMP,
+    w->>'status',
+    COALESCE((w->>'pages')::INT, 0),
+    COALESCE((w->>'threads_queued')::INT, 0),
+    COALESCE((w->>'threads_skipped')::INT, 0),
+    COALESCE((w->>'threads_filtered')::INT, 0),
+    (w->>'started_at')::TIMESTAMP,
+    (w->>'completed_at')::TIMESTAMP
+  FROM support_inbox_configurations c
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(c.backfill_progress->'windows') = 'array'
+      THEN c.backfill_progress->'windows' ELSE '[]'::jsonb END
+  ) w
+  WHERE c.id = p_config_id
+  ORDER BY (w->>'index')::INT;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,127 @@
+-- Migration: Pause, resume and cancel backfills
+-- A running backfill can be paused, resumed or cancelled per inbox configuration.
+--
+-- Pausing remembers the phase (backfill / thread_sync) in backfill_resume_status. The backfill
+-- processor stops at the next page and parks its job in backfill_progress->'paused_job'; thread
+-- processors hand their jobs back to queued_threads (pgmq_queued_at = NULL) instead of syncing.
+-- Resuming restores the phase; the service (BackfillControl) then queues the parked jobs again.
+--
+-- Cancelling also cancels the threads still queued. Backfill jobs enqueued before
+-- backfill_cancelled_at are dropped when they are read.
+
+ALTER TABLE support_inbox_configurations
+  ADD COLUMN IF NOT EXISTS backfill_paused_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS backfill_resume_status TEXT,      -- Phase to return to on resume
+  ADD COLUMN IF NOT EXISTS backfill_cancelled_at TIMESTAMPTZ, -- Compared with PGMQ's enqueued_at
+  ADD COLUMN IF NOT EXISTS backfill_control_reason TEXT;     -- Why it was last paused or cancelled
+
+-- Pause a running backfill. Returns the status it was paused in.
+CREATE OR REPLACE FUNCTION pause_backfill(
+  p_config_id UUID,
+  p_reason TEXT DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT backfill_status INTO v_status
+  FROM support_inbox_configurations
+  WHERE id = p_config_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inbox configuration % not found', p_config_id;
+  END IF;
+
+  IF COALESCE(v_status, '') NOT IN ('backfill', 'thread_sync', 'in_progress') THEN
+    RAISE EXCEPTION 'Backfill of configuration % is not running (status %)', p_config_id, v_status;
+  END IF;
+
+  UPDATE support_inbox_configurations
+  SET
+    backfill_status = 'paused',
+    backfill_resume_status = v_status,
+    backfill_paused_at = NOW(),
+    backfill_control_reason = p_reason,
+    updated_at = NOW()
+  WHERE id = p_config_id;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Resume a paused backfill. Returns the status it is back in.
+CREATE OR REPLACE FUNCTION resume_backfill(
+  p_config_id UUID
+) RETURNS TEXT AS $$
+DECLARE
+  v_status TEXT;
+  v_resume_status TEXT;
+BEGIN
+  SELECT backfill_status, COALESCE(backfill_resume_status, 'backfill')
+  INTO v_status, v_resume_status
+  FROM support_inbox_configurations
+  WHERE id = p_config_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inbox configuration % not found', p_config_id;
+  END IF;
+
+  IF v_status IS DISTINCT FROM 'paused' THEN
+    RAISE EXCEPTION 'Backfill of configuration % is not paused (status %)', p_config_id, v_status;
+  END IF;
+
+  UPDATE support_inbox_configurations
+  SET
+    backfill_status = v_resume_status,
+    backfill_resume_status = NULL,
+    backfill_paused_at = NULL,
+    updated_at = NOW()
+  WHERE id = p_config_id;
+
+  RETURN v_resume_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cancel a running or paused backfill and its queued threads. Returns the number of threads cancelled.
+CREATE OR REPLACE FUNCTION cancel_backfill(
+  p_config_id UUID,
+  p_reason TEXT DEFAULT NULL
+) RETURNS INT AS $$
+DECLARE
+  v_status TEXT;
+  v_threads INT;
+BEGIN
+  SELECT backfill_status INTO v_status
+  FROM support_inbox_configurations
+  WHERE id = p_config_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inbox configuration % not found', p_config_id;
+  END IF;
+
+  IF COALESCE(v_status, '') NOT IN ('backfill', 'thread_sync', 'in_progress', 'paused') THEN
+    RAISE EXCEPTION 'Backfill of configuration % is not running or paused (status %)', p_config_id, v_status;
+  END IF;
+
+  UPDATE support_inbox_configurations
+  SET
+    backfill_status = 'cancelled',
+    backfill_resume_status = NULL,
+    backfill_paused_at = NULL,
+    backfill_cancelled_at = NOW(),
+    backfill_control_reason = p_reason,
+    backfill_progress = backfill_progress - 'paused_job',
+    updated_at = NOW()
+  WHERE id = p_config_id;
+
+  UPDATE queued_threads
+  SET status = 'cancelled', processed_at = NOW()
+  WHERE config_id = p_config_id
+    AND status = 'queued';
+
+  GET DIAGNOSTICS v_threads = ROW_COUNT;
+  RETURN v_threads;
+END;
+$$ LANGUAGE plpgsql;
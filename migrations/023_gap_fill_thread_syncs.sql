@@ -0,0 +1,8 @@
+-- Migration: Gap fills queue thread syncs
+-- Gap fills used to queue a catch-up backfill, which skips every thread already in
+-- support_email_threads - so a missed reply on a known thread was never fetched. The threads of
+-- the missing messages are now queued on thread_sync_jobs directly.
+
+ALTER TABLE support_inbox_gap_fills
+  ALTER COLUMN backfill_msg_id DROP NOT NULL, -- Only set by gap fills recorded before this migration
+  ADD COLUMN IF NOT EXISTS threads_queued INT DEFAULT 0 NOT NULL;
@@ -0,0 +1,43 @@
+-- Migration: Batched thread aggregate repair
+-- recompute_inbox_thread_aggregates recomputes a whole inbox in one statement, which runs into
+-- the statement timeout on large inboxes. recompute_thread_aggregates_range recomputes one range
+-- of an inbox's threads (ordered by id, after p_after_thread_id) per call; the service
+-- (ThreadAggregates.recomputeInbox) walks the ranges until a call returns fewer than p_limit.
+
+CREATE INDEX IF NOT EXISTS idx_email_threads_live_id
+  ON support_email_threads(inbox_id, id)
+  WHERE deleted_at IS NULL;
+
+-- Recompute up to p_limit live threads of an inbox. Returns how many were processed and the
+-- last thread id, to pass as p_after_thread_id for the next range.
+CREATE OR REPLACE FUNCTION recompute_thread_aggregates_range(
+  p_inbox_id UUID,
+  p_after_thread_id UUID DEFAULT NULL,
+  p_limit INT DEFAULT 500
+) RETURNS TABLE (
+  processed INT,
+  last_thread_id UUID
+) AS $$
+DECLARE
+  v_thread_id UUID;
+BEGIN
+  processed := 0;
+  last_thread_id := NULL;
+
+  FOR v_thread_id IN
+    SELECT id
+    FROM support_email_threads
+    WHERE inbox_id = p_inbox_id
+      AND deleted_at IS NULL
+      AND (p_after_thread_id IS NULL OR id > p_after_thread_id)
+    ORDER BY id
+    LIMIT p_limit
+  LOOP
+    PERFORM recompute_thread_aggregates(v_thread_id);
+    processed := processed + 1;
+    last_thread_id := v_thread_id;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
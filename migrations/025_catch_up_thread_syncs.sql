@@ -0,0 +1,60 @@
+-- Migration: Catch-up thread syncs tracked apart from backfills
+-- Gap fills, reconciliation and re-authentication catch-ups used to record their threads in
+-- queued_threads under the inbox's backfill configuration. insert_queued_thread_idempotent
+-- resets completed rows to 'queued', so the completion monitor flipped finished backfills back
+-- to thread_sync, the threads counted towards the backfill's stats and a paused backfill held
+-- them. Catch-up threads now have their own table; their thread_sync_jobs messages carry
+-- catch_up_id instead of config_id.
+
+CREATE TABLE IF NOT EXISTS catch_up_thread_syncs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inbox_id UUID NOT NULL REFERENCES support_inboxes(id) ON DELETE CASCADE,
+  thread_id TEXT NOT NULL,                -- Provider thread id
+  grant_id TEXT NOT NULL,
+  reason TEXT NOT NULL,                   -- gap_fill, reconcile or reauthentication
+  status TEXT DEFAULT 'queued' NOT NULL,  -- queued, processing, completed, failed
+  messages_synced INT DEFAULT 0 NOT NULL,
+  sync_checkpoint JSONB,                  -- Same shape as queued_threads.sync_checkpoint
+  queued_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  started_at TIMESTAMP,
+  processed_at TIMESTAMP
+);
+
+-- One open sync per thread: queueing a thread that is still waiting is a no-op
+CREATE UNIQUE INDEX IF NOT EXISTS idx_catch_up_thread_syncs_open
+  ON catch_up_thread_syncs(inbox_id, thread_id)
+  WHERE status IN ('queued', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_catch_up_thread_syncs_inbox
+  ON catch_up_thread_syncs(inbox_id, queued_at DESC);
+
+-- Record a catch-up thread sync and queue it on thread_sync_jobs. Returns false (and queues
+-- nothing) when the thread already has one queued or processing.
+CREATE OR REPLACE FUNCTION queue_catch_up_thread_sync(
+  p_inbox_id UUID,
+  p_thread_id TEXT,
+  p_grant_id TEXT,
+  p_reason TEXT
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO catch_up_thread_syncs (inbox_id, thread_id, grant_id, reason)
+  VALUES (p_inbox_id, p_thread_id, p_grant_id, p_reason)
+  ON CONFLICT (inbox_id, thread_id) WHERE status IN ('queued', 'processing') DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  PERFORM pgmq_public.send('thread_sync_jobs', jsonb_build_object(
+    'thread_id', p_thread_id,
+    'grant_id', p_grant_id,
+    'inbox_id', p_inbox_id,
+    'catch_up_id', v_id
+  ));
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,124 @@
+-- Migration: Incremental contact stats
+-- link_message_participants recomputed every linked contact from all of its messages, so
+-- syncing a busy contact's mail was quadratic and concurrent syncs queued up on the contact
+-- row while the recompute ran. Linking a new message now adds it to the contacts' counts and
+-- first/last seen instead. Its display names are appended when new; recompute_contact_stats
+-- restores the most-used-first order.
+--
+-- The full recompute stays for relinks (the previous links' share of the counts is unknown),
+-- deletes (recompute_thread_contact_stats), merges (merge_contacts) and the
+-- `yarn contacts link` repair path (p_recompute).
+
+-- Add one live message to the stats of the contacts linked to it
+CREATE OR REPLACE FUNCTION add_message_contact_stats(
+  p_message_id UUID
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE support_contacts c
+  SET
+    message_count = c.message_count + 1,
+    sent_count = c.sent_count + CASE WHEN s.sent THEN 1 ELSE 0 END,
+    -- LEAST / GREATEST ignore NULLs, so a contact's first message sets both
+    first_seen_at = LEAST(c.first_seen_at, s.received_date),
+    last_seen_at = GREATEST(c.last_seen_at, s.received_date),
+    display_name = COALESCE(c.display_name, s.name),
+    display_names = CASE
+      WHEN s.name IS NULL OR c.display_names ? s.name THEN c.display_names
+      ELSE c.display_names || jsonb_build_array(s.name)
+    END,
+    updated_at = NOW()
+  FROM (
+    SELECT
+      p.contact_id,
+      BOOL_OR(p.role = 'from') AS sent,
+      -- Names that aren't just the address, as in recompute_contact_stats
+      MIN(p.name) FILTER (
+        WHERE COALESCE(TRIM(p.name), '') <> ''
+          AND LOWER(TRIM(p.name)) <> LOWER(p.email)
+      ) AS name,
+      MIN(m.received_date) AS received_date
+    FROM support_message_participants p
+    JOIN support_email_messages m ON m.id = p.message_id
+    WHERE p.message_id = p_message_id
+      AND m.deleted_at IS NULL
+    GROUP BY p.contact_id
+  ) s
+  WHERE c.id = s.contact_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A new parameter means a new signature; drop the old one so calls aren't ambiguous
+DROP FUNCTION IF EXISTS link_message_participants(UUID, UUID, JSONB);
+
+-- Link the participants of a message to contacts, creating contacts for new addresses.
+-- p_participants: [{ "role", "email" (as written), "normalized", "name" }]. Returns the number linked.
+-- The contacts' stats are updated incrementally for a message linked for the first time and
+-- recomputed for a relink or when p_recompute is set.
+CREATE OR REPLACE FUNCTION link_message_participants(
+  p_message_id UUID,
+  p_tenant_id UUID,
+  p_participants JSONB,
+  p_recompute BOOLEAN DEFAULT FALSE
+) RETURNS INT AS $$
+DECLARE
+  v_participant JSONB;
+  v_normalized TEXT;
+  v_contact_id UUID;
+  v_contact_ids UUID[] := '{}';
+  v_relinked BOOLEAN;
+BEGIN
+  -- Contacts the message was linked to before (a relink may drop some of them)
+  SELECT COALESCE(ARRAY_AGG(DISTINCT contact_id), '{}')
+  INTO v_contact_ids
+  FROM support_message_participants
+  WHERE message_id = p_message_id;
+
+  v_relinked := CARDINALITY(v_contact_ids) > 0;
+
+  DELETE FROM support_message_participants WHERE message_id = p_message_id;
+
+  FOR v_participant IN SELECT * FROM jsonb_array_elements(p_participants) LOOP
+    v_normalized := v_participant->>'normalized';
+
+    SELECT contact_id INTO v_contact_id
+    FROM support_contact_addresses
+    WHERE tenant_id = p_tenant_id AND email = v_normalized;
+
+    IF v_contact_id IS NULL THEN
+      -- Concurrent syncs of the same new address end up on the same contact
+      INSERT INTO support_contacts (tenant_id, primary_email)
+      VALUES (p_tenant_id, v_normalized)
+      ON CONFLICT (tenant_id, primary_email) DO NOTHING;
+
+      SELECT id INTO v_contact_id
+      FROM support_contacts
+      WHERE tenant_id = p_tenant_id AND primary_email = v_normalized;
+
+      INSERT INTO support_contact_addresses (tenant_id, contact_id, email)
+      VALUES (p_tenant_id, v_contact_id, v_normalized)
+      ON CONFLICT (tenant_id, email) DO NOTHING;
+    END IF;
+
+    INSERT INTO support_message_participants (message_id, role, email, name, contact_id, tenant_id)
+    VALUES (
+      p_message_id,
+      v_participant->>'role',
+      v_participant->>'email',
+      NULLIF(TRIM(v_participant->>'name'), ''),
+      v_contact_id,
+      p_tenant_id
+    )
+    ON CONFLICT (message_id, role, email) DO NOTHING;
+
+    v_contact_ids := ARRAY_APPEND(v_contact_ids, v_contact_id);
+  END LOOP;
+
+  IF v_relinked OR p_recompute THEN
+    PERFORM recompute_contact_stats(ARRAY(SELECT DISTINCT UNNEST(v_contact_ids)));
+  ELSE
+    PERFORM add_message_contact_stats(p_message_id);
+  END IF;
+
+  RETURN jsonb_array_length(p_participants);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,140 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import { config } from './config';
+import { EmailProvider, ProviderAttachment, ProviderMessage } from './email-provider';
+import { BlobStore, createBlobStore } from './blob-store';
+import { extractAttachmentText } from './attachment-text';
+
+export class AttachmentIngestor {
+  private store: BlobStore;
+  
+  constructor(private supabase: SupabaseClient, private provider: EmailProvider) {
+    this.store = createBlobStore(supabase);
+  }
+  
+  /**
+   * Download a message's attachments into the blob store and record them in
+   * support_email_attachments. Attachments already recorded for the message are skipped.
+   */
+  async ingestMessage(grantId: string, messageDbId: string, message: ProviderMessage): Promise<void> {
+    const attachments = message.attachments;
+    if (!config.attachments.enabled || attachments.length === 0) {
+      return;
+    }
+    
+    const { data: existing, error } = await this.supabase
+      .from('support_email_attachments')
+      .select('nylas_attachment_id')
+      .eq('message_id', messageDbId)
+      .neq('status', 'error'); // Failed downloads are retried on the next sync
+    
+    if (error) {
+      throw new Error(`Failed to fetch attachments for message ${message.id}: ${error.message}`);
+    }
+    
+    const recorded = new Set((existing || []).map((row) => row.nylas_attachment_id));
+    
+    for (const attachment of attachments) {
+      if (!attachment.id || recorded.has(attachment.id)) {
+        continue;
+      }
+      
+      if (attachment.isInline && !config.attachments.includeInline) {
+        continue;
+      }
+      
+      await this.ingestAttachment(grantId, messageDbId, message.id, attachment);
+    }
+  }
+  
+  private async ingestAttachment(
+    grantId: string,
+    messageDbId: string,
+    nylasMessageId: string,
+    attachment: ProviderAttachment
+  ): Promise<void> {
+    const record = {
+      message_id: messageDbId,
+      nylas_attachment_id: attachment.id,
+      filename: attachment.filename || 'attachment',
+      content_type: attachment.contentType || 'application/octet-stream',
+      size_bytes: attachment.size ?? null,
+      content_id: attachment.contentId || null,
+      is_inline: attachment.isInline ?? false,
+    };
+    
+    if (attachment.size && attachment.size > config.attachments.maxBytes) {
+      console.log(`[Attachments] Skipping ${record.filename} on message ${nylasMessageId} (${attachment.size} bytes exceeds limit)`);
+      await this.insertRecord({ ...record, status: 'skipped', error_message: 'Exceeds ATTACHMENTS_MAX_BYTES' });
+      return;
+    }
+    
+    try {
+      const content = await this.provider.downloadAttachment(grantId, nylasMessageId, attachment.id);
+      
+      const sha256 = createHash('sha256').update(content).digest('hex');
+      const storageKey = `sha256/${sha256.slice(0, 2)}/${sha256}`;
+      
+      // Identical content (e.g. the same invoice forwarded twice) is stored once
+      const { data: duplicate } = await this.supabase
+        .from('support_email_attachments')
+        .select('id, extracted_text')
+        .eq('sha256', sha256)
+        .eq('storage_backend', this.store.backend)
+        .eq('status', 'stored')
+        .limit(1)
+        .maybeSingle();
+      
+      if (duplicate) {
+        console.log(`[Attachments] ${record.filename} already stored (${sha256.slice(0, 12)}), linking to message ${nylasMessageId}`);
+      } else {
+        await this.store.put(storageKey, content, record.content_type);
+        console.log(`[Attachments] Stored ${record.filename} (${content.length} bytes) for message ${nylasMessageId}`);
+      }
+      
+      const extractedText = duplicate
+        ? duplicate.extracted_text
+        : await this.extractText(content, record.content_type, record.filename);
+      
+      await this.insertRecord({
+        ...record,
+        size_bytes: content.length,
+        sha256,
+        storage_backend: this.store.backend,
+        storage_key: storageKey,
+        extracted_text: extractedText,
+        status: 'stored',
+        error_message: null,
+      });
+    } catch (error) {
+      // Don't throw - the message itself is already synced
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Attachments] Error ingesting ${record.filename} on message ${nylasMessageId}:`, error);
+      await this.insertRecord({ ...record, status: 'error', error_message: errorMessage });
+    }
+  }
+  
+  private async extractText(content: Buffer, contentType: string, filename: string): Promise<string | null> {
+    try {
+      const text = await extractAttachmentText(content, contentType, filename, config.attachments.maxTextChars);
+      if (text) {
+        console.log(`[Attachments] Extracted ${text.length} chars of text from ${filename}`);
+      }
+      return text || null;
+    } catch (error) {
+      // Don't throw - the file is still stored, it just won't feed the transcript
+      console.error(`[Attachments] Error extracting text from ${filename}:`, error);
+      return null;
+    }
+  }
+  
+  private async insertRecord(record: Record<string, any>): Promise<void> {
+    const { error } = await this.supabase
+      .from('support_email_attachments')
+      .upsert(record, { onConflict: 'message_id,nylas_attachment_id' });
+    
+    if (error) {
+      console.error(`[Attachments] Error recording attachment ${record.nylas_attachment_id}:`, error);
+    }
+  }
+}
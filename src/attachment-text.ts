@@ -0,0 +1,71 @@
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+
+type TextKind = 'pdf' | 'docx' | 'text';
+
+const CONTENT_TYPES: Record<string, TextKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/plain': 'text',
+  'text/csv': 'text',
+  'application/csv': 'text',
+};
+
+const EXTENSIONS: Record<string, TextKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  txt: 'text',
+  csv: 'text',
+};
+
+/**
+ * Work out how to read an attachment. Mail clients often send application/octet-stream,
+ * so the file extension is used as a fallback.
+ */
+function detectKind(contentType: string, filename: string): TextKind | null {
+  const baseType = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (CONTENT_TYPES[baseType]) {
+    return CONTENT_TYPES[baseType];
+  }
+  
+  const extension = (filename || '').split('.').pop()?.toLowerCase() || '';
+  return EXTENSIONS[extension] || null;
+}
+
+/**
+ * Extract plain text from PDF, DOCX, plain text and CSV attachments.
+ * Returns null for unsupported types; throws if a supported file can't be parsed.
+ */
+export async function extractAttachmentText(
+  content: Buffer,
+  contentType: string,
+  filename: string,
+  maxChars: number
+): Promise<string | null> {
+  const kind = detectKind(contentType, filename);
+  if (!kind) {
+    return null;
+  }
+  
+  let text: string;
+  switch (kind) {
+    case 'pdf':
+      text = (await pdfParse(content)).text;
+      break;
+    case 'docx':
+      text = (await mammoth.extractRawText({ buffer: content })).value;
+      break;
+    case 'text':
+      text = content.toString('utf8');
+      break;
+  }
+  
+  // Collapse the blank-line runs PDF extraction tends to produce
+  const normalized = text
+    .replace(/\r\n/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  
+  return normalized.length > maxChars ? normalized.substring(0, maxChars) : normalized;
+}
@@ -0,0 +1,249 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { UNFINISHED_BACKFILL_STATUSES } from './backfill-scheduler';
+
+const REQUEUE_BATCH_SIZE = 500;
+
+export interface BackfillControlState {
+  config_id: string;
+  inbox_id: string;
+  backfill_status: string | null;
+  backfill_paused_at: string | null;
+  backfill_resume_status: string | null;  // Phase a paused backfill returns to
+  backfill_cancelled_at: string | null;
+  backfill_control_reason: string | null;
+  parked_job: boolean;                    // Orchestration job waiting in backfill_progress.paused_job
+  parked_threads: number;                 // Thread jobs handed back to queued_threads
+}
+
+export interface ResumeResult {
+  status: string;
+  job_requeued: boolean;
+  threads_requeued: number;
+}
+
+/**
+ * Pause, resume and cancel the backfill of an inbox configuration.
+ *
+ * Status changes happen in SQL (migration 022). While a backfill is paused the backfill
+ * processor parks its job in backfill_progress.paused_job at the next page and thread
+ * processors hand their jobs back to queued_threads (pgmq_queued_at = NULL); resume() puts
+ * both back on their queues. cancel() also cancels the threads still queued, which thread
+ * processors then drop.
+ */
+export class BackfillControl {
+  constructor(private supabase: SupabaseClient) {}
+  
+  /**
+   * Pause a running backfill. Returns the phase it was paused in.
+   */
+  async pause(configId: string, reason?: string): Promise<string> {
+    const { data, error } = await this.supabase.rpc('pause_backfill', {
+      p_config_id: configId,
+      p_reason: reason ?? null,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to pause backfill ${configId}: ${error.message}`);
+    }
+    
+    console.log(`[BackfillControl] Paused backfill ${configId} in ${data}${reason ? ` (${reason})` : ''}`);
+    return data as string;
+  }
+  
+  /**
+   * Resume a paused backfill and queue its parked jobs again
+   */
+  async resume(configId: string): Promise<ResumeResult> {
+    const { data: status, error } = await this.supabase.rpc('resume_backfill', {
+      p_config_id: configId,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to resume backfill ${configId}: ${error.message}`);
+    }
+    
+    const result: ResumeResult = {
+      status: status as string,
+      job_requeued: await this.requeueParkedJob(configId),
+      threads_requeued: await this.requeueParkedThreads(configId),
+    };
+    
+    console.log(`[BackfillControl] Resumed backfill ${configId} in ${result.status}: ${result.job_requeued ? 'backfill job and ' : ''}${result.threads_requeued} thread(s) queued again`);
+    return result;
+  }
+  
+  /**
+   * Cancel a running or paused backfill. Returns the number of queued threads cancelled.
+   */
+  async cancel(configId: string, reason?: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('cancel_backfill', {
+      p_config_id: configId,
+      p_reason: reason ?? null,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to cancel backfill ${configId}: ${error.message}`);
+    }
+    
+    const threads = (data as number) ?? 0;
+    console.log(`[BackfillControl] Cancelled backfill ${configId}${reason ? ` (${reason})` : ''}, ${threads} queued thread(s) cancelled`);
+    return threads;
+  }
+  
+  /**
+   * Cancel every unfinished backfill of an inbox (e.g. its grant was deleted). Returns the
+   * number of backfills cancelled.
+   */
+  async cancelInbox(inboxId: string, reason: string): Promise<number> {
+    const { data: configs, error } = await this.supabase
+      .from('support_inbox_configurations')
+      .select('id')
+      .eq('inbox_id', inboxId)
+      .in('backfill_status', UNFINISHED_BACKFILL_STATUSES);
+    
+    if (error) {
+      throw new Error(`Failed to fetch backfills for inbox ${inboxId}: ${error.message}`);
+    }
+    
+    for (const inboxConfig of configs || []) {
+      await this.cancel(inboxConfig.id, reason);
+    }
+    
+    console.log(`[BackfillControl] Cancelled ${configs?.length || 0} unfinished backfill(s) for inbox ${inboxId} (${reason})`);
+    return configs?.length || 0;
+  }
+  
+  async getState(configId: string): Promise<BackfillControlState> {
+    const { data, error } = await this.supabase
+      .from('support_inbox_configurations')
+      .select(
+        'id, inbox_id, backfill_status, backfill_paused_at, backfill_resume_status, ' +
+        'backfill_cancelled_at, backfill_control_reason, backfill_progress'
+      )
+      .eq('id', configId)
+      .single<any>();
+    
+    if (error || !data) {
+      throw new Error(`Failed to fetch backfill ${configId}: ${error?.message || 'not found'}`);
+    }
+    
+    const { count, error: countError } = await this.supabase
+      .from('queued_threads')
+      .select('thread_id', { count: 'exact', head: true })
+      .eq('config_id', configId)
+      .eq('status', 'queued')
+      .is('pgmq_queued_at', null);
+    
+    if (countError) {
+      throw new Error(`Failed to count parked threads of backfill ${configId}: ${countError.message}`);
+    }
+    
+    return {
+      config_id: data.id,
+      inbox_id: data.inbox_id,
+      backfill_status: data.backfill_status,
+      backfill_paused_at: data.backfill_paused_at,
+      backfill_resume_status: data.backfill_resume_status,
+      backfill_cancelled_at: data.backfill_cancelled_at,
+      backfill_control_reason: data.backfill_control_reason,
+      parked_job: !!data.backfill_progress?.paused_job,
+      parked_threads: count || 0,
+    };
+  }
+  
+  /**
+   * Send the orchestration job the backfill processor parked back to inbox_backfill_jobs.
+   * It resumes from the window checkpoint.
+   */
+  private async requeueParkedJob(configId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('support_inbox_configurations')
+      .select('backfill_progress')
+      .eq('id', configId)
+      .single();
+    
+    if (error) {
+      throw new Error(`Failed to fetch progress of backfill ${configId}: ${error.message}`);
+    }
+    
+    const { paused_job: job, ...progress } = data?.backfill_progress || {};
+    if (!job) {
+      return false;
+    }
+    
+    const { error: sendError } = await this.supabase
+      .schema('pgmq_public')
+      .rpc('send', {
+        queue_name: 'inbox_backfill_jobs',
+        message: job,
+      });
+    
+    if (sendError) {
+      throw new Error(`Failed to queue backfill job of ${configId}: ${sendError.message}`);
+    }
+    
+    const { error: updateError } = await this.supabase
+      .from('support_inbox_configurations')
+      .update({ backfill_progress: progress })
+      .eq('id', configId);
+    
+    if (updateError) {
+      // Don't throw - the job is queued; the processor overwrites the progress when it runs
+      console.error(`[BackfillControl] Error clearing parked job of ${configId}:`, updateError);
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Queue the threads thread processors handed back while the backfill was paused
+   */
+  private async requeueParkedThreads(configId: string): Promise<number> {
+    let requeued = 0;
+    
+    while (true) {
+      const { data: threads, error } = await this.supabase
+        .from('queued_threads')
+        .select('thread_id, grant_id, inbox_id')
+        .eq('config_id', configId)
+        .eq('status', 'queued')
+        .is('pgmq_queued_at', null)
+        .limit(REQUEUE_BATCH_SIZE);
+      
+      if (error) {
+        throw new Error(`Failed to fetch parked threads of backfill ${configId}: ${error.message}`);
+      }
+      
+      for (const thread of threads || []) {
+        const { error: queueError } = await this.supabase.rpc('queue_thread_sync', {
+          p_thread_id: thread.thread_id,
+          p_grant_id: thread.grant_id,
+          p_inbox_id: thread.inbox_id,
+          p_config_id: configId,
+        });
+        
+        if (queueError) {
+          throw new Error(`Failed to queue thread ${thread.thread_id}: ${queueError.message}`);
+        }
+        
+        const { error: updateError } = await this.supabase
+          .from('queued_threads')
+          .update({ pgmq_queued_at: new Date().toISOString() })
+          .eq('config_id', configId)
+          .eq('thread_id', thread.thread_id);
+        
+        if (updateError) {
+          throw new Error(`Failed to mark thread ${thread.thread_id} as queued: ${updateError.message}`);
+        }
+        
+        requeued++;
+      }
+      
+      if (!threads || threads.length < REQUEUE_BATCH_SIZE) {
+        break;
+      }
+    }
+    
+    return requeued;
+  }
+}
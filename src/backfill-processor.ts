@@ -1,7 +1,9 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import Nylas from 'nylas';
+import { EmailProvider, createEmailProvider } from './email-provider';
 import { config } from './config';
 import { NylasSync } from './nylas-sync';
+import { BackfillWindow, DAY_MS, splitIntoWindows } from './backfill-windows';
+import { FolderPolicies, FolderPolicy, allowsFolders, describePolicy, overridePolicy } from './folder-policy';
 
 interface BackfillJob {
   msg_id: number;
@@ -14,13 +16,35 @@ interface BackfillJob {
     grant_id: string;
     start_date: string;
     end_date: string;
+    // Folder/label lists that replace the inbox configuration's for this job
+    include_folders?: string[];
+    exclude_folders?: string[];
   };
 }
 
+// support_inbox_configurations.backfill_progress while a backfill is orchestrated
+interface BackfillCheckpoint {
+  range_start?: string;          // Range being processed (after the tenant limit)
+  range_end?: string;
+  requested_start_date?: string; // start_date the job asked for
+  max_days?: number;
+  folder_policy?: FolderPolicy;
+  windows: BackfillWindow[];
+  threads_queued: number;        // Totals across windows
+  current_page: number;
+}
+
+// Pause/cancel state set by BackfillControl
+interface BackfillControlStatus {
+  backfill_status: string | null;
+  backfill_cancelled_at: string | null;
+}
+
 export class BackfillProcessor {
   private supabase: SupabaseClient;
-  private nylas: Nylas;
+  private provider: EmailProvider;
   private nylasSync: NylasSync;
+  private folderPolicies: FolderPolicies;
   private isRunning = false;
   private readonly BATCH_SIZE = 20;
   private readonly MAX_RETRIES = 3;
@@ -38,12 +62,10 @@ export class BackfillProcessor {
       }
     );
     
-    this.nylas = new Nylas({
-      apiKey: config.nylas.apiKey,
-      apiUri: config.nylas.apiUri,
-    });
+    this.provider = createEmailProvider();
     
-    this.nylasSync = new NylasSync(this.supabase);
+    this.nylasSync = new NylasSync(this.supabase, this.provider);
+    this.folderPolicies = new FolderPolicies(this.supabase);
   }
   
   async start(): Promise<void> {
@@ -69,6 +91,7 @@ export class BackfillProcessor {
     
     console.log('[Backfill] Stopping backfill processor');
     this.isRunning = false;
+    console.log(`[Backfill] ${this.provider.name} API usage:`, this.provider.getStats());
     console.log('[Backfill] Stopped');
   }
   
@@ -115,25 +138,22 @@ export class BackfillProcessor {
   private async processBackfillJob(job: BackfillJob): Promise<void> {
     const startTime = Date.now();
     const { msg_id, read_ct, message: jobData } = job;
-    let { inbox_id, config_id, grant_id, start_date, end_date } = jobData;
+    const { inbox_id, config_id, grant_id, end_date } = jobData;
+    let { start_date } = jobData;
     
-    // Enforce max 1 year date range
-    const startDate = new Date(start_date);
-    const endDate = new Date(end_date);
-    const daysDifference = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+    // Ranges longer than the tenant's maximum lose their oldest part
+    const maxDays = await this.getMaxBackfillDays(inbox_id);
+    const earliestStart = new Date(new Date(end_date).getTime() - maxDays * DAY_MS);
+    const daysDifference = Math.ceil((new Date(end_date).getTime() - new Date(start_date).getTime()) / DAY_MS);
     
-    if (daysDifference > 365) {
-      const adjustedStartDate = new Date(endDate);
-      adjustedStartDate.setDate(adjustedStartDate.getDate() - 365);
-      
-      console.log(`[Backfill] ⚠️  Date range exceeds 1 year (${daysDifference} days)`);
+    if (new Date(start_date) < earliestStart) {
+      console.log(`[Backfill] ⚠️  Date range exceeds the ${maxDays}-day maximum (${daysDifference} days)`);
       console.log(`[Backfill] Original range: ${start_date} to ${end_date}`);
-      console.log(`[Backfill] Adjusted to 1 year: ${adjustedStartDate.toISOString()} to ${end_date}`);
+      console.log(`[Backfill] Adjusted to ${maxDays} days: ${earliestStart.toISOString()} to ${end_date}`);
       
-      // Update the start_date used for processing
-      start_date = adjustedStartDate.toISOString();
+      start_date = earliestStart.toISOString();
     } else {
-      console.log(`[Backfill] Date range: ${daysDifference} days (within 1 year limit)`);
+      console.log(`[Backfill] Date range: ${daysDifference} days (within ${maxDays}-day limit)`);
     }
     
     // Check if job has been retried too many times
@@ -144,7 +164,8 @@ export class BackfillProcessor {
       const checkpoint = await this.getBackfillCheckpoint(config_id);
       
       if (checkpoint) {
-        console.log(`[Backfill] Preserving checkpoint for retry: page ${checkpoint.current_page}, ${checkpoint.threads_queued} threads queued`);
+        const completed = checkpoint.windows.filter((window) => window.status === 'completed').length;
+        console.log(`[Backfill] Preserving checkpoint for retry: ${completed}/${checkpoint.windows.length} windows completed, ${checkpoint.threads_queued} threads queued`);
       }
       
       // Mark as failed in database (checkpoint will be preserved by updateBackfillStatus)
@@ -160,6 +181,23 @@ export class BackfillProcessor {
       return;
     }
     
+    const control = await this.getBackfillControl(config_id);
+    
+    if (control?.backfill_status === 'paused') {
+      console.log(`[Backfill] Backfill for config ${config_id} is paused, parking job ${msg_id}`);
+      await this.parkJob(job);
+      return;
+    }
+    
+    // A cancellation drops the jobs queued before it, not backfills queued afterwards
+    if (control?.backfill_status === 'cancelled'
+      && control.backfill_cancelled_at
+      && new Date(job.enqueued_at) <= new Date(control.backfill_cancelled_at)) {
+      console.log(`[Backfill] Backfill for config ${config_id} was cancelled, dropping job ${msg_id}`);
+      await this.deleteJob(msg_id);
+      return;
+    }
+    
     try {
       console.log(`[Backfill] Starting thread-based backfill for inbox ${inbox_id}, config ${config_id}`);
       console.log(`[Backfill] Date range: ${start_date} to ${end_date}`);
@@ -175,98 +213,84 @@ export class BackfillProcessor {
         started_at: new Date().toISOString()
       });
       
-      // Convert dates to Unix timestamps
-      const startTimestamp = Math.floor(new Date(start_date).getTime() / 1000);
-      const endTimestamp = Math.floor(new Date(end_date).getTime() / 1000);
-      
       // Initialize sync stats entry (thread counts will be maintained by triggers)
       await this.initializeSyncStats(config_id, 0);
       
-      // Check for existing checkpoint to resume from
+      const folderPolicy = overridePolicy(
+        await this.folderPolicies.forInbox(inbox_id),
+        jobData.include_folders,
+        jobData.exclude_folders
+      );
+      console.log(`[Backfill] Folder policy: ${describePolicy(folderPolicy)}`);
+      
+      // Resume the windows of an interrupted run of this range, or split it afresh
       const checkpoint = await this.getBackfillCheckpoint(config_id);
+      const resuming = !!checkpoint
+        && checkpoint.range_start === start_date
+        && checkpoint.range_end === end_date
+        && checkpoint.windows.length > 0;
       
-      // Step 1: Fetch threads and queue each one
-      let threadsQueued = checkpoint?.threads_queued || 0;
-      let threadsSkipped = 0;
-      let currentPage = checkpoint?.current_page || 0;
-      let pageToken: string | undefined = checkpoint?.last_page_token;
+      const progress: BackfillCheckpoint = resuming ? checkpoint! : {
+        range_start: start_date,
+        range_end: end_date,
+        requested_start_date: jobData.start_date,
+        max_days: maxDays,
+        folder_policy: folderPolicy,
+        windows: splitIntoWindows(new Date(start_date), new Date(end_date), config.backfill.windowDays),
+        threads_queued: 0,
+        current_page: 0,
+      };
       
-      if (checkpoint && checkpoint.last_page_token) {
-        console.log(`[Backfill] Resuming from checkpoint: page ${currentPage}, ${threadsQueued} threads already queued`);
+      if (resuming) {
+        const completed = progress.windows.filter((window) => window.status === 'completed').length;
+        console.log(`[Backfill] Resuming from checkpoint: ${completed}/${progress.windows.length} windows completed, ${progress.threads_queued} threads already queued`);
       } else {
-        console.log('[Backfill] Starting fresh backfill (no checkpoint found)');
+        console.log(`[Backfill] Starting fresh backfill: ${progress.windows.length} window(s) of up to ${config.backfill.windowDays} days, newest first`);
+        await this.saveBackfillCheckpoint(config_id, progress);
       }
       
-      console.log('[Backfill] Starting to fetch and queue threads...');
-      
-      do {
-        console.log(`[Backfill] Fetching threads page ${currentPage + 1}`);
-        
-        // Fetch batch of threads
-        const threadsResponse = await this.nylas.threads.list({
-          identifier: grant_id,
-          queryParams: {
-            limit: 100,
-            latestMessageAfter: startTimestamp,
-            latestMessageBefore: endTimestamp,
-            ...(pageToken && { page_token: pageToken }),
-          },
-        });
-        
-        if (!threadsResponse.data || threadsResponse.data.length === 0) {
-          console.log('[Backfill] No more threads to process');
-          break;
+      // Step 1: Fetch each window's threads and queue each one
+      for (const window of progress.windows) {
+        if (window.status === 'completed') {
+          continue;
         }
         
-        const threads = threadsResponse.data;
-        console.log(`[Backfill] Fetched ${threads.length} threads`);
+        const outcome = await this.processWindow(job, progress, window, folderPolicy);
         
-        // Queue each thread for processing (with deduplication)
-        for (const thread of threads) {
-          try {
-            const wasQueued = await this.queueThreadWithDeduplication(
-              thread.id, 
-              grant_id, 
-              inbox_id, 
-              config_id
-            );
-            if (wasQueued) {
-              console.log(`[Backfill] Queued thread ${thread.id} for processing`);
-              threadsQueued++;
-            } else {
-              console.log(`[Backfill] Skipped thread ${thread.id} (already synced)`);
-              threadsSkipped++;
-            }
-          } catch (error) {
-            console.error(`[Backfill] Error queuing thread ${thread.id}:`, error);
-            // Continue with other threads even if one fails
-          }
+        if (outcome === 'cancelled') {
+          console.log(`[Backfill] Backfill for config ${config_id} was cancelled, stopping in window ${window.index + 1}/${progress.windows.length}`);
+          await this.deleteJob(msg_id);
+          return;
         }
         
-        // Update progress
-        currentPage++;
-        await this.updateOrchestrationProgress(config_id, threadsQueued, currentPage);
-        console.log(`[Backfill] Queued ${threadsQueued} threads so far (page ${currentPage})`);
-        
-        // Get next page token
-        pageToken = threadsResponse.nextCursor;
-        console.log(`[Backfill] Next page token: ${pageToken ? pageToken : 'none (last page)'}`);
-        
-        // Save checkpoint after each successful page
-        await this.saveBackfillCheckpoint(config_id, pageToken, threadsQueued, currentPage);
-        
-        // Small delay between batches to avoid rate limits
-        await this.delay(100);
+        if (outcome === 'paused') {
+          console.log(`[Backfill] Backfill for config ${config_id} was paused in window ${window.index + 1}/${progress.windows.length}, parking job`);
+          await this.parkJob(job);
+          return;
+        }
         
-      } while (pageToken && this.isRunning);
+        if (outcome === 'stopped') {
+          // Job stays in the queue and resumes from the checkpoint when it becomes visible again
+          console.log(`[Backfill] Processor stopping, window ${window.index + 1}/${progress.windows.length} checkpointed`);
+          return;
+        }
+      }
+      
+      const threadsQueued = progress.threads_queued;
+      const threadsSkipped = progress.windows.reduce((sum, window) => sum + window.threads_skipped, 0);
+      const threadsFiltered = progress.windows.reduce((sum, window) => sum + (window.threads_filtered || 0), 0);
       
       // Mark orchestration complete
       const duration = Date.now() - startTime;
       console.log(`[Backfill] Thread orchestration completed in ${Math.round(duration / 1000)}s`);
       console.log(`[Backfill] Total threads queued: ${threadsQueued}`);
       console.log(`[Backfill] Threads skipped (already synced): ${threadsSkipped}`);
+      console.log(`[Backfill] Threads filtered (folder policy): ${threadsFiltered}`);
       console.log(`[Backfill] Total threads processed: ${threadsQueued + threadsSkipped}`);
       
+      // Keep the per-window summary for reporting; the range no longer resumes
+      await this.clearBackfillCheckpoint(config_id, progress);
+      
       if (threadsQueued === 0) {
         console.log('[Backfill] No threads found to backfill');
         await this.completeBackfill(config_id, msg_id);
@@ -282,9 +306,6 @@ export class BackfillProcessor {
       console.log(`[Backfill] Transitioned to thread_sync phase with ${threadsQueued} threads already in PGMQ`);
       console.log(`[Backfill] Thread-sync-processor can now process threads for config ${config_id}`);
       
-      // Clear the checkpoint now that backfill is complete
-      await this.clearBackfillCheckpoint(config_id);
-      
       // Delete this orchestration job from the queue
       await this.deleteJob(msg_id);
       console.log('[Backfill] Orchestration job acknowledged. Thread processors will now sync messages.');
@@ -305,6 +326,147 @@ export class BackfillProcessor {
     }
   }
   
+  /**
+   * Page through one window's threads, queueing new ones and checkpointing after each page
+   */
+  private async processWindow(
+    job: BackfillJob,
+    progress: BackfillCheckpoint,
+    window: BackfillWindow,
+    folderPolicy: FolderPolicy
+  ): Promise<'completed' | 'cancelled' | 'paused' | 'stopped'> {
+    const { inbox_id, config_id, grant_id } = job.message;
+    const label = `Window ${window.index + 1}/${progress.windows.length}`;
+    let pageToken = window.last_page_token;
+    
+    window.status = 'in_progress';
+    window.started_at = window.started_at || new Date().toISOString();
+    
+    if (pageToken) {
+      console.log(`[Backfill] ${label}: resuming ${window.start_date} to ${window.end_date} after page ${window.pages}`);
+    } else {
+      console.log(`[Backfill] ${label}: ${window.start_date} to ${window.end_date}`);
+    }
+    
+    do {
+      // Stop orchestrating if the backfill was cancelled (e.g. grant deleted) or paused
+      const control = await this.getBackfillControl(config_id);
+      if (control?.backfill_status === 'cancelled') {
+        return 'cancelled';
+      }
+      if (control?.backfill_status === 'paused') {
+        return 'paused';
+      }
+      
+      if (!this.isRunning) {
+        return 'stopped';
+      }
+      
+      console.log(`[Backfill] ${label}: fetching threads page ${window.pages + 1}`);
+      
+      // Fetch batch of threads
+      const threadsResponse = await this.provider.listThreads(grant_id, {
+        limit: 100,
+        latestMessageAfter: new Date(window.start_date),
+        latestMessageBefore: new Date(window.end_date),
+        pageToken,
+      });
+      
+      if (threadsResponse.data.length === 0) {
+        console.log(`[Backfill] ${label}: no more threads to process`);
+        break;
+      }
+      
+      const threads = threadsResponse.data;
+      console.log(`[Backfill] Fetched ${threads.length} threads`);
+      
+      // Queue each thread for processing (with deduplication)
+      for (const thread of threads) {
+        if (!allowsFolders(folderPolicy, thread.folders)) {
+          console.log(`[Backfill] Skipped thread ${thread.id} (folders ${thread.folders.join(', ') || 'none'} excluded)`);
+          window.threads_filtered = (window.threads_filtered || 0) + 1;
+          continue;
+        }
+        
+        try {
+          const wasQueued = await this.queueThreadWithDeduplication(
+            thread.id, 
+            grant_id, 
+            inbox_id, 
+            config_id
+          );
+          if (wasQueued) {
+            console.log(`[Backfill] Queued thread ${thread.id} for processing`);
+            window.threads_queued++;
+            progress.threads_queued++;
+          } else {
+            console.log(`[Backfill] Skipped thread ${thread.id} (already synced)`);
+            window.threads_skipped++;
+          }
+        } catch (error) {
+          console.error(`[Backfill] Error queuing thread ${thread.id}:`, error);
+          // Continue with other threads even if one fails
+        }
+      }
+      
+      // Update progress
+      window.pages++;
+      progress.current_page++;
+      await this.updateOrchestrationProgress(config_id, progress.threads_queued, progress.current_page);
+      console.log(`[Backfill] Queued ${progress.threads_queued} threads so far (${label}, page ${window.pages})`);
+      
+      // Get next page token
+      pageToken = threadsResponse.nextCursor;
+      window.last_page_token = pageToken;
+      console.log(`[Backfill] Next page token: ${pageToken ? pageToken : 'none (last page)'}`);
+      
+      // Save checkpoint after each successful page
+      await this.saveBackfillCheckpoint(config_id, progress);
+    
+    } while (pageToken);
+    
+    window.status = 'completed';
+    window.completed_at = new Date().toISOString();
+    delete window.last_page_token;
+    await this.saveBackfillCheckpoint(config_id, progress);
+    
+    console.log(`[Backfill] ${label} completed: ${window.threads_queued} queued, ${window.threads_skipped} skipped, ${window.threads_filtered || 0} filtered`);
+    return 'completed';
+  }
+  
+  /**
+   * The tenant's backfill_max_days, or BACKFILL_MAX_DAYS when the tenant has none
+   */
+  private async getMaxBackfillDays(inboxId: string): Promise<number> {
+    try {
+      const { data: inbox, error: inboxError } = await this.supabase
+        .from('support_inboxes')
+        .select('tenant_id')
+        .eq('id', inboxId)
+        .single();
+      
+      if (inboxError || !inbox?.tenant_id) {
+        return config.backfill.maxDays;
+      }
+      
+      const { data: settings, error } = await this.supabase
+        .from('support_tenant_settings')
+        .select('backfill_max_days')
+        .eq('tenant_id', inbox.tenant_id)
+        .maybeSingle();
+      
+      if (error) {
+        console.error('[Backfill] Error fetching tenant backfill limit:', error);
+      }
+      
+      return settings?.backfill_max_days || config.backfill.maxDays;
+    } catch (error) {
+      console.error('[Backfill] Error fetching tenant backfill limit:', error);
+      // Don't throw - fall back to the default limit
+      return config.backfill.maxDays;
+    }
+  }
+  
   private async queueThreadWithDeduplication(
     threadId: string,
     grantId: string,
@@ -396,16 +558,6 @@ export class BackfillProcessor {
   
   private async getMessageCount(grantId: string, startDate: string, endDate: string): Promise<number> {
     try {
-      // Fetch first page to get total count
-      const response = await this.nylas.messages.list({
-        identifier: grantId,
-        queryParams: {
-          limit: 1,
-          receivedAfter: Math.floor(new Date(startDate).getTime() / 1000),
-          receivedBefore: Math.floor(new Date(endDate).getTime() / 1000),
-        },
-      });
-      
       // Nylas doesn't return total count directly, so we need to estimate
       // by fetching all pages or using a reasonable estimate
       // For now, we'll make multiple requests to count
@@ -413,17 +565,14 @@ export class BackfillProcessor {
       let pageToken: string | undefined;
       
       // Fetch first batch to start counting
-      let countResponse = await this.nylas.messages.list({
-        identifier: grantId,
-        queryParams: {
-          limit: 50,
-          receivedAfter: Math.floor(new Date(startDate).getTime() / 1000),
-          receivedBefore: Math.floor(new Date(endDate).getTime() / 1000),
-        },
+      let countResponse = await this.provider.listMessages(grantId, {
+        limit: 50,
+        receivedAfter: new Date(startDate),
+        receivedBefore: new Date(endDate),
       });
       
       // Count initial batch
-      totalCount += countResponse.data?.length || 0;
+      totalCount += countResponse.data.length;
       pageToken = countResponse.nextCursor;
       
       // Count remaining pages (limit to prevent excessive API calls)
@@ -431,22 +580,16 @@ export class BackfillProcessor {
       const maxCountPages = 20; // Only count first ~1000 messages for estimate
       
       while (pageToken && pageCount < maxCountPages) {
-        countResponse = await this.nylas.messages.list({
-          identifier: grantId,
-          queryParams: {
-            limit: 50,
-            receivedAfter: Math.floor(new Date(startDate).getTime() / 1000),
-            receivedBefore: Math.floor(new Date(endDate).getTime() / 1000),
-            pageToken: pageToken,
-          },
+        countResponse = await this.provider.listMessages(grantId, {
+          limit: 50,
+          receivedAfter: new Date(startDate),
+          receivedBefore: new Date(endDate),
+          pageToken,
         });
         
-        totalCount += countResponse.data?.length || 0;
+        totalCount += countResponse.data.length;
         pageToken = countResponse.nextCursor;
         pageCount++;
-        
-        // Small delay to avoid rate limits
-        await this.delay(500);
       }
       
       // If there are more pages, estimate total
@@ -514,6 +657,81 @@ export class BackfillProcessor {
     }
   }
   
+  private async getBackfillControl(configId: string): Promise<BackfillControlStatus | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('support_inbox_configurations')
+        .select('backfill_status, backfill_cancelled_at')
+        .eq('id', configId)
+        .single();
+      
+      if (error) {
+        console.error('[Backfill] Error checking backfill status:', error);
+        return null;
+      }
+      
+      return data as BackfillControlStatus;
+    } catch (error) {
+      console.error('[Backfill] Error checking backfill status:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Keep the job of a paused backfill in backfill_progress.paused_job and take it off the
+   * queue, so it doesn't use up retries while paused. BackfillControl.resume queues it again
+   * and it resumes from the window checkpoint.
+   */
+  private async parkJob(job: BackfillJob): Promise<void> {
+    const { msg_id, message: jobData } = job;
+    
+    try {
+      const { data, error } = await this.supabase
+        .from('support_inbox_configurations')
+        .select('backfill_progress')
+        .eq('id', jobData.config_id)
+        .single();
+      
+      if (error) {
+        console.error('[Backfill] Error fetching progress to park job:', error);
+        return;
+      }
+      
+      if (data?.backfill_progress?.paused_job) {
+        console.log(`[Backfill] Config ${jobData.config_id} already has a parked job, dropping job ${msg_id}`);
+        await this.deleteJob(msg_id);
+        return;
+      }
+      
+      // Only while still paused - after a resume the job has to stay in the queue
+      const { data: parked, error: updateError } = await this.supabase
+        .from('support_inbox_configurations')
+        .update({
+          backfill_progress: {
+            ...(data?.backfill_progress || {}),
+            paused_job: jobData,
+          },
+        })
+        .eq('id', jobData.config_id)
+        .eq('backfill_status', 'paused')
+        .select('id');
+      
+      if (updateError || !parked || parked.length === 0) {
+        if (updateError) {
+          console.error('[Backfill] Error parking job:', updateError);
+        }
+        console.log(`[Backfill] Job ${msg_id} not parked, it stays in the queue`);
+        return;
+      }
+      
+      await this.deleteJob(msg_id);
+      console.log(`[Backfill] Parked job ${msg_id} until the backfill is resumed`);
+    } catch (error) {
+      console.error('[Backfill] Error parking job:', error);
+      // Don't throw - the job stays in the queue and is checked again
+    }
+  }
+  
   private async completeBackfill(configId: string, msgId: number): Promise<void> {
     try {
       // Update status to completed
@@ -569,11 +787,7 @@ export class BackfillProcessor {
     }
   }
   
-  private async getBackfillCheckpoint(configId: string): Promise<{
-    last_page_token?: string;
-    threads_queued?: number;
-    current_page?: number;
-  } | null> {
+  private async getBackfillCheckpoint(configId: string): Promise<BackfillCheckpoint | null> {
     try {
       const { data, error } = await this.supabase
         .from('support_inbox_configurations')
@@ -587,7 +801,12 @@ export class BackfillProcessor {
       
       const progress = data.backfill_progress as any;
       return {
-        last_page_token: progress.last_page_token,
+        range_start: progress.range_start,
+        range_end: progress.range_end,
+        requested_start_date: progress.requested_start_date,
+        max_days: progress.max_days,
+        folder_policy: progress.folder_policy,
+        windows: Array.isArray(progress.windows) ? progress.windows : [],
         threads_queued: progress.threads_queued || 0,
         current_page: progress.current_page || 0,
       };
@@ -597,20 +816,13 @@ export class BackfillProcessor {
     }
   }
   
-  private async saveBackfillCheckpoint(
-    configId: string,
-    pageToken: string | undefined,
-    threadsQueued: number,
-    currentPage: number
-  ): Promise<void> {
+  private async saveBackfillCheckpoint(configId: string, progress: BackfillCheckpoint): Promise<void> {
     try {
       const { error } = await this.supabase
         .from('support_inbox_configurations')
         .update({
           backfill_progress: {
-            last_page_token: pageToken,
-            threads_queued: threadsQueued,
-            current_page: currentPage,
+            ...progress,
             last_checkpoint_at: new Date().toISOString(),
           },
         })
@@ -624,7 +836,7 @@ export class BackfillProcessor {
     }
   }
   
-  private async clearBackfillCheckpoint(configId: string): Promise<void> {
+  private async clearBackfillCheckpoint(configId: string, progress: BackfillCheckpoint): Promise<void> {
     try {
       const { error } = await this.supabase
         .from('support_inbox_configurations')
@@ -632,7 +844,11 @@ export class BackfillProcessor {
           backfill_progress: {
             threads_queued: 0,
             current_page: 0,
-            // Keep other progress info, just clear checkpoint fields
+            // Per-window stats stay for reporting; without range_start/range_end nothing resumes
+            requested_start_date: progress.requested_start_date,
+            max_days: progress.max_days,
+            folder_policy: progress.folder_policy,
+            windows: progress.windows,
           },
         })
         .eq('id', configId);
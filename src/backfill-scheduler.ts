@@ -0,0 +1,153 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { config } from './config';
+import { EmailProvider, createEmailProvider } from './email-provider';
+import { FolderPolicies, allowsFolders } from './folder-policy';
+
+// Backfill statuses that mean a job is currently being orchestrated or synced
+export const ACTIVE_BACKFILL_STATUSES = ['backfill', 'thread_sync', 'in_progress'];
+
+// Backfill statuses of a backfill that hasn't finished - running or paused (see BackfillControl)
+export const UNFINISHED_BACKFILL_STATUSES = [...ACTIVE_BACKFILL_STATUSES, 'paused'];
+
+export interface MissingMessage {
+  id: string;
+  threadId: string;
+}
+
+export class BackfillScheduler {
+  private provider: EmailProvider;
+  private folderPolicies: FolderPolicies;
+  
+  constructor(private supabase: SupabaseClient) {
+    this.provider = createEmailProvider();
+    this.folderPolicies = new FolderPolicies(supabase);
+  }
+  
+  /**
+   * Sync the messages an inbox received in [startDate, endDate] that we don't have (e.g. while
+   * its grant was expired) by queueing their threads on thread_sync_jobs. A backfill would skip
+   * threads we already store, and replies to those are most of what an outage misses.
+   * The threads are tracked in catch_up_thread_syncs, not in the backfill's queued_threads, so
+   * the inbox's backfill status, stats and pause state are left alone. Returns the number of
+   * threads queued.
+   */
+  async scheduleCatchUp(
+    inboxId: string,
+    grantId: string,
+    startDate: Date,
+    endDate: Date,
+    reason: string
+  ): Promise<number> {
+    // Bound the window so a long outage doesn't turn into an unbounded catch-up
+    const maxWindowMs = config.catchUp.maxWindowDays * 24 * 60 * 60 * 1000;
+    let windowStart = startDate;
+    if (endDate.getTime() - windowStart.getTime() > maxWindowMs) {
+      windowStart = new Date(endDate.getTime() - maxWindowMs);
+      console.log(`[Scheduler] Catch-up window capped to ${config.catchUp.maxWindowDays} days`);
+    }
+    
+    const missing = await this.findMissingMessages(inboxId, grantId, windowStart, endDate);
+    const threadIds = [...new Set(missing.map((message) => message.threadId).filter(Boolean))];
+    const threadsQueued = await this.queueThreadSyncs(inboxId, grantId, threadIds, reason);
+    
+    console.log(`[Scheduler] ${reason} catch-up for inbox ${inboxId} (${windowStart.toISOString()} to ${endDate.toISOString()}): ${missing.length} missing message(s), ${threadsQueued} thread(s) queued`);
+    return threadsQueued;
+  }
+  
+  /**
+   * Messages received in the window that we don't have, paging through the whole window.
+   * Messages in folders the inbox's folder policy excludes are never synced, so they don't count.
+   */
+  async findMissingMessages(
+    inboxId: string,
+    grantId: string,
+    windowStart: Date,
+    windowEnd: Date
+  ): Promise<MissingMessage[]> {
+    const folderPolicy = await this.folderPolicies.forInbox(inboxId);
+    const missing: MissingMessage[] = [];
+    let pageToken: string | undefined;
+    
+    do {
+      const response = await this.provider.listMessages(grantId, {
+        receivedAfter: windowStart,
+        receivedBefore: windowEnd,
+        limit: config.gapFill.probeLimit,
+        pageToken,
+      });
+      
+      const messages = response.data.filter((message) => allowsFolders(folderPolicy, message.folders));
+      
+      if (messages.length > 0) {
+        // Soft-deleted rows count as present - the message was synced
+        const { data: stored, error } = await this.supabase
+          .from('support_email_messages')
+          .select('nylas_message_id')
+          .in('nylas_message_id', messages.map((message) => message.id));
+        
+        if (error) {
+          throw new Error(`Failed to check stored messages: ${error.message}`);
+        }
+        
+        const storedIds = new Set((stored || []).map((row) => row.nylas_message_id));
+        for (const message of messages) {
+          if (!storedIds.has(message.id)) {
+            missing.push({ id: message.id, threadId: message.threadId || '' });
+          }
+        }
+      }
+      
+      pageToken = response.nextCursor;
+    } while (pageToken);
+    
+    return missing;
+  }
+  
+  /**
+   * Whether any configuration of the inbox has a running or paused backfill
+   */
+  async hasUnfinishedBackfill(inboxId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('support_inbox_configurations')
+      .select('id')
+      .eq('inbox_id', inboxId)
+      .in('backfill_status', UNFINISHED_BACKFILL_STATUSES)
+      .limit(1);
+    
+    if (error) {
+      throw new Error(`Failed to fetch configurations for inbox ${inboxId}: ${error.message}`);
+    }
+    
+    return (data || []).length > 0;
+  }
+  
+  /**
+   * Queue thread sync jobs for specific threads of an inbox, bypassing the backfill's
+   * dedup against support_email_threads - a thread we already store may still be missing
+   * messages. Used to fill gaps (missed webhooks, reconciliation drift, expired grants).
+   * The jobs are tracked in catch_up_thread_syncs; a thread that already has one waiting is
+   * skipped. `reason` is recorded with each job. Returns the number of threads queued.
+   */
+  async queueThreadSyncs(inboxId: string, grantId: string, threadIds: string[], reason: string): Promise<number> {
+    let queued = 0;
+    
+    for (const threadId of threadIds) {
+      const { data, error } = await this.supabase.rpc('queue_catch_up_thread_sync', {
+        p_inbox_id: inboxId,
+        p_thread_id: threadId,
+        p_grant_id: grantId,
+        p_reason: reason,
+      });
+      
+      if (error) {
+        throw new Error(`Failed to queue thread ${threadId}: ${error.message}`);
+      }
+      
+      if (data) {
+        queued++;
+      }
+    }
+    
+    return queued;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Backfill ranges are processed as consecutive windows, newest first, so recent mail is
+ * available early and a long range can resume from the window it stopped in. The windows
+ * and their checkpoints live in support_inbox_configurations.backfill_progress.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BackfillWindowStatus = 'pending' | 'in_progress' | 'completed';
+
+export interface BackfillWindow {
+  index: number;        // 0 = newest
+  start_date: string;
+  end_date: string;
+  status: BackfillWindowStatus;
+  last_page_token?: string; // Checkpoint inside the window
+  pages: number;
+  threads_queued: number;
+  threads_skipped: number; // Already synced
+  threads_filtered: number; // Kept out by the folder policy
+  started_at?: string;
+  completed_at?: string;
+}
+
+/**
+ * Split [startDate, endDate] into windows of at most windowDays, newest first
+ */
+export function splitIntoWindows(startDate: Date, endDate: Date, windowDays: number): BackfillWindow[] {
+  const windowMs = Math.max(windowDays, 1) * DAY_MS;
+  const windows: BackfillWindow[] = [];
+  
+  let windowEnd = endDate.getTime();
+  while (windowEnd > startDate.getTime() || windows.length === 0) {
+    const windowStart = Math.max(windowEnd - windowMs, startDate.getTime());
+    windows.push({
+      index: windows.length,
+      start_date: new Date(windowStart).toISOString(),
+      end_date: new Date(windowEnd).toISOString(),
+      status: 'pending',
+      pages: 0,
+      threads_queued: 0,
+      threads_skipped: 0,
+      threads_filtered: 0,
+    });
+    windowEnd = windowStart;
+  }
+  
+  return windows;
+}
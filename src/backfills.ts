@@ -0,0 +1,60 @@
+import { createClient } from '@supabase/supabase-js';
+import { config, validateConfig } from './config';
+import { BackfillControl } from './backfill-control';
+
+/**
+ * Pause, resume or cancel the backfill of an inbox configuration, or show its state.
+ *
+ * Usage:
+ *   yarn backfills status <config_id>
+ *   yarn backfills pause <config_id> [reason]
+ *   yarn backfills resume <config_id>
+ *   yarn backfills cancel <config_id> [reason]
+ */
+async function main() {
+  const [command, configId, ...reasonWords] = process.argv.slice(2);
+  const reason = reasonWords.join(' ') || undefined;
+  
+  if (!['status', 'pause', 'resume', 'cancel'].includes(command) || !configId) {
+    console.error('Usage: backfills status|pause|resume|cancel <config_id> [reason]');
+    process.exit(1);
+  }
+  
+  validateConfig({ requireNylas: false });
+  
+  const supabase = createClient(
+    config.supabase.url,
+    config.supabase.serviceKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+  const control = new BackfillControl(supabase);
+  
+  if (command === 'pause') {
+    await control.pause(configId, reason);
+  } else if (command === 'resume') {
+    await control.resume(configId);
+  } else if (command === 'cancel') {
+    await control.cancel(configId, reason);
+  }
+  
+  const state = await control.getState(configId);
+  console.log(
+    `[Backfills] Config ${state.config_id} (inbox ${state.inbox_id}): ${state.backfill_status || 'never run'}` +
+    (state.backfill_status === 'paused'
+      ? ` in ${state.backfill_resume_status || 'backfill'} since ${state.backfill_paused_at}` +
+        ` - ${state.parked_job ? 'backfill job and ' : ''}${state.parked_threads} thread(s) held`
+      : '') +
+    (state.backfill_status === 'cancelled' ? ` at ${state.backfill_cancelled_at}` : '') +
+    (state.backfill_control_reason ? ` (${state.backfill_control_reason})` : '')
+  );
+}
+
+main().catch((error) => {
+  console.error('[Backfills] Failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { promises as fs } from 'fs';
+import { dirname, resolve, sep } from 'path';
+import { config } from './config';
+
+/**
+ * Storage for attachment content. Keys are content-addressed (derived from the SHA-256),
+ * so writing the same key twice always writes the same bytes.
+ */
+export interface BlobStore {
+  readonly backend: string;
+  put(key: string, content: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+}
+
+export class SupabaseBlobStore implements BlobStore {
+  readonly backend = 'supabase';
+  
+  constructor(private supabase: SupabaseClient, private bucket: string) {}
+  
+  async put(key: string, content: Buffer, contentType: string): Promise<void> {
+    const { error } = await this.supabase.storage
+      .from(this.bucket)
+      .upload(key, content, {
+        contentType,
+        upsert: true,
+      });
+    
+    if (error) {
+      throw new Error(`Failed to upload ${key} to bucket ${this.bucket}: ${error.message}`);
+    }
+  }
+  
+  async get(key: string): Promise<Buffer> {
+    const { data, error } = await this.supabase.storage
+      .from(this.bucket)
+      .download(key);
+    
+    if (error || !data) {
+      throw new Error(`Failed to download ${key} from bucket ${this.bucket}: ${error?.message || 'no data'}`);
+    }
+    
+    return Buffer.from(await data.arrayBuffer());
+  }
+}
+
+/**
+ * Filesystem backend for local development and tests.
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly backend = 'local';
+  
+  constructor(private rootDir: string) {}
+  
+  async put(key: string, content: Buffer): Promise<void> {
+    const filePath = this.pathFor(key);
+    
+    try {
+      await fs.access(filePath);
+      return; // Same key means same content
+    } catch {
+      // Not stored yet
+    }
+    
+    await fs.mkdir(dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+  
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.pathFor(key));
+  }
+  
+  private pathFor(key: string): string {
+    const filePath = resolve(this.rootDir, key);
+    if (!filePath.startsWith(resolve(this.rootDir) + sep)) {
+      throw new Error(`Blob key ${key} escapes the storage directory`);
+    }
+    return filePath;
+  }
+}
+
+export function createBlobStore(supabase: SupabaseClient): BlobStore {
+  switch (config.attachments.storageBackend) {
+    case 'supabase':
+      return new SupabaseBlobStore(supabase, config.attachments.bucket);
+    case 'local':
+      return new LocalBlobStore(config.attachments.localPath);
+    default:
+      throw new Error(`Unknown attachment storage backend: ${config.attachments.storageBackend}`);
+  }
+}
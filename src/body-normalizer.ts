@@ -0,0 +1,182 @@
+/**
+ * Email Body Normalization
+ *
+ * Nylas returns message bodies as HTML. This produces two plain-text variants at sync time:
+ * - body_text: the full body as readable text (markup removed, entities decoded)
+ * - body_clean: body_text without quoted replies, forwarded-message headers and signatures,
+ *   i.e. only what the sender actually wrote in this message
+ */
+
+export interface NormalizedBody {
+  bodyText: string;
+  bodyClean: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+  euro: '€',
+};
+
+// Lines that start the quoted history of a reply; everything after them is dropped
+const REPLY_MARKERS = [
+  /^On .{1,200}wrote:\s*$/i,                   // Gmail / Apple Mail
+  /^-{2,}\s*Original Message\s*-{2,}/i,        // Outlook
+  /^_{10,}\s*$/,                               // Outlook web separator
+  /^From:\s.+$/i,                              // Outlook header block (checked with Sent:/Date: below)
+];
+
+const FORWARD_MARKER = /^-{2,}\s*Forwarded message\s*-{2,}|^Begin forwarded message:/i;
+const FORWARD_HEADER = /^(From|Date|Sent|Subject|To|Cc|Reply-To):\s/i;
+
+// Lines that start a signature block
+const SIGNATURE_MARKERS = [
+  /^--\s*$/,                                   // RFC 3676 delimiter
+  /^Sent from my \w+/i,
+  /^Get Outlook for /i,
+];
+
+/**
+ * Convert an HTML (or plain-text) body into readable text.
+ */
+export function htmlToText(html: string): string {
+  if (!html) {
+    return '';
+  }
+  
+  const text = html
+    .replace(/<(script|style|head|title)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|tr|li|ul|ol|table|blockquote|pre)>/gi, '\n')
+    .replace(/<(p|div|h[1-6]|tr|table|blockquote|pre)[^>]*>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<![^>]*>/g, '')
+    // Only real tags - plain-text bodies contain things like <jane@example.com>
+    .replace(/<\/?[a-z][a-z0-9:-]*(\s[^>]*)?\/?>/gi, '');
+  
+  return decodeEntities(text)
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t ]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Remove quoted history, forwarded-message headers and the signature from plain text.
+ */
+export function stripQuotesAndSignature(text: string): string {
+  const lines = text.split('\n');
+  const kept: string[] = [];
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    
+    // Forwarded message: drop the marker and its header block, keep the forwarded content
+    if (FORWARD_MARKER.test(line)) {
+      while (i + 1 < lines.length && (FORWARD_HEADER.test(lines[i + 1].trim()) || !lines[i + 1].trim())) {
+        i++;
+      }
+      continue;
+    }
+    
+    if (isReplyMarker(line, lines[i + 1], lines[i + 2])) {
+      break;
+    }
+    
+    if (SIGNATURE_MARKERS.some((marker) => marker.test(line))) {
+      break;
+    }
+    
+    // Plain-text quoting
+    if (line.startsWith('>')) {
+      continue;
+    }
+    
+    kept.push(lines[i]);
+  }
+  
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+export function normalizeBody(html: string): NormalizedBody {
+  // Quoted history in HTML replies is wrapped in these containers - drop them before flattening
+  // (Gmail also wraps forwards in gmail_quote; those are kept and handled as text)
+  const withoutQuotes = (html || '')
+    .replace(/<div[^>]+class="[^"]*gmail_quote[^"]*"[^>]*>[\s\S]*$/i, (quote) =>
+      /Forwarded message/i.test(quote) ? quote : ''
+    )
+    .replace(/<blockquote[^>]*type="cite"[^>]*>[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<div[^>]+id="(divRplyFwdMsg|appendonsend)"[^>]*>[\s\S]*$/i, '');
+  
+  const bodyText = htmlToText(html);
+  const bodyClean = stripQuotesAndSignature(htmlToText(withoutQuotes));
+  
+  return {
+    bodyText,
+    // A message that is nothing but a forward/quote still needs some content
+    bodyClean: bodyClean || bodyText,
+  };
+}
+
+/**
+ * Plain text to minimal HTML (escaped, one <p> per paragraph) for outgoing mail
+ */
+export function textToHtml(text: string): string {
+  return (text || '')
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/\n/g, '<br>'))
+    .map((paragraph) => `<p>${paragraph}</p>`)
+    .join('\n');
+}
+
+function isReplyMarker(line: string, next?: string, afterNext?: string): boolean {
+  for (const marker of REPLY_MARKERS) {
+    if (!marker.test(line)) {
+      continue;
+    }
+    
+    // "From:" alone is too common - only treat it as a header block when Sent/Date follows
+    if (/^From:/i.test(line)) {
+      return [next, afterNext].some((l) => !!l && /^(Sent|Date):\s/i.test(l.trim()));
+    }
+    
+    return true;
+  }
+  
+  return false;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
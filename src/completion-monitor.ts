@@ -1,5 +1,9 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from './config';
+import { GapFillMonitor } from './gap-fill-monitor';
+import { GrantLifecycle } from './grant-lifecycle';
+import { MailboxReconciler } from './mailbox-reconciler';
+import { UNFINISHED_BACKFILL_STATUSES } from './backfill-scheduler';
 
 interface ThreadStats {
   total: number;
@@ -15,10 +19,15 @@ interface ActiveConfig {
   inbox_id: string;
   backfill_status: string;
   backfill_started_at: string | null;
+  backfill_paused_at?: string | null;
+  backfill_resume_status?: string | null;
 }
 
 export class CompletionMonitor {
   private supabase: SupabaseClient;
+  private gapFill: GapFillMonitor;
+  private grantLifecycle: GrantLifecycle;
+  private reconciler: MailboxReconciler;
   private isRunning = false;
   private readonly CHECK_INTERVAL_MS = parseInt(
     process.env.COMPLETION_CHECK_INTERVAL_MS || '5000',
@@ -30,6 +39,9 @@ export class CompletionMonitor {
     10
   );
   private lastRecoveryCheck = 0;
+  private lastGapCheck = 0;
+  private lastCatchUpCheck = 0;
+  private lastReconcile = 0;
   
   constructor() {
     this.supabase = createClient(
@@ -42,6 +54,10 @@ export class CompletionMonitor {
         },
       }
     );
+    
+    this.gapFill = new GapFillMonitor(this.supabase);
+    this.grantLifecycle = new GrantLifecycle(this.supabase);
+    this.reconciler = new MailboxReconciler(this.supabase);
   }
   
   async start(): Promise<void> {
@@ -73,6 +89,12 @@ export class CompletionMonitor {
     if (this.ENABLE_AUTO_RECOVERY) {
       console.log(`[Monitor] Auto-recovery enabled. Checking for premature completions every ${this.RECOVERY_CHECK_INTERVAL_MS}ms`);
     }
+    if (config.gapFill.enabled) {
+      console.log(`[Monitor] Gap fill enabled. Checking inboxes for missed webhooks every ${config.gapFill.checkIntervalMs}ms`);
+    }
+    if (config.reconcile.enabled) {
+      console.log(`[Monitor] Mailbox reconciliation enabled. Reconciling the last ${config.reconcile.windowDays} day(s) every ${config.reconcile.intervalMs}ms`);
+    }
     
     // Continuously monitor active backfills
     while (this.isRunning) {
@@ -86,6 +108,24 @@ export class CompletionMonitor {
           }
         }
         
+        // Periodic check for windows with missed webhooks
+        if (config.gapFill.enabled && Date.now() - this.lastGapCheck >= config.gapFill.checkIntervalMs) {
+          await this.checkForWebhookGaps();
+          this.lastGapCheck = Date.now();
+        }
+        
+        // Outage windows of re-authenticated grants
+        if (Date.now() - this.lastCatchUpCheck >= config.catchUp.checkIntervalMs) {
+          await this.runCatchUps();
+          this.lastCatchUpCheck = Date.now();
+        }
+        
+        // Periodic comparison of mailboxes with Nylas
+        if (config.reconcile.enabled && Date.now() - this.lastReconcile >= config.reconcile.intervalMs) {
+          await this.reconcileMailboxes();
+          this.lastReconcile = Date.now();
+        }
+        
         // Get all active backfills (not completed or failed)
         const activeConfigs = await this.getActiveBackfills();
         
@@ -95,7 +135,8 @@ export class CompletionMonitor {
           continue;
         }
         
-        console.log(`[Monitor] Monitoring ${activeConfigs.length} active backfill(s)`);
+        const paused = activeConfigs.filter((c) => c.backfill_status === 'paused').length;
+        console.log(`[Monitor] Monitoring ${activeConfigs.length} active backfill(s)${paused > 0 ? `, ${paused} paused` : ''}`);
         
         // Process each active backfill
         for (const configData of activeConfigs) {
@@ -112,12 +153,57 @@ export class CompletionMonitor {
     }
   }
   
+  private async checkForWebhookGaps(): Promise<void> {
+    try {
+      const filled = await this.gapFill.checkInboxes();
+      if (filled > 0) {
+        console.log(`[Monitor] Queued thread syncs for missed webhooks in ${filled} inbox(es)`);
+      }
+    } catch (error) {
+      // Don't throw - completion monitoring must keep running
+      console.error('[Monitor] Error checking for webhook gaps:', error);
+    }
+  }
+  
+  private async runCatchUps(): Promise<void> {
+    try {
+      const caughtUp = await this.grantLifecycle.runPendingCatchUps();
+      if (caughtUp > 0) {
+        console.log(`[Monitor] Queued outage catch-ups for ${caughtUp} re-authenticated inbox(es)`);
+      }
+    } catch (error) {
+      // Don't throw - completion monitoring must keep running
+      console.error('[Monitor] Error running outage catch-ups:', error);
+    }
+  }
+  
+  private async reconcileMailboxes(): Promise<void> {
+    try {
+      const reports = await this.reconciler.reconcileAll({
+        windowDays: config.reconcile.windowDays,
+        fix: config.reconcile.fix,
+      });
+      
+      for (const report of reports.filter((r) => r.total_drift > 0)) {
+        console.error(
+          `[Monitor] Mailbox drift in inbox ${report.inbox_id}: ${report.total_drift} ` +
+          `(missing threads ${report.missing_threads}, partial threads ${report.partial_threads}, ` +
+          `missing messages ${report.missing_messages}, orphaned threads ${report.orphaned_threads}, ` +
+          `orphaned messages ${report.orphaned_messages})`
+        );
+      }
+    } catch (error) {
+      // Don't throw - completion monitoring must keep running
+      console.error('[Monitor] Error reconciling mailboxes:', error);
+    }
+  }
+  
   private async getActiveBackfills(): Promise<ActiveConfig[]> {
     try {
       const { data, error } = await this.supabase
         .from('support_inbox_configurations')
-        .select('id, inbox_id, backfill_status, backfill_started_at')
-        .in('backfill_status', ['backfill', 'thread_sync', 'in_progress']);
+        .select('id, inbox_id, backfill_status, backfill_started_at, backfill_paused_at, backfill_resume_status')
+        .in('backfill_status', UNFINISHED_BACKFILL_STATUSES);
       
       if (error) {
         console.error('[Monitor] Error fetching active backfills:', error);
@@ -149,6 +235,12 @@ export class CompletionMonitor {
       // Update progress stats
       await this.updateProgressStats(configId, stats);
       
+      // Paused on purpose: held threads don't count as stalled and it can't complete until resumed
+      if (backfill_status === 'paused') {
+        console.log(`[Monitor] ⏸️  Backfill ${configId.substring(0, 8)}... paused in ${configData.backfill_resume_status || 'backfill'} since ${configData.backfill_paused_at} - ${stats.queued} thread(s) held`);
+        return;
+      }
+      
       // Check if backfill is complete
       if (stats.total > 0 && (stats.completed + stats.failed) >= stats.total) {
         // Double-check: verify no threads are still queued or processing
@@ -10,19 +10,109 @@ export const config = {
   nylas: {
     apiKey: process.env.NYLAS_API_KEY || '',
     apiUri: process.env.NYLAS_API_URI || 'https://api.us.nylas.com',
+    // Token buckets shared by every Nylas call in the process
+    globalRequestsPerSecond: parseFloat(process.env.NYLAS_GLOBAL_RPS || '20'),
+    globalBurst: parseInt(process.env.NYLAS_GLOBAL_BURST || '40', 10),
+    grantRequestsPerSecond: parseFloat(process.env.NYLAS_GRANT_RPS || '5'),
+    grantBurst: parseInt(process.env.NYLAS_GRANT_BURST || '10', 10),
+    // Retries for 429 (after Retry-After) and 5xx / timeouts / network errors (jittered backoff)
+    maxRetries: parseInt(process.env.NYLAS_MAX_RETRIES || '5', 10),
+    retryBaseDelayMs: parseInt(process.env.NYLAS_RETRY_BASE_DELAY_MS || '500', 10),
+    retryMaxDelayMs: parseInt(process.env.NYLAS_RETRY_MAX_DELAY_MS || '30000', 10),
+    // Seconds before a Nylas request is abandoned (SDK timeout)
+    timeoutSeconds: parseInt(process.env.NYLAS_TIMEOUT_SECONDS || '90', 10),
+  },
+  provider: {
+    // 'nylas', or 'fixture' to read mailboxes from JSON files (offline runs)
+    type: process.env.EMAIL_PROVIDER || 'nylas',
+    fixturePath: process.env.EMAIL_PROVIDER_FIXTURE_PATH || './fixtures',
+  },
+  receiver: {
+    port: parseInt(process.env.RECEIVER_PORT || '3000', 10),
+    path: process.env.RECEIVER_PATH || '/webhooks/nylas',
+    webhookSecret: process.env.NYLAS_WEBHOOK_SECRET || '',
+    maxBodyBytes: parseInt(process.env.RECEIVER_MAX_BODY_BYTES || '5242880', 10),
   },
   queue: {
     pollIntervalMs: parseInt(process.env.POLL_INTERVAL_MS || '5000', 10),
     batchSize: parseInt(process.env.BATCH_SIZE || '10', 10),
+    // Seconds a read webhook message stays hidden; covers the coalescing window and processing
     visibilityTimeout: parseInt(process.env.VISIBILITY_TIMEOUT || '300', 10),
+    // How long to keep reading after the first message so bursts can be coalesced (ms)
+    coalesceWindowMs: parseInt(process.env.COALESCE_WINDOW_MS || '2000', 10),
+    // Upper bound on messages held for a single coalesced batch
+    coalesceMaxMessages: parseInt(process.env.COALESCE_MAX_MESSAGES || '100', 10),
   },
   processing: {
     // Delay between processing threads (ms)
     threadDelayMs: parseInt(process.env.THREAD_DELAY_MS || '3000', 10),
-    // Delay between processing individual messages (ms)
-    messageDelayMs: parseInt(process.env.MESSAGE_DELAY_MS || '1000', 10),
-    // Delay between API calls to prevent rate limiting (ms)
-    apiDelayMs: parseInt(process.env.API_DELAY_MS || '200', 10),
+    // Seconds a thread_sync_jobs message stays hidden while its thread is synced. Long threads
+    // page through hundreds of messages; a job that is still running when it expires is synced twice.
+    threadVisibilityTimeout: parseInt(process.env.THREAD_SYNC_VISIBILITY_TIMEOUT || '600', 10),
+  },
+  attachments: {
+    enabled: process.env.ATTACHMENTS_ENABLED !== 'false',
+    // 'supabase' (Supabase Storage) or 'local' (filesystem, for development)
+    storageBackend: process.env.ATTACHMENTS_STORAGE_BACKEND || 'supabase',
+    bucket: process.env.ATTACHMENTS_BUCKET || 'email-attachments',
+    localPath: process.env.ATTACHMENTS_LOCAL_PATH || './data/attachments',
+    maxBytes: parseInt(process.env.ATTACHMENTS_MAX_BYTES || '26214400', 10),
+    // Inline parts are mostly signature logos and tracking images
+    includeInline: process.env.ATTACHMENTS_INCLUDE_INLINE === 'true',
+    // Cap on text stored per attachment (PDF, DOCX, TXT, CSV)
+    maxTextChars: parseInt(process.env.ATTACHMENTS_MAX_TEXT_CHARS || '100000', 10),
+  },
+  gapFill: {
+    // Checks run from the completion monitor
+    enabled: process.env.GAP_FILL_ENABLED !== 'false',
+    checkIntervalMs: parseInt(process.env.GAP_FILL_CHECK_INTERVAL_MS || '900000', 10),
+    // Messages newer than this are skipped - their webhooks may still be queued
+    settleMs: parseInt(process.env.GAP_FILL_SETTLE_MS || '600000', 10),
+    // Each check re-covers this much of the previous window
+    overlapMs: parseInt(process.env.GAP_FILL_OVERLAP_MS || '300000', 10),
+    probeLimit: parseInt(process.env.GAP_FILL_PROBE_LIMIT || '50', 10),
+  },
+  reconcile: {
+    // Scheduled runs from the completion monitor (off by default; the CLI can be run from cron instead)
+    enabled: process.env.RECONCILE_ENABLED === 'true',
+    intervalMs: parseInt(process.env.RECONCILE_INTERVAL_MS || '86400000', 10),
+    // Rolling window compared against Nylas (days)
+    windowDays: parseInt(process.env.RECONCILE_WINDOW_DAYS || '7', 10),
+    // Messages newer than this are skipped - their webhooks may still be queued
+    settleMs: parseInt(process.env.RECONCILE_SETTLE_MS || '600000', 10),
+    // Queue thread syncs and soft-delete orphans on scheduled runs
+    fix: process.env.RECONCILE_FIX === 'true',
+  },
+  outbox: {
+    enabled: process.env.OUTBOX_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '2000', 10),
+    batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '5', 10),
+    // Seconds before an unacknowledged send is retried; must outlast the slowest send
+    visibilityTimeout: parseInt(process.env.OUTBOX_VISIBILITY_TIMEOUT || '600', 10),
+    maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '5', 10),
+    // Retries of a rate-limited messages.send within one attempt (sends are never retried otherwise)
+    sendMaxRetries: parseInt(process.env.OUTBOX_SEND_MAX_RETRIES || '2', 10),
+  },
+  backfill: {
+    // Long ranges are processed as windows of this many days, newest first
+    windowDays: parseInt(process.env.BACKFILL_WINDOW_DAYS || '30', 10),
+    // Longest range a backfill covers for tenants without backfill_max_days (days)
+    maxDays: parseInt(process.env.BACKFILL_MAX_DAYS || '365', 10),
+  },
+  folderPolicy: {
+    // Folders/labels excluded for inboxes without exclude_folders (comma-separated, e.g. SPAM,TRASH)
+    defaultExclude: (process.env.FOLDER_POLICY_DEFAULT_EXCLUDE || '')
+      .split(',')
+      .map((folder) => folder.trim())
+      .filter(Boolean),
+    // How long webhook sync reuses an inbox's policy (ms)
+    cacheMs: parseInt(process.env.FOLDER_POLICY_CACHE_MS || '60000', 10),
+  },
+  catchUp: {
+    // Upper bound for the outage window synced after re-authentication (days)
+    maxWindowDays: parseInt(process.env.CATCH_UP_MAX_WINDOW_DAYS || '30', 10),
+    // How often the completion monitor looks for re-authenticated inboxes to catch up (ms)
+    checkIntervalMs: parseInt(process.env.CATCH_UP_CHECK_INTERVAL_MS || '60000', 10),
   },
   extractionQueue: {
     enabled: process.env.EXTRACTION_QUEUE_ENABLED !== 'false',
@@ -37,6 +127,19 @@ export const config = {
     llmProvider: process.env.EXTRACTION_LLM_PROVIDER || 'openai',
     llmModel: process.env.EXTRACTION_LLM_MODEL || 'gpt-4.1',
     temperature: parseFloat(process.env.EXTRACTION_LLM_TEMPERATURE || '0.1'),
+    // Total attachment text included in a thread transcript (chars)
+    attachmentCharBudget: parseInt(process.env.EXTRACTION_ATTACHMENT_CHAR_BUDGET || '8000', 10),
+  },
+  replyDrafts: {
+    enabled: process.env.REPLY_DRAFTS_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.REPLY_DRAFTS_POLL_INTERVAL_MS || '30000', 10),
+    batchSize: parseInt(process.env.REPLY_DRAFTS_BATCH_SIZE || '5', 10),
+    maxAttempts: parseInt(process.env.REPLY_DRAFTS_MAX_ATTEMPTS || '3', 10),
+    // Extractions older than this are not drafted for (avoids drafting the whole history on rollout)
+    maxAgeHours: parseInt(process.env.REPLY_DRAFTS_MAX_AGE_HOURS || '72', 10),
+    llmProvider: process.env.REPLY_DRAFTS_LLM_PROVIDER || 'openai',
+    llmModel: process.env.REPLY_DRAFTS_LLM_MODEL || 'gpt-4.1',
+    temperature: parseFloat(process.env.REPLY_DRAFTS_LLM_TEMPERATURE || '0.4'),
   },
   spamDetection: {
     enabled: process.env.SPAM_DETECTION_ENABLED !== 'false',
@@ -54,12 +157,16 @@ export const config = {
   testingMode: process.env.TESTING_MODE === 'true',
 };
 
-export function validateConfig(): void {
-  const required = [
+export function validateConfig(options: { requireNylas?: boolean } = {}): void {
+  const required: Array<[string, string]> = [
     ['SUPABASE_URL', config.supabase.url],
     ['SUPABASE_SERVICE_KEY', config.supabase.serviceKey],
-    ['NYLAS_API_KEY', config.nylas.apiKey],
-  ] as const;
+  ];
+
+  // Not needed when the pipeline reads from fixtures
+  if (options.requireNylas ?? config.provider.type === 'nylas') {
+    required.push(['NYLAS_API_KEY', config.nylas.apiKey]);
+  }
 
   const missing = required.filter(([, value]) => !value).map(([name]) => name);
 
@@ -70,5 +177,30 @@ export function validateConfig(): void {
     );
   }
 
+  // Held webhook messages would become visible again before the batch is even complete
+  if (config.queue.coalesceWindowMs >= config.queue.visibilityTimeout * 1000) {
+    throw new Error(
+      `COALESCE_WINDOW_MS (${config.queue.coalesceWindowMs}) must be shorter than ` +
+        `VISIBILITY_TIMEOUT (${config.queue.visibilityTimeout}s)`
+    );
+  }
+
+  // A send still running when its queue message becomes visible again could be picked up twice
+  if (outboxSendMaxMs() >= config.outbox.visibilityTimeout * 1000) {
+    throw new Error(
+      `OUTBOX_VISIBILITY_TIMEOUT (${config.outbox.visibilityTimeout}s) must be longer than the slowest ` +
+        `send (${Math.ceil(outboxSendMaxMs() / 1000)}s from OUTBOX_SEND_MAX_RETRIES, ` +
+        'NYLAS_TIMEOUT_SECONDS and NYLAS_RETRY_MAX_DELAY_MS)'
+    );
+  }
+
   console.log('[Config] Configuration validated successfully');
 }
+
+/**
+ * Longest a messages.send call can take: every attempt times out, with the longest wait between them
+ */
+export function outboxSendMaxMs(): number {
+  const retries = config.outbox.sendMaxRetries;
+  return (retries + 1) * config.nylas.timeoutSeconds * 1000 + retries * config.nylas.retryMaxDelayMs;
+}
@@ -0,0 +1,295 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// What NylasSync stores for messages without a sender - not a contact
+const PLACEHOLDER_SENDER = 'unknown@example.com';
+
+// Gmail ignores dots in the local part and treats googlemail.com as gmail.com
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+const PARTICIPANT_ROLES = [
+  ['from', 'sender'],
+  ['to', 'to_recipients'],
+  ['cc', 'cc_recipients'],
+  ['bcc', 'bcc_recipients'],
+  ['reply_to', 'reply_to'],
+] as const;
+
+/**
+ * Address columns of a support_email_messages row (sender is one address, the rest are lists)
+ */
+export interface MessageAddresses {
+  sender: any;
+  to_recipients: any;
+  cc_recipients: any;
+  bcc_recipients: any;
+  reply_to: any;
+}
+
+interface Participant {
+  role: string;
+  email: string;
+  normalized: string;
+  name: string | null;
+}
+
+/**
+ * Links message senders and recipients to per-tenant contacts (support_contacts).
+ *
+ * Addresses are normalized here; creating contacts, linking participants and updating
+ * contact stats happens in SQL (migrations 019 and 026) so concurrent syncs can't create
+ * duplicates.
+ */
+export class ContactResolver {
+  // Inbox tenants don't change while the process runs
+  private tenantByInbox = new Map<string, string | null>();
+  
+  constructor(private supabase: SupabaseClient) {}
+  
+  /**
+   * Link every address on a stored message to a contact. Returns the number of participants
+   * linked (0 when the inbox has no tenant).
+   */
+  async linkMessage(threadDbId: string, messageDbId: string, message: MessageAddresses): Promise<number> {
+    const tenantId = await this.tenantForThread(threadDbId);
+    if (!tenantId) {
+      return 0;
+    }
+    
+    return this.link(tenantId, messageDbId, message);
+  }
+  
+  /**
+   * Link the messages of an inbox that have no participants yet (rows stored before contacts
+   * existed). As a repair path, the contacts' stats are recomputed from all of their messages
+   * instead of updated incrementally. Returns the number of messages linked.
+   */
+  async linkInbox(inboxId: string, batchSize = 200): Promise<number> {
+    const { data: inbox, error: inboxError } = await this.supabase
+      .from('support_inboxes')
+      .select('tenant_id')
+      .eq('id', inboxId)
+      .single();
+    
+    if (inboxError || !inbox) {
+      throw new Error(`Failed to fetch inbox ${inboxId}: ${inboxError?.message || 'not found'}`);
+    }
+    
+    if (!inbox.tenant_id) {
+      console.log(`[Contacts] Inbox ${inboxId} has no tenant, skipping`);
+      return 0;
+    }
+    
+    let linked = 0;
+    let lastId: string | null = null;
+    
+    while (true) {
+      let query = this.supabase
+        .from('support_email_messages')
+        .select<string, any>(
+          'id, sender, to_recipients, cc_recipients, bcc_recipients, reply_to, ' +
+          'support_email_threads!inner(inbox_id), support_message_participants(message_id)'
+        )
+        .eq('support_email_threads.inbox_id', inboxId)
+        .order('id', { ascending: true })
+        .limit(batchSize);
+      
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+      
+      const { data: messages, error } = await query;
+      
+      if (error) {
+        throw new Error(`Failed to fetch messages for inbox ${inboxId}: ${error.message}`);
+      }
+      
+      for (const message of messages || []) {
+        if ((message.support_message_participants || []).length === 0) {
+          await this.link(inbox.tenant_id, message.id, message, true);
+          linked++;
+        }
+      }
+      
+      if (!messages || messages.length < batchSize) {
+        break;
+      }
+      lastId = messages[messages.length - 1].id;
+    }
+    
+    return linked;
+  }
+  
+  /**
+   * Refresh the stats of the contacts on a thread's messages (after a delete)
+   */
+  async refreshThread(threadDbId: string): Promise<void> {
+    const { error } = await this.supabase.rpc('recompute_thread_contact_stats', {
+      p_thread_id: threadDbId,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to recompute contacts for thread ${threadDbId}: ${error.message}`);
+    }
+  }
+  
+  /**
+   * Record aliasEmail as another address of the contact that owns email. If the alias already
+   * has a contact of its own, the two contacts are merged. Returns the contact id.
+   */
+  async addAlias(tenantId: string, email: string, aliasEmail: string): Promise<string> {
+    const primary = normalizeEmail(email);
+    const alias = normalizeEmail(aliasEmail);
+    
+    if (!primary || !alias) {
+      throw new Error(`Invalid email address: ${!primary ? email : aliasEmail}`);
+    }
+    
+    const contactId = await this.findContactId(tenantId, primary);
+    if (!contactId) {
+      throw new Error(`No contact with address ${email} in tenant ${tenantId}`);
+    }
+    
+    const aliasContactId = await this.findContactId(tenantId, alias);
+    
+    if (aliasContactId) {
+      const { error } = await this.supabase.rpc('merge_contacts', {
+        p_keep_id: contactId,
+        p_merge_id: aliasContactId,
+      });
+      
+      if (error) {
+        throw new Error(`Failed to merge contact ${aliasContactId} into ${contactId}: ${error.message}`);
+      }
+      
+      return contactId;
+    }
+    
+    const { error } = await this.supabase
+      .from('support_contact_addresses')
+      .insert({ tenant_id: tenantId, contact_id: contactId, email: alias, source: 'alias' });
+    
+    if (error) {
+      throw new Error(`Failed to add alias ${alias}: ${error.message}`);
+    }
+    
+    return contactId;
+  }
+  
+  private async link(
+    tenantId: string,
+    messageDbId: string,
+    message: MessageAddresses,
+    recompute = false
+  ): Promise<number> {
+    const participants = messageParticipants(message);
+    
+    const { data, error } = await this.supabase.rpc('link_message_participants', {
+      p_message_id: messageDbId,
+      p_tenant_id: tenantId,
+      p_participants: participants,
+      p_recompute: recompute,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to link participants of message ${messageDbId}: ${error.message}`);
+    }
+    
+    return (data as number) ?? 0;
+  }
+  
+  private async findContactId(tenantId: string, normalized: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('support_contact_addresses')
+      .select('contact_id')
+      .eq('tenant_id', tenantId)
+      .eq('email', normalized)
+      .maybeSingle();
+    
+    if (error) {
+      throw new Error(`Failed to look up contact for ${normalized}: ${error.message}`);
+    }
+    
+    return data?.contact_id ?? null;
+  }
+  
+  private async tenantForThread(threadDbId: string): Promise<string | null> {
+    const { data: thread, error: threadError } = await this.supabase
+      .from('support_email_threads')
+      .select('inbox_id')
+      .eq('id', threadDbId)
+      .single();
+    
+    if (threadError || !thread) {
+      throw new Error(`Failed to fetch thread ${threadDbId}: ${threadError?.message || 'not found'}`);
+    }
+    
+    if (this.tenantByInbox.has(thread.inbox_id)) {
+      return this.tenantByInbox.get(thread.inbox_id)!;
+    }
+    
+    const { data: inbox, error: inboxError } = await this.supabase
+      .from('support_inboxes')
+      .select('tenant_id')
+      .eq('id', thread.inbox_id)
+      .single();
+    
+    if (inboxError || !inbox) {
+      throw new Error(`Failed to fetch inbox ${thread.inbox_id}: ${inboxError?.message || 'not found'}`);
+    }
+    
+    this.tenantByInbox.set(thread.inbox_id, inbox.tenant_id ?? null);
+    return inbox.tenant_id ?? null;
+  }
+}
+
+/**
+ * Canonical form of an address: lower case, without a +tag, and for Gmail without dots
+ * in the local part. Returns null for values that aren't an address.
+ */
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const address = (email || '').trim().replace(/^<|>$/g, '').toLowerCase();
+  const at = address.lastIndexOf('@');
+  if (at <= 0 || at === address.length - 1) {
+    return null;
+  }
+  
+  let local = address.substring(0, at);
+  let domain = address.substring(at + 1);
+  
+  local = local.split('+')[0] || local;
+  
+  if (GMAIL_DOMAINS.includes(domain)) {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+  
+  return `${local}@${domain}`;
+}
+
+/**
+ * Every address on a message with its role, skipping values that aren't an address
+ */
+function messageParticipants(message: MessageAddresses): Participant[] {
+  const participants: Participant[] = [];
+  const seen = new Set<string>();
+  
+  for (const [role, column] of PARTICIPANT_ROLES) {
+    const value = message[column];
+    const addresses = Array.isArray(value) ? value : value ? [value] : [];
+    
+    for (const address of addresses) {
+      const email = typeof address?.email === 'string' ? address.email.trim() : '';
+      const normalized = normalizeEmail(email);
+      const key = `${role}:${email}`;
+      
+      if (!normalized || email === PLACEHOLDER_SENDER || seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      
+      participants.push({ role, email, normalized, name: address.name || null });
+    }
+  }
+  
+  return participants;
+}
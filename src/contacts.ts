@@ -0,0 +1,70 @@
+import { createClient } from '@supabase/supabase-js';
+import { config, validateConfig } from './config';
+import { ContactResolver } from './contact-resolver';
+
+/**
+ * Maintain the contacts directory.
+ *
+ * Usage:
+ *   yarn contacts link <inbox_id> | --all          Link messages stored before contacts existed
+ *   yarn contacts alias <tenant_id> <email> <alias> Record a known alias (merges the two contacts)
+ */
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  
+  if (!(command === 'link' && args.length === 1) && !(command === 'alias' && args.length === 3)) {
+    console.error('Usage: contacts link <inbox_id> | --all');
+    console.error('       contacts alias <tenant_id> <email> <alias_email>');
+    process.exit(1);
+  }
+  
+  validateConfig({ requireNylas: false });
+  
+  const supabase = createClient(
+    config.supabase.url,
+    config.supabase.serviceKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+  const contacts = new ContactResolver(supabase);
+  
+  if (command === 'alias') {
+    const [tenantId, email, alias] = args;
+    const contactId = await contacts.addAlias(tenantId, email, alias);
+    console.log(`[Contacts] ${alias} is now an alias of contact ${contactId} (${email})`);
+    return;
+  }
+  
+  let inboxIds: string[] = [args[0]];
+  
+  if (args[0] === '--all') {
+    const { data, error } = await supabase
+      .from('support_inboxes')
+      .select('id');
+    
+    if (error) {
+      throw new Error(`Failed to fetch inboxes: ${error.message}`);
+    }
+    
+    inboxIds = (data || []).map((inbox) => inbox.id);
+  }
+  
+  let totalMessages = 0;
+  for (const inboxId of inboxIds) {
+    const startTime = Date.now();
+    const messages = await contacts.linkInbox(inboxId);
+    totalMessages += messages;
+    console.log(`[Contacts] Inbox ${inboxId}: linked ${messages} messages in ${Date.now() - startTime}ms`);
+  }
+  
+  console.log(`[Contacts] Done - ${totalMessages} messages across ${inboxIds.length} inbox(es)`);
+}
+
+main().catch((error) => {
+  console.error('[Contacts] Failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+import { config } from './config';
+import { NylasProvider } from './nylas-provider';
+import { FixtureProvider } from './fixture-provider';
+
+/**
+ * Source of mailbox data for the sync pipeline. NylasSync, the backfill and thread sync
+ * processors, gap fill and reconciliation read threads and messages only through this
+ * interface, so they can run against another source (or fixtures, offline).
+ *
+ * Lookups return null when the object doesn't exist; every other failure throws.
+ */
+export interface EmailProvider {
+  readonly name: string;
+  listThreads(grantId: string, params: ListThreadsParams): Promise<ProviderPage<ProviderThread>>;
+  getThread(grantId: string, threadId: string): Promise<ProviderThread | null>;
+  listMessages(grantId: string, params: ListMessagesParams): Promise<ProviderPage<ProviderMessage>>;
+  getMessage(grantId: string, messageId: string): Promise<ProviderMessage | null>;
+  downloadAttachment(grantId: string, messageId: string, attachmentId: string): Promise<Buffer>;
+  // Request counters for logging
+  getStats(): Record<string, number>;
+}
+
+export interface EmailAddress {
+  name?: string;
+  email: string;
+}
+
+export interface ProviderAttachment {
+  id: string;
+  filename?: string;
+  contentType?: string;
+  size?: number;
+  contentId?: string;
+  isInline?: boolean;
+}
+
+export interface ProviderHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * Normalized message. Dates are Date objects and every list field is present (possibly empty).
+ */
+export interface ProviderMessage {
+  id: string;
+  threadId: string | null;
+  subject: string | null;
+  from: EmailAddress[];
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  bcc: EmailAddress[];
+  replyTo: EmailAddress[];
+  body: string;
+  snippet: string;
+  receivedAt: Date | null;
+  unread: boolean;
+  starred: boolean;
+  folders: string[];
+  attachments: ProviderAttachment[];
+  headers: ProviderHeader[];
+  inReplyTo: string | null;
+  metadata: Record<string, unknown> | null;
+  trackingOptions: Record<string, unknown> | null;
+}
+
+export interface ProviderThread {
+  id: string;
+  subject: string | null;
+  snippet: string;
+  participants: EmailAddress[];
+  latestMessageAt: Date | null;
+  unread: boolean;
+  starred: boolean;
+  folders: string[]; // Folders/labels of the thread's messages
+  messageIds: string[];
+}
+
+export interface ProviderPage<T> {
+  data: T[];
+  // Pass back as pageToken for the next page; undefined on the last page
+  nextCursor?: string;
+}
+
+export interface ListThreadsParams {
+  limit?: number;
+  latestMessageAfter?: Date;
+  latestMessageBefore?: Date;
+  pageToken?: string;
+}
+
+export interface ListMessagesParams {
+  limit?: number;
+  threadId?: string;
+  receivedAfter?: Date;
+  receivedBefore?: Date;
+  pageToken?: string;
+  // Return raw headers too (getMessage always does); only needed when the messages are stored
+  includeHeaders?: boolean;
+}
+
+export function createEmailProvider(): EmailProvider {
+  switch (config.provider.type) {
+    case 'nylas':
+      return new NylasProvider();
+    case 'fixture':
+      return new FixtureProvider(config.provider.fixturePath);
+    default:
+      throw new Error(`Unknown email provider: ${config.provider.type}`);
+  }
+}
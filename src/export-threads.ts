@@ -0,0 +1,89 @@
+import { createClient } from '@supabase/supabase-js';
+import { config, validateConfig } from './config';
+import { ExportFilter, ExportResult, ThreadExporter } from './thread-exporter';
+
+/**
+ * Export an inbox's threads as EML files, MBOX or a JSON bundle (offboarding, legal holds).
+ *
+ * Usage:
+ *   yarn export-threads <inbox_id> --format eml --out <dir> [filters]
+ *   yarn export-threads <inbox_id> --format mbox --out <dir> [filters]            (one .mbox per thread)
+ *   yarn export-threads <inbox_id> --format mbox --per inbox --out <file> [filters]
+ *   yarn export-threads <inbox_id> --format json --out <file> [filters]
+ *
+ * Filters: --since <date> --until <date> --category <category> --include-deleted
+ */
+async function main() {
+  const [inboxId, ...args] = process.argv.slice(2);
+  const option = (name: string): string | undefined => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  
+  const format = option('format');
+  const out = option('out');
+  const per = option('per') || 'thread';
+  const since = option('since');
+  const until = option('until');
+  
+  if (
+    !inboxId || inboxId.startsWith('--') || !out
+    || !['eml', 'mbox', 'json'].includes(format || '')
+    || !['thread', 'inbox'].includes(per)
+    || (since && isNaN(Date.parse(since)))
+    || (until && isNaN(Date.parse(until)))
+  ) {
+    console.error(
+      'Usage: export-threads <inbox_id> --format eml|mbox|json --out <path> [--per thread|inbox] ' +
+      '[--since <date>] [--until <date>] [--category <category>] [--include-deleted]'
+    );
+    process.exit(1);
+  }
+  
+  // Exports only read the database and attachment store
+  validateConfig({ requireNylas: false });
+  
+  const supabase = createClient(
+    config.supabase.url,
+    config.supabase.serviceKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+  const exporter = new ThreadExporter(supabase);
+  
+  const filter: ExportFilter = {
+    inboxId,
+    since: since ? new Date(since) : undefined,
+    until: until ? new Date(until) : undefined,
+    category: option('category'),
+    includeDeleted: args.includes('--include-deleted'),
+  };
+  
+  const startTime = Date.now();
+  let result: ExportResult;
+  
+  switch (format) {
+    case 'eml':
+      result = await exporter.exportEml(filter, out);
+      break;
+    case 'mbox':
+      result = await exporter.exportMbox(filter, out, per as 'thread' | 'inbox');
+      break;
+    default:
+      result = await exporter.exportJson(filter, out);
+  }
+  
+  console.log(
+    `[Export] Done in ${Date.now() - startTime}ms - ${result.threads} threads, ${result.messages} messages, ` +
+    `${result.attachments} attachments in ${result.files.length} file(s) under ${out}`
+  );
+}
+
+main().catch((error) => {
+  console.error('[Export] Failed:', error);
+  process.exit(1);
+});
@@ -4,6 +4,15 @@ import { openai, OpenAIResponsesProviderOptions } from '@ai-sdk/openai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { config } from './config';
 import { UniversalExtractionSchema, UniversalExtraction, Entity } from './extraction-schema';
+import {
+  ThreadTranscriptLoader,
+  EmailMessage,
+  IncludedAttachment,
+  ATTACHMENT_CONTENT_INSTRUCTION,
+  formatTranscript,
+  messageText,
+  sortByDate,
+} from './thread-transcript';
 
 interface QueueJob {
   id: string;
@@ -18,23 +27,9 @@ interface QueueJob {
   queued_at: string;
 }
 
-interface EmailMessage {
-  id: string;
-  thread_id: string;
-  nylas_message_id: string;
-  subject: string;
-  sender: any;
-  body: string;
-  received_date: string;
-  to_recipients: any;
-  cc_recipients: any;
-  in_reply_to: string;
-  snippet: string;
-  headers: any;
-}
-
 export class ExtractionWorker {
   private supabase: SupabaseClient;
+  private transcripts: ThreadTranscriptLoader;
   private isRunning = false;
   private readonly POLL_INTERVAL_MS: number;
   private readonly MAX_RETRIES: number;
@@ -42,6 +37,7 @@ export class ExtractionWorker {
   private readonly LLM_PROVIDER: string;
   private readonly LLM_MODEL: string;
   private readonly TEMPERATURE: number;
+  private readonly ATTACHMENT_CHAR_BUDGET: number;
   private totalProcessed = 0;
   private totalFailed = 0;
   
@@ -63,6 +59,8 @@ export class ExtractionWorker {
     this.LLM_PROVIDER = config.extraction.llmProvider;
     this.LLM_MODEL = config.extraction.llmModel;
     this.TEMPERATURE = config.extraction.temperature;
+    this.ATTACHMENT_CHAR_BUDGET = config.extraction.attachmentCharBudget;
+    this.transcripts = new ThreadTranscriptLoader(this.supabase, this.ATTACHMENT_CHAR_BUDGET);
   }
   
   async start(): Promise<void> {
@@ -197,7 +195,7 @@ export class ExtractionWorker {
       console.log(`[ExtractionWorker] Processing thread ${threadId} from PGMQ (msg_id: ${msgId})`);
       
       // Fetch all thread messages
-      const messages = await this.fetchThreadMessages(threadId);
+      const messages = await this.transcripts.fetchMessages(threadId);
       
       if (!messages || messages.length === 0) {
         console.error(`[ExtractionWorker] No messages found for thread ${threadId}`);
@@ -208,11 +206,14 @@ export class ExtractionWorker {
       
       console.log(`[ExtractionWorker] Thread ${threadId} has ${messages.length} messages`);
       
+      // Text pulled from attachments at ingestion time (PDF, DOCX, TXT, CSV)
+      const attachments = await this.transcripts.fetchAttachments(messages);
+      
       // Extract with LLM
-      const extraction = await this.extractWithLLM(messages);
+      const extraction = await this.extractWithLLM(messages, attachments);
       
       // Save extraction results
-      await this.saveExtraction(threadId, inboxId, tenantId, messages, extraction);
+      await this.saveExtraction(threadId, inboxId, tenantId, messages, extraction, attachments);
       
       // Acknowledge job (removes from PGMQ and updates thread status)
       await this.acknowledgePGMQJob(msgId, threadId);
@@ -259,7 +260,7 @@ export class ExtractionWorker {
       await this.markProcessing(job.id, job.thread_id);
       
       // Fetch all thread messages
-      const messages = await this.fetchThreadMessages(job.thread_id);
+      const messages = await this.transcripts.fetchMessages(job.thread_id);
       
       if (!messages || messages.length === 0) {
         await this.markFailed(job.id, job.thread_id, 'No messages found in thread');
@@ -269,11 +270,14 @@ export class ExtractionWorker {
 
       console.log(`[ExtractionWorker] Thread ${job.thread_id} has ${messages.length} messages`);
       
+      // Text pulled from attachments at ingestion time (PDF, DOCX, TXT, CSV)
+      const attachments = await this.transcripts.fetchAttachments(messages);
+      
       // Extract with LLM analyzing the whole thread
-      const extraction = await this.extractWithLLM(messages);
+      const extraction = await this.extractWithLLM(messages, attachments);
       
       // Save extraction results
-      await this.saveExtraction(job.thread_id, job.inbox_id, job.tenant_id, messages, extraction);
+      await this.saveExtraction(job.thread_id, job.inbox_id, job.tenant_id, messages, extraction, attachments);
       
       // Mark as completed
       const processingTime = Date.now() - startTime;
@@ -295,28 +299,8 @@ export class ExtractionWorker {
     }
   }
   
-  private async fetchThreadMessages(threadId: string): Promise<EmailMessage[]> {
-    try {
-      const { data, error } = await this.supabase
-        .from('support_email_messages')
-        .select('*')
-        .eq('thread_id', threadId)
-        .order('received_date', { ascending: true }); // Oldest first for transcript
-      
-      if (error) {
-        console.error(`[ExtractionWorker] Error fetching messages for thread ${threadId}:`, error);
-        return [];
-      }
-      
-      return (data || []) as EmailMessage[];
-    } catch (error) {
-      console.error('[ExtractionWorker] Error in fetchThreadMessages:', error);
-      return [];
-    }
-  }
-  
-  private async extractWithLLM(messages: EmailMessage[]): Promise<UniversalExtraction> {
-    const prompt = this.formatExtractionPrompt(messages);
+  private async extractWithLLM(messages: EmailMessage[], attachments: IncludedAttachment[]): Promise<UniversalExtraction> {
+    const prompt = this.formatExtractionPrompt(messages, attachments);
     
     console.log(`[ExtractionWorker] Calling ${this.LLM_PROVIDER}/${this.LLM_MODEL} (transcript length: ${prompt.length})...`);
     
@@ -351,39 +335,11 @@ export class ExtractionWorker {
     }
   }
   
-  private formatExtractionPrompt(messages: EmailMessage[]): string {
-    // Sort messages strictly by date
-    const sortedMessages = [...messages].sort((a, b) => 
-      new Date(a.received_date).getTime() - new Date(b.received_date).getTime()
-    );
-    
+  private formatExtractionPrompt(messages: EmailMessage[], attachments: IncludedAttachment[]): string {
+    const sortedMessages = sortByDate(messages);
     const latestMessage = sortedMessages[sortedMessages.length - 1];
     const messageCount = sortedMessages.length;
-    
-    // Build thread transcript
-    const transcript = sortedMessages.map((msg, index) => {
-      const senderInfo = msg.sender 
-        ? `${msg.sender.name || 'Unknown'} <${msg.sender.email || 'unknown@example.com'}>`
-        : 'Unknown sender';
-        
-      const timestamp = new Date(msg.received_date).toLocaleString();
-      
-      // Clean body snippet (first 500 chars if long)
-      let bodyContent = msg.body || msg.snippet || 'No content';
-      if (bodyContent.length > 2000) {
-        bodyContent = bodyContent.substring(0, 2000) + '... [truncated]';
-      }
-      
-      return `
---- MESSAGE ${index + 1} of ${messageCount} ---
-From: ${senderInfo}
-Date: ${timestamp}
-Subject: ${msg.subject || 'No subject'}
-To: ${(msg.to_recipients || []).map((r: any) => r.email).join(', ')}
-
-${bodyContent}
-`;
-    }).join('\n');
+    const transcript = formatTranscript(sortedMessages, attachments);
 
     return `
 # Email Thread Intelligence Extraction
@@ -417,8 +373,9 @@ ${transcript}
 IMPORTANT: 
 - Treat the conversation as a single unit of work.
 - Respond based on the MOST RECENT state of affairs.
-- For 'sender_type', classify the LATEST sender.
+- For 'sender_type', classify the LATEST sender. "Note:" lines under a message come from its mail headers: an automated message is 'automated_system', bulk/mailing-list mail is rarely from a 'person'.
 - For 'is_reply', true if thread length > 1.
+- ${ATTACHMENT_CONTENT_INSTRUCTION}
 `;
   }
   
@@ -427,18 +384,20 @@ IMPORTANT:
     inboxId: string,
     tenantId: string,
     messages: EmailMessage[],
-    extraction: UniversalExtraction
+    extraction: UniversalExtraction,
+    attachments: IncludedAttachment[]
   ): Promise<void> {
     try {
       // Get latest message for reference
-      const sortedMessages = [...messages].sort((a, b) => 
-        new Date(a.received_date).getTime() - new Date(b.received_date).getTime()
-      );
+      const sortedMessages = sortByDate(messages);
       const latestMessage = sortedMessages[sortedMessages.length - 1];
       
       // Calculate word count for token estimation
-      const totalWordCount = messages.reduce((sum, msg) => 
-        sum + (msg.body ? msg.body.split(/\s+/).length : 0), 0);
+      const totalWordCount = messages.reduce((sum, msg) => {
+        const text = messageText(msg).trim();
+        return sum + (text ? text.split(/\s+/).length : 0);
+      }, 0) +
+        attachments.reduce((sum, a) => sum + a.text.split(/\s+/).length, 0);
       const estimatedTokens = Math.ceil(totalWordCount / 0.75);
       
       // Determine characteristics
@@ -516,6 +475,14 @@ IMPORTANT:
           
           // Metadata
           raw_extraction_result: extraction,
+          extraction_metadata: {
+            attachments: attachments.map(({ text, ...attachment }) => ({
+              ...attachment,
+              included_chars: text.length,
+            })),
+            attachment_chars: attachments.reduce((sum, a) => sum + a.text.length, 0),
+            attachment_char_budget: this.ATTACHMENT_CHAR_BUDGET,
+          },
           extraction_model: `${this.LLM_PROVIDER}/${this.LLM_MODEL}`,
           extraction_version: '2.0.0', // Bumped version for thread support
         })
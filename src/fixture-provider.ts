@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import { join, resolve, sep } from 'path';
+import {
+  EmailAddress,
+  EmailProvider,
+  ListMessagesParams,
+  ListThreadsParams,
+  ProviderMessage,
+  ProviderPage,
+  ProviderThread,
+} from './email-provider';
+import { inRange, paginate } from './provider-paging';
+
+/**
+ * One grant's mailbox as stored in <fixturePath>/<grantId>.json. Fields left out get the
+ * same defaults as the Nylas mapping; dates are ISO strings.
+ */
+interface FixtureMailbox {
+  threads?: Array<Partial<Omit<ProviderThread, 'latestMessageAt'>> & { id: string; latestMessageAt?: string }>;
+  messages?: Array<Partial<Omit<ProviderMessage, 'receivedAt'>> & { id: string; receivedAt?: string }>;
+}
+
+interface LoadedMailbox {
+  threads: ProviderThread[];
+  messages: ProviderMessage[];
+}
+
+/**
+ * EmailProvider that serves mailboxes from JSON files, for running the pipeline offline.
+ * Attachment content is read from <fixturePath>/attachments/<attachmentId>.
+ */
+export class FixtureProvider implements EmailProvider {
+  readonly name = 'fixture';
+  private mailboxes = new Map<string, LoadedMailbox>();
+  private stats = { requests: 0 };
+  
+  constructor(private rootDir: string) {}
+  
+  async listThreads(grantId: string, params: ListThreadsParams): Promise<ProviderPage<ProviderThread>> {
+    const mailbox = await this.load(grantId);
+    
+    const threads = mailbox.threads
+      .filter((thread) => inRange(thread.latestMessageAt, params.latestMessageAfter, params.latestMessageBefore))
+      // Newest first, like Nylas
+      .sort((a, b) => (b.latestMessageAt?.getTime() ?? 0) - (a.latestMessageAt?.getTime() ?? 0));
+    
+    return paginate(threads, params.limit, params.pageToken);
+  }
+  
+  async getThread(grantId: string, threadId: string): Promise<ProviderThread | null> {
+    const mailbox = await this.load(grantId);
+    return mailbox.threads.find((thread) => thread.id === threadId) || null;
+  }
+  
+  async listMessages(grantId: string, params: ListMessagesParams): Promise<ProviderPage<ProviderMessage>> {
+    const mailbox = await this.load(grantId);
+    
+    const messages = mailbox.messages
+      .filter((message) => !params.threadId || message.threadId === params.threadId)
+      .filter((message) => inRange(message.receivedAt, params.receivedAfter, params.receivedBefore))
+      .sort((a, b) => (b.receivedAt?.getTime() ?? 0) - (a.receivedAt?.getTime() ?? 0));
+    
+    return paginate(messages, params.limit, params.pageToken);
+  }
+  
+  async getMessage(grantId: string, messageId: string): Promise<ProviderMessage | null> {
+    const mailbox = await this.load(grantId);
+    return mailbox.messages.find((message) => message.id === messageId) || null;
+  }
+  
+  async downloadAttachment(_grantId: string, _messageId: string, attachmentId: string): Promise<Buffer> {
+    this.stats.requests++;
+    
+    const attachmentsDir = resolve(this.rootDir, 'attachments');
+    const filePath = resolve(attachmentsDir, attachmentId);
+    if (!filePath.startsWith(attachmentsDir + sep)) {
+      throw new Error(`Attachment id ${attachmentId} escapes the fixture directory`);
+    }
+    
+    return fs.readFile(filePath);
+  }
+  
+  getStats(): Record<string, number> {
+    return { ...this.stats };
+  }
+  
+  private async load(grantId: string): Promise<LoadedMailbox> {
+    this.stats.requests++;
+    
+    const cached = this.mailboxes.get(grantId);
+    if (cached) {
+      return cached;
+    }
+    
+    const filePath = join(this.rootDir, `${grantId}.json`);
+    let fixture: FixtureMailbox;
+    try {
+      fixture = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to load fixture mailbox ${filePath}: ${errorMessage}`);
+    }
+    
+    const messages = (fixture.messages || []).map(toMessage);
+    const threads = (fixture.threads || []).map((thread) => toThread(thread, messages));
+    
+    const mailbox = { threads, messages };
+    this.mailboxes.set(grantId, mailbox);
+    return mailbox;
+  }
+}
+
+function toMessage(message: NonNullable<FixtureMailbox['messages']>[number]): ProviderMessage {
+  return {
+    id: message.id,
+    threadId: message.threadId ?? null,
+    subject: message.subject ?? null,
+    from: message.from || [],
+    to: message.to || [],
+    cc: message.cc || [],
+    bcc: message.bcc || [],
+    replyTo: message.replyTo || [],
+    body: message.body || '',
+    snippet: message.snippet || '',
+    receivedAt: message.receivedAt ? new Date(message.receivedAt) : null,
+    unread: message.unread ?? true,
+    starred: message.starred ?? false,
+    folders: message.folders || [],
+    attachments: message.attachments || [],
+    headers: message.headers || [],
+    inReplyTo: message.inReplyTo ?? null,
+    metadata: message.metadata ?? null,
+    trackingOptions: message.trackingOptions ?? null,
+  };
+}
+
+/**
+ * Fill in what the thread's messages already say (message ids, latest date, participants, folders)
+ */
+function toThread(
+  thread: NonNullable<FixtureMailbox['threads']>[number],
+  messages: ProviderMessage[]
+): ProviderThread {
+  const threadMessages = messages
+    .filter((message) => message.threadId === thread.id)
+    .sort((a, b) => (a.receivedAt?.getTime() ?? 0) - (b.receivedAt?.getTime() ?? 0));
+  const latest = threadMessages[threadMessages.length - 1];
+  
+  const participants = new Map<string, EmailAddress>();
+  for (const address of threadMessages.flatMap((message) => [...message.from, ...message.to, ...message.cc])) {
+    participants.set(address.email.toLowerCase(), address);
+  }
+  
+  return {
+    id: thread.id,
+    subject: thread.subject ?? threadMessages[0]?.subject ?? null,
+    snippet: thread.snippet ?? latest?.snippet ?? '',
+    participants: thread.participants || [...participants.values()],
+    latestMessageAt: thread.latestMessageAt ? new Date(thread.latestMessageAt) : latest?.receivedAt ?? null,
+    unread: thread.unread ?? threadMessages.some((message) => message.unread),
+    starred: thread.starred ?? false,
+    folders: thread.folders || [...new Set(threadMessages.flatMap((message) => message.folders))],
+    messageIds: thread.messageIds || threadMessages.map((message) => message.id),
+  };
+}
@@ -0,0 +1,101 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { config } from './config';
+
+/**
+ * Which folders/labels of a mailbox are synced, from support_inbox_configurations
+ * (include_folders / exclude_folders) or a backfill job's payload.
+ *
+ * Threads are admitted by folder: backfill checks each listed thread's folders, webhook sync
+ * checks the folders of a message that would start a new thread. Once a thread is stored,
+ * all of its messages are synced (e.g. replies in Sent). Folder ids are compared
+ * case-insensitively - Gmail label ids (INBOX, SPAM, CATEGORY_PROMOTIONS) or the provider's
+ * folder ids.
+ */
+export interface FolderPolicy {
+  include: string[]; // Empty = every folder not excluded
+  exclude: string[];
+}
+
+/**
+ * Build a policy from stored or payload values. Missing lists fall back to the defaults
+ * (no include list, FOLDER_POLICY_DEFAULT_EXCLUDE).
+ */
+export function folderPolicy(include?: unknown, exclude?: unknown): FolderPolicy {
+  return {
+    include: folderList(include) ?? [],
+    exclude: folderList(exclude) ?? config.folderPolicy.defaultExclude,
+  };
+}
+
+/**
+ * A policy with the lists a backfill job payload sets replacing the inbox's
+ */
+export function overridePolicy(base: FolderPolicy, include?: unknown, exclude?: unknown): FolderPolicy {
+  return {
+    include: folderList(include) ?? base.include,
+    exclude: folderList(exclude) ?? base.exclude,
+  };
+}
+
+/**
+ * Whether something in these folders is synced. Excludes win over includes.
+ */
+export function allowsFolders(policy: FolderPolicy, folders: string[]): boolean {
+  const lower = folders.map((folder) => folder.toLowerCase());
+  
+  if (policy.exclude.some((folder) => lower.includes(folder.toLowerCase()))) {
+    return false;
+  }
+  
+  return policy.include.length === 0
+    || policy.include.some((folder) => lower.includes(folder.toLowerCase()));
+}
+
+export function describePolicy(policy: FolderPolicy): string {
+  const parts = [
+    policy.include.length > 0 && `include ${policy.include.join(', ')}`,
+    policy.exclude.length > 0 && `exclude ${policy.exclude.join(', ')}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('; ') : 'all folders';
+}
+
+/**
+ * Per-inbox policies from support_inbox_configurations, cached for FOLDER_POLICY_CACHE_MS
+ */
+export class FolderPolicies {
+  private cache = new Map<string, { policy: FolderPolicy; loadedAt: number }>();
+  
+  constructor(private supabase: SupabaseClient) {}
+  
+  async forInbox(inboxId: string): Promise<FolderPolicy> {
+    const cached = this.cache.get(inboxId);
+    if (cached && Date.now() - cached.loadedAt < config.folderPolicy.cacheMs) {
+      return cached.policy;
+    }
+    
+    const { data, error } = await this.supabase
+      .from('support_inbox_configurations')
+      .select('include_folders, exclude_folders')
+      .eq('inbox_id', inboxId)
+      .maybeSingle();
+    
+    if (error) {
+      throw new Error(`Failed to fetch folder policy for inbox ${inboxId}: ${error.message}`);
+    }
+    
+    const policy = folderPolicy(data?.include_folders, data?.exclude_folders);
+    this.cache.set(inboxId, { policy, loadedAt: Date.now() });
+    return policy;
+  }
+}
+
+// null when the value isn't set (so the default applies); [] is an explicit empty list
+function folderList(value: unknown): string[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  return value
+    .filter((folder): folder is string => typeof folder === 'string')
+    .map((folder) => folder.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,125 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { config } from './config';
+import { BackfillScheduler } from './backfill-scheduler';
+
+interface InboxCursor {
+  id: string;
+  nylas_grant_id: string;
+  last_webhook_processed_at: string | null;
+  gap_checked_at: string | null;
+}
+
+/**
+ * Detects windows where webhooks were missed (expired grant, Nylas outage, consumer down)
+ * and queues thread syncs for them.
+ *
+ * For each connected inbox it lists the messages Nylas received since the inbox was last known
+ * to be complete and checks them against support_email_messages. The threads of missing messages
+ * are queued on thread_sync_jobs directly - a backfill would skip threads we already store, and
+ * a missed reply usually belongs to one.
+ */
+export class GapFillMonitor {
+  private scheduler: BackfillScheduler;
+  
+  constructor(private supabase: SupabaseClient) {
+    this.scheduler = new BackfillScheduler(supabase);
+  }
+  
+  /**
+   * Check every connected inbox. Returns the number of inboxes with a gap whose threads were queued.
+   */
+  async checkInboxes(): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('support_inboxes')
+      .select('id, nylas_grant_id, last_webhook_processed_at, gap_checked_at')
+      .not('nylas_grant_id', 'is', null)
+      // Expired grants get their catch-up on re-authentication
+      .not('status', 'in', '(auth_expired,disconnected)');
+    
+    if (error) {
+      throw new Error(`Failed to fetch inboxes for gap check: ${error.message}`);
+    }
+    
+    let filled = 0;
+    for (const inbox of (data || []) as InboxCursor[]) {
+      try {
+        if (await this.checkInbox(inbox)) {
+          filled++;
+        }
+      } catch (error) {
+        // Don't throw - one failing inbox shouldn't stop the others
+        console.error(`[GapFill] Error checking inbox ${inbox.id}:`, error);
+      }
+    }
+    
+    return filled;
+  }
+  
+  private async checkInbox(inbox: InboxCursor): Promise<boolean> {
+    const now = Date.now();
+    // Leave recent messages alone - their webhooks may still be in the queue
+    const windowEnd = new Date(now - config.gapFill.settleMs);
+    
+    // Start from the last verified point; the webhook cursor is only the baseline for a new inbox.
+    // (Webhooks resuming after an outage move that cursor past the gap, so it can't be the start.)
+    const checkedFrom = inbox.gap_checked_at || inbox.last_webhook_processed_at;
+    
+    if (!checkedFrom) {
+      // No webhook processed yet - start tracking from here (the initial backfill covers the past)
+      await this.advanceCheckpoint(inbox.id, windowEnd);
+      return false;
+    }
+    
+    const windowStart = new Date(new Date(checkedFrom).getTime() - config.gapFill.overlapMs);
+    if (windowEnd.getTime() <= windowStart.getTime()) {
+      return false;
+    }
+    
+    // Pages through the whole window, so the checkpoint can move past it once the threads are queued
+    const missing = await this.scheduler.findMissingMessages(inbox.id, inbox.nylas_grant_id, windowStart, windowEnd);
+    
+    if (missing.length === 0) {
+      await this.advanceCheckpoint(inbox.id, windowEnd);
+      return false;
+    }
+    
+    console.log(
+      `[GapFill] Inbox ${inbox.id} is missing ${missing.length} message(s) received between ` +
+      `${windowStart.toISOString()} and ${windowEnd.toISOString()}`
+    );
+    
+    // Throws when queueing fails - the checkpoint stays put and the window is checked again
+    const threadIds = [...new Set(missing.map((message) => message.threadId).filter(Boolean))];
+    const threadsQueued = await this.scheduler.queueThreadSyncs(inbox.id, inbox.nylas_grant_id, threadIds, 'gap_fill');
+    console.log(`[GapFill] Queued ${threadsQueued} thread sync(s) for inbox ${inbox.id}`);
+    
+    const { error: insertError } = await this.supabase
+      .from('support_inbox_gap_fills')
+      .insert({
+        inbox_id: inbox.id,
+        window_start: windowStart.toISOString(),
+        window_end: windowEnd.toISOString(),
+        missing_messages: missing.length,
+        sample_message_ids: missing.slice(0, 10).map((message) => message.id),
+        threads_queued: threadsQueued,
+      });
+    
+    if (insertError) {
+      console.error(`[GapFill] Error recording gap for inbox ${inbox.id}:`, insertError);
+    }
+    
+    await this.advanceCheckpoint(inbox.id, windowEnd);
+    return true;
+  }
+  
+  private async advanceCheckpoint(inboxId: string, checkedThrough: Date): Promise<void> {
+    const { error } = await this.supabase
+      .from('support_inboxes')
+      .update({ gap_checked_at: checkedThrough.toISOString() })
+      .eq('id', inboxId);
+    
+    if (error) {
+      throw new Error(`Failed to update gap checkpoint for inbox ${inboxId}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BackfillScheduler } from './backfill-scheduler';
+import { BackfillControl } from './backfill-control';
+
+interface InboxGrantState {
+  id: string;
+  status: string | null;
+  nylas_grant_id: string | null;
+  auth_expired_at: string | null;
+}
+
+interface PendingCatchUp {
+  id: string;
+  nylas_grant_id: string;
+  auth_expired_at: string;
+  reauthenticated_at: string | null;
+}
+
+export class GrantLifecycle {
+  private scheduler: BackfillScheduler;
+  private backfillControl: BackfillControl;
+  
+  constructor(private supabase: SupabaseClient) {
+    this.scheduler = new BackfillScheduler(supabase);
+    this.backfillControl = new BackfillControl(supabase);
+  }
+  
+  /**
+   * grant.expired - mark the inbox as needing re-authentication and remember when the outage started
+   */
+  async handleExpired(inboxId: string | null, grantId: string): Promise<void> {
+    const inbox = await this.resolveInbox(inboxId, grantId);
+    if (!inbox) {
+      return;
+    }
+    
+    console.log(`[Grant] Grant expired for inbox ${inbox.id}`);
+    
+    const now = new Date().toISOString();
+    const { error } = await this.supabase
+      .from('support_inboxes')
+      .update({
+        status: 'auth_expired',
+        webhook_health_status: 'failing',
+        // Keep the earliest expiry so repeated notifications don't shrink the outage window
+        auth_expired_at: inbox.auth_expired_at || now,
+        updated_at: now,
+      })
+      .eq('id', inbox.id);
+    
+    if (error) {
+      throw new Error(`Failed to update inbox status: ${error.message}`);
+    }
+    
+    console.log(`[Grant] Marked inbox ${inbox.id} as auth_expired`);
+  }
+  
+  /**
+   * grant.created - a grant was (re)connected for the mailbox
+   */
+  async handleCreated(inboxId: string | null, grantId: string): Promise<void> {
+    const inbox = await this.resolveInbox(inboxId, grantId);
+    if (!inbox) {
+      return;
+    }
+    
+    await this.reactivate(inbox, grantId);
+  }
+  
+  /**
+   * grant.updated - only acts on re-authentication (or on an inbox we know is expired)
+   */
+  async handleUpdated(inboxId: string | null, grantId: string, grant: any): Promise<void> {
+    const inbox = await this.resolveInbox(inboxId, grantId);
+    if (!inbox) {
+      return;
+    }
+    
+    const reauthenticated = grant?.reauthentication_flag === true;
+    if (!reauthenticated && inbox.status !== 'auth_expired') {
+      console.log(`[Grant] Grant ${grantId} updated without re-authentication, nothing to do`);
+      return;
+    }
+    
+    await this.reactivate(inbox, grantId);
+  }
+  
+  /**
+   * grant.deleted - detach the grant from the inbox and cancel any running or paused backfill
+   */
+  async handleDeleted(inboxId: string | null, grantId: string): Promise<void> {
+    const inbox = await this.resolveInbox(inboxId, grantId);
+    if (!inbox) {
+      return;
+    }
+    
+    console.log(`[Grant] Grant ${grantId} deleted, detaching from inbox ${inbox.id}`);
+    
+    if (inbox.nylas_grant_id && inbox.nylas_grant_id !== grantId) {
+      // The inbox was already re-connected with a newer grant
+      console.log(`[Grant] Inbox ${inbox.id} uses grant ${inbox.nylas_grant_id}, ignoring deletion of ${grantId}`);
+      return;
+    }
+    
+    const now = new Date().toISOString();
+    const { error } = await this.supabase
+      .from('support_inboxes')
+      .update({
+        nylas_grant_id: null,
+        status: 'disconnected',
+        webhook_health_status: 'failing',
+        grant_deleted_at: now,
+        updated_at: now,
+      })
+      .eq('id', inbox.id);
+    
+    if (error) {
+      throw new Error(`Failed to detach grant from inbox ${inbox.id}: ${error.message}`);
+    }
+    
+    await this.backfillControl.cancelInbox(inbox.id, 'grant_deleted');
+    
+    console.log(`[Grant] Detached grant ${grantId} from inbox ${inbox.id}`);
+  }
+  
+  /**
+   * Sync the outage windows of re-authenticated inboxes (run by the completion monitor).
+   * A reactivated inbox keeps auth_expired_at until its catch-up threads are queued, so a
+   * catch-up that fails is retried on the next run. Returns the number of inboxes caught up.
+   */
+  async runPendingCatchUps(): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('support_inboxes')
+      .select('id, nylas_grant_id, auth_expired_at, reauthenticated_at')
+      .eq('status', 'active')
+      .not('auth_expired_at', 'is', null)
+      .not('nylas_grant_id', 'is', null);
+    
+    if (error) {
+      throw new Error(`Failed to fetch inboxes awaiting catch-up: ${error.message}`);
+    }
+    
+    let caughtUp = 0;
+    for (const inbox of (data || []) as PendingCatchUp[]) {
+      try {
+        const reauthenticatedAt = inbox.reauthenticated_at ? new Date(inbox.reauthenticated_at) : new Date();
+        await this.scheduler.scheduleCatchUp(
+          inbox.id,
+          inbox.nylas_grant_id,
+          new Date(inbox.auth_expired_at),
+          reauthenticatedAt,
+          'reauthentication'
+        );
+        
+        // Only while still active - an expiry since then starts a new outage from this auth_expired_at
+        const { error: updateError } = await this.supabase
+          .from('support_inboxes')
+          .update({ auth_expired_at: null })
+          .eq('id', inbox.id)
+          .eq('status', 'active')
+          .eq('auth_expired_at', inbox.auth_expired_at);
+        
+        if (updateError) {
+          throw new Error(`Failed to clear outage of inbox ${inbox.id}: ${updateError.message}`);
+        }
+        
+        caughtUp++;
+      } catch (error) {
+        // Don't throw - auth_expired_at is kept, so the catch-up is retried on the next run
+        console.error(`[Grant] Error catching up inbox ${inbox.id}:`, error);
+      }
+    }
+    
+    return caughtUp;
+  }
+  
+  private async reactivate(inbox: InboxGrantState, grantId: string): Promise<void> {
+    const now = new Date();
+    // auth_expired_at is also still set on an active inbox whose catch-up hasn't run yet
+    const outageStart = inbox.auth_expired_at;
+    
+    const { error } = await this.supabase
+      .from('support_inboxes')
+      .update({
+        status: 'active',
+        webhook_health_status: 'healthy',
+        nylas_grant_id: grantId,
+        // Kept as the outage start until runPendingCatchUps has queued the window's threads
+        auth_expired_at: outageStart,
+        grant_deleted_at: null,
+        reauthenticated_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', inbox.id);
+    
+    if (error) {
+      throw new Error(`Failed to reactivate inbox ${inbox.id}: ${error.message}`);
+    }
+    
+    console.log(`[Grant] Reactivated inbox ${inbox.id} with grant ${grantId}`);
+    
+    // Webhooks were not delivered while the grant was expired - the completion monitor syncs
+    // what the outage window missed, outside the webhook's visibility timeout
+    if (outageStart) {
+      console.log(`[Grant] Catch-up for inbox ${inbox.id} since ${outageStart} left to the completion monitor`);
+    }
+  }
+  
+  private async resolveInbox(inboxId: string | null, grantId: string): Promise<InboxGrantState | null> {
+    let query = this.supabase
+      .from('support_inboxes')
+      .select('id, status, nylas_grant_id, auth_expired_at');
+    
+    // Grant notifications may arrive without an inbox (e.g. a brand new grant)
+    query = inboxId ? query.eq('id', inboxId) : query.eq('nylas_grant_id', grantId);
+    
+    const { data, error } = await query.maybeSingle();
+    
+    if (error) {
+      throw new Error(`Failed to fetch inbox for grant ${grantId}: ${error.message}`);
+    }
+    
+    if (!data) {
+      console.warn(`[Grant] No inbox found for grant ${grantId}${inboxId ? ` (inbox ${inboxId})` : ''}`);
+      return null;
+    }
+    
+    return data as InboxGrantState;
+  }
+}
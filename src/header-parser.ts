@@ -0,0 +1,190 @@
+import { ProviderHeader } from './email-provider';
+
+/**
+ * Typed fields from the raw mail headers, stored as support_email_messages.parsed_headers.
+ *
+ * Message ids are stored without angle brackets. Values a header doesn't have are null;
+ * authentication results are the verdict of the receiving server (the topmost
+ * Authentication-Results header), lowercased: 'pass', 'fail', 'softfail', 'neutral', 'none', ...
+ */
+export interface ParsedHeaders {
+  message_id: string | null;
+  in_reply_to: string | null;
+  references: string[];
+  list_id: string | null;
+  list_unsubscribe: ListUnsubscribe | null;
+  auto_submitted: string | null; // e.g. auto-replied, auto-generated ('no' means sent by a person)
+  precedence: string | null;     // e.g. bulk, list, junk
+  return_path: string | null;    // '' for the null sender (<>) used by bounces
+  authentication: AuthenticationResults;
+}
+
+export interface ListUnsubscribe {
+  mailto: string | null;
+  url: string | null;
+  one_click: boolean; // List-Unsubscribe-Post: List-Unsubscribe=One-Click (RFC 8058)
+}
+
+export interface AuthenticationResults {
+  spf: string | null;
+  dkim: string | null;
+  dmarc: string | null;
+}
+
+const BULK_PRECEDENCE = ['bulk', 'list', 'junk'];
+
+/**
+ * Parse a message's raw headers. Returns null when there are none - Nylas only returns
+ * headers when they are requested, so rows synced before that have nothing to parse.
+ */
+export function parseHeaders(headers: ProviderHeader[] | null | undefined): ParsedHeaders | null {
+  if (!headers || headers.length === 0) {
+    return null;
+  }
+  
+  const values = (name: string): string[] =>
+    headers
+      .filter((header) => header.name?.toLowerCase() === name)
+      .map((header) => unfold(header.value || ''));
+  const first = (name: string): string | null => values(name)[0] ?? null;
+  
+  const listId = first('list-id');
+  const unsubscribe = first('list-unsubscribe');
+  const returnPath = first('return-path');
+  
+  return {
+    message_id: parseMessageIds(first('message-id'))[0] ?? null,
+    in_reply_to: parseMessageIds(first('in-reply-to'))[0] ?? null,
+    references: parseMessageIds(values('references').join(' ')),
+    list_id: listId ? (listId.match(/<([^<>]+)>/)?.[1] ?? listId).trim() : null,
+    list_unsubscribe: unsubscribe
+      ? parseListUnsubscribe(unsubscribe, first('list-unsubscribe-post'))
+      : null,
+    auto_submitted: token(first('auto-submitted')),
+    precedence: token(first('precedence')),
+    return_path: returnPath === null ? null : (returnPath.match(/<([^<>]*)>/)?.[1] ?? returnPath).trim(),
+    authentication: parseAuthentication(values('authentication-results'), first('received-spf')),
+  };
+}
+
+/**
+ * Message ids from a Message-ID / In-Reply-To / References value, without angle brackets
+ */
+export function parseMessageIds(value: string | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  
+  const bracketed = [...value.matchAll(/<([^<>\s]+)>/g)].map((match) => match[1]);
+  if (bracketed.length > 0) {
+    return bracketed;
+  }
+  
+  // Some clients leave the brackets off
+  return value.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Newsletters, mailing lists and other bulk sends
+ */
+export function isBulkMail(parsed: ParsedHeaders | null): boolean {
+  if (!parsed) {
+    return false;
+  }
+  return !!parsed.list_id
+    || !!parsed.list_unsubscribe
+    || BULK_PRECEDENCE.includes(parsed.precedence || '');
+}
+
+/**
+ * Out-of-office replies, notifications and bounces - sent by software, not by a person
+ */
+export function isAutoSubmitted(parsed: ParsedHeaders | null): boolean {
+  if (!parsed) {
+    return false;
+  }
+  return (!!parsed.auto_submitted && parsed.auto_submitted !== 'no') || parsed.return_path === '';
+}
+
+/**
+ * One line per notable header signal, for LLM prompts. Empty when nothing stands out.
+ */
+export function describeHeaderSignals(parsed: ParsedHeaders | null): string[] {
+  if (!parsed) {
+    return [];
+  }
+  
+  const signals: string[] = [];
+  
+  if (isBulkMail(parsed)) {
+    const details = [
+      parsed.list_id && `List-Id ${parsed.list_id}`,
+      parsed.list_unsubscribe && 'List-Unsubscribe',
+      parsed.precedence && `Precedence ${parsed.precedence}`,
+    ].filter(Boolean);
+    signals.push(`Bulk/mailing-list mail (${details.join(', ')})`);
+  }
+  
+  if (isAutoSubmitted(parsed)) {
+    signals.push(parsed.auto_submitted && parsed.auto_submitted !== 'no'
+      ? `Automated message (Auto-Submitted: ${parsed.auto_submitted})`
+      : 'Automated message (null Return-Path, e.g. a bounce)');
+  }
+  
+  const { spf, dkim, dmarc } = parsed.authentication;
+  if (spf || dkim || dmarc) {
+    signals.push(`Sender authentication: SPF ${spf || 'none'}, DKIM ${dkim || 'none'}, DMARC ${dmarc || 'none'}`);
+  }
+  
+  return signals;
+}
+
+function parseListUnsubscribe(value: string, post: string | null): ListUnsubscribe {
+  const targets = [...value.matchAll(/<([^<>]+)>/g)].map((match) => match[1].trim());
+  
+  return {
+    mailto: targets.find((target) => /^mailto:/i.test(target)) ?? null,
+    url: targets.find((target) => /^https?:/i.test(target)) ?? null,
+    one_click: /list-unsubscribe=one-click/i.test(post || ''),
+  };
+}
+
+/**
+ * Results from the topmost Authentication-Results header that has them (each relay adds
+ * its own on top, so the first is our receiving server's), with Received-SPF as the
+ * fallback for SPF
+ */
+function parseAuthentication(authResults: string[], receivedSpf: string | null): AuthenticationResults {
+  const results: AuthenticationResults = { spf: null, dkim: null, dmarc: null };
+  
+  for (const header of authResults) {
+    for (const match of header.matchAll(/\b(spf|dkim|dmarc)\s*=\s*([a-z]+)/gi)) {
+      const method = match[1].toLowerCase() as keyof AuthenticationResults;
+      const result = match[2].toLowerCase();
+      // Several DKIM signatures: one passing signature is enough
+      if (results[method] === null || (method === 'dkim' && result === 'pass')) {
+        results[method] = result;
+      }
+    }
+    if (results.spf || results.dkim || results.dmarc) {
+      break;
+    }
+  }
+  
+  if (!results.spf && receivedSpf) {
+    results.spf = token(receivedSpf);
+  }
+  
+  return results;
+}
+
+// Folded header lines continue on lines starting with whitespace
+function unfold(value: string): string {
+  return value.replace(/\r?\n[ \t]+/g, ' ').trim();
+}
+
+// First word of a header value, lowercased ("Bulk", "auto-replied; reason=...")
+function token(value: string | null): string | null {
+  const word = value?.match(/^[^\s;(]+/)?.[0];
+  return word ? word.toLowerCase() : null;
+}
@@ -0,0 +1,52 @@
+import { createClient } from '@supabase/supabase-js';
+import { config, validateConfig } from './config';
+import { MailImporter } from './mail-importer';
+
+/**
+ * Import an .mbox file, an .eml file or a directory of .eml files into an inbox
+ * (legacy-system migrations, realistic test data without a Nylas grant).
+ *
+ * Usage:
+ *   yarn import-mail <inbox_id> <path>
+ */
+async function main() {
+  const [inboxId, path] = process.argv.slice(2);
+  
+  if (!inboxId || !path) {
+    console.error('Usage: import-mail <inbox_id> <file.mbox | file.eml | directory of .eml files>');
+    process.exit(1);
+  }
+  
+  // Imported mail never touches Nylas
+  validateConfig({ requireNylas: false });
+  
+  const supabase = createClient(
+    config.supabase.url,
+    config.supabase.serviceKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+  const importer = new MailImporter(supabase);
+  
+  const startTime = Date.now();
+  const result = await importer.importPath(inboxId, path);
+  
+  console.log(
+    `[Import] Done in ${Date.now() - startTime}ms - ${result.messagesImported} imported, ` +
+    `${result.messagesSkipped} already imported, ${result.messagesFailed} failed ` +
+    `(${result.messagesRead} messages in ${result.threads} threads)`
+  );
+  
+  if (result.messagesFailed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('[Import] Failed:', error);
+  process.exit(1);
+});
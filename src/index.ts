@@ -5,6 +5,9 @@ import { ThreadSyncProcessor } from './thread-sync-processor';
 import { CompletionMonitor } from './completion-monitor';
 import { ExtractionQueueProcessor } from './extraction-queue-processor';
 import { ExtractionWorker } from './extraction-worker';
+import { OutboxProcessor } from './outbox-processor';
+import { ReplyDraftWorker } from './reply-draft-worker';
+import { WebhookReceiver } from './webhook-receiver';
 
 let webhookProcessor: QueueProcessor | null = null;
 let backfillProcessor: BackfillProcessor | null = null;
@@ -12,6 +15,9 @@ let threadSyncProcessor: ThreadSyncProcessor | null = null;
 let completionMonitor: CompletionMonitor | null = null;
 let extractionQueueProcessor: ExtractionQueueProcessor | null = null;
 let extractionWorker: ExtractionWorker | null = null;
+let outboxProcessor: OutboxProcessor | null = null;
+let replyDraftWorker: ReplyDraftWorker | null = null;
+let webhookReceiver: WebhookReceiver | null = null;
 let isShuttingDown = false;
 
 async function main() {
@@ -65,10 +71,32 @@ async function main() {
         await extractionWorker.start();
         console.log('[Service] Extraction worker started (processes queue with LLM)');
         break;
+      
+      case 'outbox':
+        console.log('[Service] Starting outbox processor...');
+        outboxProcessor = new OutboxProcessor();
+        await outboxProcessor.start();
+        console.log('[Service] Outbox processor started (sends queued replies and new messages)');
+        break;
+      
+      case 'reply-drafts':
+        console.log('[Service] Starting reply draft worker...');
+        replyDraftWorker = new ReplyDraftWorker();
+        await replyDraftWorker.start();
+        console.log('[Service] Reply draft worker started (drafts replies for threads that expect one)');
+        break;
+      
+      case 'receiver':
+        // Optional HTTP entrypoint - not part of 'all', run it where Nylas can reach it
+        console.log('[Service] Starting webhook receiver...');
+        webhookReceiver = new WebhookReceiver();
+        await webhookReceiver.start();
+        console.log('[Service] Webhook receiver started (verifies and enqueues Nylas webhooks)');
+        break;
         
       case 'all':
       default:
-        // Run all six processors (default behavior for development)
+        // Run all eight processors (default behavior for development)
         console.log('[Service] Starting all processors...');
         webhookProcessor = new QueueProcessor();
         backfillProcessor = new BackfillProcessor();
@@ -76,6 +104,8 @@ async function main() {
         completionMonitor = new CompletionMonitor();
         extractionQueueProcessor = new ExtractionQueueProcessor();
         extractionWorker = new ExtractionWorker();
+        outboxProcessor = new OutboxProcessor();
+        replyDraftWorker = new ReplyDraftWorker();
         
         await Promise.all([
           webhookProcessor.start(),
@@ -83,17 +113,21 @@ async function main() {
           threadSyncProcessor.start(),
           completionMonitor.start(),
           extractionQueueProcessor.start(),
-          extractionWorker.start()
+          extractionWorker.start(),
+          outboxProcessor.start(),
+          replyDraftWorker.start()
         ]);
         
         console.log('[Service] Nova Email Service started successfully');
-        console.log('[Service] All six processors are running:');
+        console.log('[Service] All eight processors are running:');
         console.log('[Service] - Webhook processor (real-time notifications)');
         console.log('[Service] - Backfill processor (orchestrates thread discovery)');
         console.log('[Service] - Thread sync processor (syncs individual threads)');
         console.log('[Service] - Completion monitor (tracks progress & marks complete)');
         console.log('[Service] - Extraction queue processor (queues messages for AI extraction)');
         console.log('[Service] - Extraction worker (processes queue with LLM)');
+        console.log('[Service] - Outbox processor (sends queued replies and new messages)');
+        console.log('[Service] - Reply draft worker (drafts replies for threads that expect one)');
         break;
     }
     
@@ -113,7 +147,7 @@ async function shutdown(signal: string) {
   isShuttingDown = true;
   console.log(`\n[Service] Received ${signal}, shutting down gracefully...`);
   
-  // Stop all six processors in parallel
+  // Stop all eight processors in parallel
   const shutdownPromises = [];
   
   if (webhookProcessor) {
@@ -140,6 +174,18 @@ async function shutdown(signal: string) {
     shutdownPromises.push(extractionWorker.stop());
   }
   
+  if (outboxProcessor) {
+    shutdownPromises.push(outboxProcessor.stop());
+  }
+  
+  if (replyDraftWorker) {
+    shutdownPromises.push(replyDraftWorker.stop());
+  }
+  
+  if (webhookReceiver) {
+    shutdownPromises.push(webhookReceiver.stop());
+  }
+  
   await Promise.all(shutdownPromises);
   
   console.log('[Service] Shutdown complete');
@@ -0,0 +1,294 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createReadStream, promises as fs } from 'fs';
+import { basename, extname, join } from 'path';
+import { simpleParser } from 'mailparser';
+import { NylasSync } from './nylas-sync';
+import {
+  ImportedMail,
+  MailReferences,
+  MimeProvider,
+  assignThreads,
+  importIdPrefix,
+  messageKey,
+  referencedKeys,
+} from './mime-provider';
+
+// Imported mail has no grant; the id only reaches the MimeProvider
+const IMPORT_GRANT_ID = 'import';
+// Keeps .in() filters well inside URL length limits
+const ID_CHUNK_SIZE = 200;
+// Messages parsed and written at a time
+const IMPORT_BATCH_SIZE = 100;
+
+export interface ImportResult {
+  messagesRead: number;
+  messagesImported: number;
+  messagesSkipped: number; // Already imported
+  messagesFailed: number;
+  threads: number;
+}
+
+/**
+ * Imports an .mbox file, an .eml file or a directory of .eml files into an inbox.
+ *
+ * Messages are parsed and threaded by MimeProvider and written through NylasSync, so
+ * threads, aggregates, normalized bodies and attachments are stored exactly like synced
+ * mail. Re-importing the same files is a no-op. The extraction queue picks the new threads
+ * up like any other thread.
+ *
+ * The files are read twice, one message at a time: first the headers, to thread the whole
+ * import, then the full messages in batches of IMPORT_BATCH_SIZE, so an mbox of any size
+ * is imported in bounded memory.
+ */
+export class MailImporter {
+  constructor(private supabase: SupabaseClient) {}
+  
+  async importPath(inboxId: string, path: string): Promise<ImportResult> {
+    const { data: inbox, error } = await this.supabase
+      .from('support_inboxes')
+      .select('id')
+      .eq('id', inboxId)
+      .maybeSingle();
+    
+    if (error) {
+      throw new Error(`Failed to fetch inbox ${inboxId}: ${error.message}`);
+    }
+    
+    if (!inbox) {
+      throw new Error(`Inbox ${inboxId} not found`);
+    }
+    
+    const references: MailReferences[] = [];
+    for await (const { raw, source } of readRawMail(path)) {
+      try {
+        references.push(await readReferences(inboxId, raw));
+      } catch (error) {
+        console.error(`[Import] Could not parse ${source}, skipping:`, error);
+      }
+    }
+    console.log(`[Import] Parsed ${references.length} message(s) from ${path}`);
+    
+    const threadIds = assignThreads(references, await this.findKnownThreads(inboxId, references));
+    const alreadyImported = await this.findImported(inboxId, references.map((mail) => mail.key));
+    const result: ImportResult = {
+      messagesRead: references.length,
+      messagesImported: 0,
+      messagesSkipped: 0,
+      messagesFailed: 0,
+      threads: new Set(threadIds.values()).size,
+    };
+    
+    let batch: ImportedMail[] = [];
+    for await (const { raw, source } of readRawMail(path)) {
+      let imported: ImportedMail;
+      try {
+        // Keep cid: links - inlining images as data URIs would bloat the stored body
+        imported = { mail: await simpleParser(raw, { keepCidLinks: true }), raw, source };
+      } catch {
+        // Already reported while threading
+        continue;
+      }
+      
+      const key = messageKey(inboxId, imported.mail, raw);
+      if (!threadIds.has(key)) {
+        continue;
+      }
+      
+      if (alreadyImported.has(key)) {
+        result.messagesSkipped++;
+        continue;
+      }
+      
+      batch.push(imported);
+      if (batch.length >= IMPORT_BATCH_SIZE) {
+        await this.importBatch(inboxId, batch, threadIds, result);
+        batch = [];
+      }
+    }
+    await this.importBatch(inboxId, batch, threadIds, result);
+    
+    return result;
+  }
+  
+  /**
+   * Write a batch of messages. A new thread is written with the batch's messages on its first
+   * syncMessage (the others are then skipped as existing); messages of a thread written by an
+   * earlier batch or import are added to it.
+   */
+  private async importBatch(
+    inboxId: string,
+    batch: ImportedMail[],
+    threadIds: Map<string, string>,
+    result: ImportResult
+  ): Promise<void> {
+    const provider = new MimeProvider(inboxId, batch, threadIds);
+    const sync = new NylasSync(this.supabase, provider);
+    
+    for (const message of provider.getMessages()) {
+      try {
+        await sync.syncMessage(IMPORT_GRANT_ID, inboxId, message.id);
+        result.messagesImported++;
+      } catch (error) {
+        // Don't throw - one bad message shouldn't stop the import
+        console.error(`[Import] Error importing message ${message.id} (${message.metadata?.imported_from}):`, error);
+        result.messagesFailed++;
+      }
+    }
+  }
+  
+  /**
+   * Threads of messages already in the inbox that this import references: previously imported
+   * messages by id, synced messages by their parsed Message-ID header
+   */
+  private async findKnownThreads(inboxId: string, mails: MailReferences[]): Promise<Map<string, string>> {
+    const keys = [...new Set(mails.flatMap((mail) => [mail.key, ...mail.references]))];
+    const prefix = importIdPrefix(inboxId);
+    const knownThreads = new Map<string, string>();
+    
+    for (let i = 0; i < keys.length; i += ID_CHUNK_SIZE) {
+      const chunk = keys.slice(i, i + ID_CHUNK_SIZE);
+      
+      const { data: imported, error: importedError } = await this.supabase
+        .from('support_email_messages')
+        .select<string, any>('nylas_message_id, support_email_threads!inner(nylas_thread_id, inbox_id)')
+        .eq('support_email_threads.inbox_id', inboxId)
+        .in('nylas_message_id', chunk);
+      
+      if (importedError) {
+        throw new Error(`Failed to look up imported messages: ${importedError.message}`);
+      }
+      
+      for (const row of imported || []) {
+        knownThreads.set(row.nylas_message_id, row.support_email_threads.nylas_thread_id);
+      }
+      
+      const { data: synced, error: syncedError } = await this.supabase
+        .from('support_email_messages')
+        .select<string, any>('parsed_headers->>message_id, support_email_threads!inner(nylas_thread_id, inbox_id)')
+        .eq('support_email_threads.inbox_id', inboxId)
+        .in('parsed_headers->>message_id', chunk.map((key) => key.substring(prefix.length)));
+      
+      if (syncedError) {
+        throw new Error(`Failed to look up synced messages: ${syncedError.message}`);
+      }
+      
+      for (const row of synced || []) {
+        const key = prefix + row.message_id;
+        // An earlier import of the same message wins
+        if (!knownThreads.has(key)) {
+          knownThreads.set(key, row.support_email_threads.nylas_thread_id);
+        }
+      }
+    }
+    
+    return knownThreads;
+  }
+  
+  private async findImported(inboxId: string, messageIds: string[]): Promise<Set<string>> {
+    const imported = new Set<string>();
+    
+    for (let i = 0; i < messageIds.length; i += ID_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from('support_email_messages')
+        .select('nylas_message_id, support_email_threads!inner(inbox_id)')
+        .eq('support_email_threads.inbox_id', inboxId)
+        .in('nylas_message_id', messageIds.slice(i, i + ID_CHUNK_SIZE));
+      
+      if (error) {
+        throw new Error(`Failed to look up imported messages: ${error.message}`);
+      }
+      
+      for (const row of data || []) {
+        imported.add(row.nylas_message_id);
+      }
+    }
+    
+    return imported;
+  }
+}
+
+/**
+ * The raw messages of an import path, one at a time: each .eml file of a directory (in name
+ * order), the messages of an .mbox file, or a single .eml file
+ */
+async function* readRawMail(path: string): AsyncGenerator<{ raw: Buffer; source: string }> {
+  const stat = await fs.stat(path);
+  
+  if (stat.isDirectory()) {
+    const files = (await fs.readdir(path))
+      .filter((file) => extname(file).toLowerCase() === '.eml')
+      .sort();
+    for (const file of files) {
+      yield { raw: await fs.readFile(join(path, file)), source: file };
+    }
+  } else if (extname(path).toLowerCase() === '.mbox') {
+    let index = 0;
+    for await (const raw of readMbox(path)) {
+      yield { raw, source: `${basename(path)}#${++index}` };
+    }
+  } else {
+    yield { raw: await fs.readFile(path), source: basename(path) };
+  }
+}
+
+/**
+ * Message id, references and date of a raw message, from its header block only
+ */
+async function readReferences(inboxId: string, raw: Buffer): Promise<MailReferences> {
+  const mail = await simpleParser(headerBlock(raw));
+  
+  return {
+    key: messageKey(inboxId, mail, raw),
+    references: referencedKeys(inboxId, mail),
+    date: mail.date || null,
+  };
+}
+
+function headerBlock(raw: Buffer): Buffer {
+  const crlf = raw.indexOf('\r\n\r\n');
+  const lf = raw.indexOf('\n\n');
+  const ends = [crlf, lf].filter((index) => index >= 0);
+  return ends.length > 0 ? raw.subarray(0, Math.min(...ends)) : raw;
+}
+
+/**
+ * Stream the messages of an mbox file, split on its "From " separator lines, undoing mboxrd
+ * ">From " quoting
+ */
+export async function* readMbox(path: string): AsyncGenerator<Buffer> {
+  // latin1 maps bytes 1:1, so non-UTF-8 parts survive the round trip
+  const stream = createReadStream(path, { encoding: 'latin1' });
+  let partialLine = '';
+  let lines: string[] = [];
+  
+  const message = () => {
+    const text = lines.join('');
+    lines = [];
+    return text.trim() ? Buffer.from(text, 'latin1') : null;
+  };
+  
+  for await (const chunk of stream as AsyncIterable<string>) {
+    const text = partialLine + chunk;
+    const lastNewline = text.lastIndexOf('\n');
+    partialLine = text.substring(lastNewline + 1);
+    
+    for (const line of text.substring(0, lastNewline + 1).split(/(?<=\n)/)) {
+      if (line.startsWith('From ')) {
+        const raw = message();
+        if (raw) {
+          yield raw;
+        }
+        continue;
+      }
+      lines.push(line.replace(/^>(>*From )/, '$1'));
+    }
+  }
+  
+  if (partialLine && !partialLine.startsWith('From ')) {
+    lines.push(partialLine.replace(/^>(>*From )/, '$1'));
+  }
+  const raw = message();
+  if (raw) {
+    yield raw;
+  }
+}
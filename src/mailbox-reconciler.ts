@@ -0,0 +1,439 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { config } from './config';
+import { EmailProvider, createEmailProvider } from './email-provider';
+import { NylasSync } from './nylas-sync';
+import { BackfillScheduler } from './backfill-scheduler';
+import { FolderPolicies, FolderPolicy, allowsFolders } from './folder-policy';
+
+export interface ReconcileOptions {
+  windowDays: number;
+  // Queue thread syncs for missing/partial threads and soft-delete confirmed orphans
+  fix: boolean;
+}
+
+export interface DriftReport {
+  inbox_id: string;
+  window_start: string;
+  window_end: string;
+  nylas_threads: number;
+  nylas_messages: number;
+  db_threads: number;
+  db_messages: number;
+  missing_threads: number;
+  partial_threads: number;
+  missing_messages: number;
+  orphaned_threads: number;
+  orphaned_messages: number;
+  total_drift: number;
+  sample_ids: Record<string, string[]>;
+  fix_applied: boolean;
+  threads_queued: number;
+  threads_soft_deleted: number;
+  messages_soft_deleted: number;
+  error_message: string | null;
+  duration_ms: number;
+}
+
+interface ReconcileInbox {
+  id: string;
+  nylas_grant_id: string;
+}
+
+interface StoredMessage {
+  nylas_message_id: string;
+  nylas_thread_id: string;
+}
+
+interface NylasMessageRef {
+  threadId: string;
+  folders: string[];
+}
+
+const PAGE_SIZE = 200;
+const DB_PAGE_SIZE = 1000;
+// Keeps .in() filters well inside URL length limits
+const ID_CHUNK_SIZE = 200;
+const SAMPLE_SIZE = 10;
+
+/**
+ * Compares a rolling window of each mailbox with what Nylas has and writes a drift report to
+ * mailbox_drift_reports.
+ *
+ * - missing / partial threads: Nylas has messages we never stored. Fixed by queueing a
+ *   catch-up thread sync (BackfillScheduler.queueThreadSyncs), the same path gap fill uses.
+ * - orphans: live rows whose Nylas thread or message is gone (a missed *.deleted webhook).
+ *   Each candidate is confirmed with a find call before it counts, and fixed by soft-deleting.
+ *
+ * Rows we soft-deleted count as present: the deletion came from Nylas and is not drift.
+ * Threads we never stored that the inbox's folder policy keeps out aren't drift either.
+ */
+export class MailboxReconciler {
+  private provider: EmailProvider;
+  private nylasSync: NylasSync;
+  private folderPolicies: FolderPolicies;
+  private scheduler: BackfillScheduler;
+  
+  constructor(private supabase: SupabaseClient) {
+    this.provider = createEmailProvider();
+    this.nylasSync = new NylasSync(supabase, this.provider);
+    this.folderPolicies = new FolderPolicies(supabase);
+    this.scheduler = new BackfillScheduler(supabase);
+  }
+  
+  /**
+   * Reconcile every connected inbox. Inboxes with a running or paused backfill are skipped - they are
+   * expected to be incomplete until it finishes.
+   */
+  async reconcileAll(options: ReconcileOptions): Promise<DriftReport[]> {
+    const { data, error } = await this.supabase
+      .from('support_inboxes')
+      .select('id, nylas_grant_id')
+      .not('nylas_grant_id', 'is', null)
+      .not('status', 'in', '(auth_expired,disconnected)');
+    
+    if (error) {
+      throw new Error(`Failed to fetch inboxes for reconciliation: ${error.message}`);
+    }
+    
+    const reports: DriftReport[] = [];
+    for (const inbox of (data || []) as ReconcileInbox[]) {
+      try {
+        const report = await this.reconcileInbox(inbox.id, options);
+        if (report) {
+          reports.push(report);
+        }
+      } catch (error) {
+        // Don't throw - one failing inbox shouldn't stop the others
+        console.error(`[Reconcile] Error reconciling inbox ${inbox.id}:`, error);
+      }
+    }
+    
+    return reports;
+  }
+  
+  /**
+   * Reconcile one inbox. Returns null when the inbox was skipped.
+   */
+  async reconcileInbox(inboxId: string, options: ReconcileOptions): Promise<DriftReport | null> {
+    const startTime = Date.now();
+    
+    const { data: inbox, error: inboxError } = await this.supabase
+      .from('support_inboxes')
+      .select('id, nylas_grant_id')
+      .eq('id', inboxId)
+      .maybeSingle();
+    
+    if (inboxError) {
+      throw new Error(`Failed to fetch inbox ${inboxId}: ${inboxError.message}`);
+    }
+    
+    if (!inbox?.nylas_grant_id) {
+      console.log(`[Reconcile] Inbox ${inboxId} has no grant, skipping`);
+      return null;
+    }
+    
+    if (await this.scheduler.hasUnfinishedBackfill(inboxId)) {
+      console.log(`[Reconcile] Inbox ${inboxId} has a running or paused backfill, skipping`);
+      return null;
+    }
+    
+    const grantId: string = inbox.nylas_grant_id;
+    // Leave recent messages alone - their webhooks may still be in the queue
+    const windowEnd = new Date(startTime - config.reconcile.settleMs);
+    const windowStart = new Date(windowEnd.getTime() - options.windowDays * 24 * 60 * 60 * 1000);
+    
+    // Nylas side
+    const nylasThreads = await this.listNylasThreads(grantId, windowStart, windowEnd);
+    const nylasMessages = await this.listNylasMessages(grantId, windowStart, windowEnd);
+    const allNylasThreadIds = new Set([
+      ...nylasThreads.keys(),
+      ...[...nylasMessages.values()].map((message) => message.threadId).filter(Boolean),
+    ]);
+    
+    // What we have of it (including soft-deleted rows)
+    const storedThreadIds = await this.findStored('support_email_threads', 'nylas_thread_id', [...allNylasThreadIds]);
+    const storedMessageIds = await this.findStored('support_email_messages', 'nylas_message_id', [...nylasMessages.keys()]);
+    
+    // New threads the folder policy keeps out - the sync would skip them too
+    const folderPolicy = await this.folderPolicies.forInbox(inboxId);
+    const excludedThreadIds = new Set([...allNylasThreadIds].filter((id) =>
+      !storedThreadIds.has(id) && !this.threadAllowed(id, folderPolicy, nylasThreads, nylasMessages)
+    ));
+    
+    const missingMessages = [...nylasMessages.keys()].filter((id) =>
+      !storedMessageIds.has(id) && !excludedThreadIds.has(nylasMessages.get(id)!.threadId)
+    );
+    const missingThreads = [...allNylasThreadIds].filter((id) => !storedThreadIds.has(id) && !excludedThreadIds.has(id));
+    const partialThreads = [...new Set(missingMessages.map((id) => nylasMessages.get(id)!.threadId))]
+      .filter((threadId) => storedThreadIds.has(threadId));
+    
+    // Our side: live rows in the window that Nylas didn't list
+    const dbThreadIds = await this.listDbThreads(inboxId, windowStart, windowEnd);
+    const dbMessages = await this.listDbMessages(inboxId, windowStart, windowEnd);
+    
+    const orphanedThreads = await this.confirmOrphans(
+      dbThreadIds.filter((id) => !allNylasThreadIds.has(id)),
+      (id) => this.threadExists(grantId, id)
+    );
+    const orphanedMessages = await this.confirmOrphans(
+      dbMessages.filter((m) => !nylasMessages.has(m.nylas_message_id)).map((m) => m.nylas_message_id),
+      (id) => this.messageExists(grantId, id)
+    );
+    
+    const report: DriftReport = {
+      inbox_id: inboxId,
+      window_start: windowStart.toISOString(),
+      window_end: windowEnd.toISOString(),
+      nylas_threads: allNylasThreadIds.size,
+      nylas_messages: nylasMessages.size,
+      db_threads: dbThreadIds.length,
+      db_messages: dbMessages.length,
+      missing_threads: missingThreads.length,
+      partial_threads: partialThreads.length,
+      missing_messages: missingMessages.length,
+      orphaned_threads: orphanedThreads.length,
+      orphaned_messages: orphanedMessages.length,
+      total_drift: missingThreads.length + partialThreads.length + missingMessages.length
+        + orphanedThreads.length + orphanedMessages.length,
+      sample_ids: {
+        missing_threads: missingThreads.slice(0, SAMPLE_SIZE),
+        partial_threads: partialThreads.slice(0, SAMPLE_SIZE),
+        missing_messages: missingMessages.slice(0, SAMPLE_SIZE),
+        orphaned_threads: orphanedThreads.slice(0, SAMPLE_SIZE),
+        orphaned_messages: orphanedMessages.slice(0, SAMPLE_SIZE),
+      },
+      fix_applied: false,
+      threads_queued: 0,
+      threads_soft_deleted: 0,
+      messages_soft_deleted: 0,
+      error_message: null,
+      duration_ms: 0,
+    };
+    
+    if (options.fix && report.total_drift > 0) {
+      const orphanedMessageIds = new Set(orphanedMessages);
+      try {
+        await this.applyFix(report, inboxId, grantId, {
+          threadsToSync: [...missingThreads, ...partialThreads],
+          orphanedThreads,
+          orphanedMessages: dbMessages.filter((m) => orphanedMessageIds.has(m.nylas_message_id)),
+        });
+      } catch (error) {
+        // Don't throw - the report is still worth recording
+        console.error(`[Reconcile] Error fixing drift for inbox ${inboxId}:`, error);
+        report.error_message = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+    
+    report.duration_ms = Date.now() - startTime;
+    await this.saveReport(report);
+    
+    return report;
+  }
+  
+  private async applyFix(
+    report: DriftReport,
+    inboxId: string,
+    grantId: string,
+    drift: { threadsToSync: string[]; orphanedThreads: string[]; orphanedMessages: StoredMessage[] }
+  ): Promise<void> {
+    report.fix_applied = true;
+    
+    // Threads that already have a catch-up sync waiting aren't queued again
+    report.threads_queued = await this.scheduler.queueThreadSyncs(inboxId, grantId, drift.threadsToSync, 'reconcile');
+    
+    const deletedThreads = new Set<string>();
+    for (const threadId of drift.orphanedThreads) {
+      await this.nylasSync.deleteThread(threadId);
+      deletedThreads.add(threadId);
+      report.threads_soft_deleted++;
+    }
+    
+    for (const message of drift.orphanedMessages) {
+      // Already gone with its thread
+      if (deletedThreads.has(message.nylas_thread_id)) {
+        continue;
+      }
+      await this.nylasSync.deleteMessage(message.nylas_message_id);
+      report.messages_soft_deleted++;
+    }
+  }
+  
+  /**
+   * Threads active in the window, as thread id -> folders
+   */
+  private async listNylasThreads(grantId: string, windowStart: Date, windowEnd: Date): Promise<Map<string, string[]>> {
+    const threads = new Map<string, string[]>();
+    let pageToken: string | undefined;
+    
+    do {
+      const response = await this.provider.listThreads(grantId, {
+        limit: PAGE_SIZE,
+        latestMessageAfter: windowStart,
+        latestMessageBefore: windowEnd,
+        pageToken,
+      });
+      
+      for (const thread of response.data) {
+        threads.set(thread.id, thread.folders);
+      }
+      pageToken = response.nextCursor;
+    } while (pageToken);
+    
+    return threads;
+  }
+  
+  /**
+   * Messages received in the window, as message id -> thread id and folders
+   */
+  private async listNylasMessages(grantId: string, windowStart: Date, windowEnd: Date): Promise<Map<string, NylasMessageRef>> {
+    const messages = new Map<string, NylasMessageRef>();
+    let pageToken: string | undefined;
+    
+    do {
+      const response = await this.provider.listMessages(grantId, {
+        limit: PAGE_SIZE,
+        receivedAfter: windowStart,
+        receivedBefore: windowEnd,
+        pageToken,
+      });
+      
+      for (const message of response.data) {
+        messages.set(message.id, { threadId: message.threadId || '', folders: message.folders });
+      }
+      pageToken = response.nextCursor;
+    } while (pageToken);
+    
+    return messages;
+  }
+  
+  /**
+   * Whether the folder policy admits a thread: by the thread's folders when it was listed,
+   * otherwise when any of its listed messages is in an allowed folder
+   */
+  private threadAllowed(
+    threadId: string,
+    policy: FolderPolicy,
+    threads: Map<string, string[]>,
+    messages: Map<string, NylasMessageRef>
+  ): boolean {
+    const folders = threads.get(threadId);
+    if (folders) {
+      return allowsFolders(policy, folders);
+    }
+    
+    return [...messages.values()].some((message) =>
+      message.threadId === threadId && allowsFolders(policy, message.folders)
+    );
+  }
+  
+  /**
+   * Which of the Nylas ids have a row, soft-deleted or not
+   */
+  private async findStored(table: string, column: string, ids: string[]): Promise<Set<string>> {
+    const stored = new Set<string>();
+    
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from(table)
+        .select<string, any>(column)
+        .in(column, ids.slice(i, i + ID_CHUNK_SIZE));
+      
+      if (error) {
+        throw new Error(`Failed to check stored ${table}: ${error.message}`);
+      }
+      
+      for (const row of data || []) {
+        stored.add(row[column]);
+      }
+    }
+    
+    return stored;
+  }
+  
+  private async listDbThreads(inboxId: string, windowStart: Date, windowEnd: Date): Promise<string[]> {
+    const threadIds: string[] = [];
+    
+    for (let from = 0; ; from += DB_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('support_email_threads')
+        .select('nylas_thread_id')
+        .eq('inbox_id', inboxId)
+        .is('deleted_at', null)
+        .gte('latest_message_received_date', windowStart.toISOString())
+        .lt('latest_message_received_date', windowEnd.toISOString())
+        .order('id')
+        .range(from, from + DB_PAGE_SIZE - 1);
+      
+      if (error) {
+        throw new Error(`Failed to list threads for inbox ${inboxId}: ${error.message}`);
+      }
+      
+      threadIds.push(...(data || []).map((row) => row.nylas_thread_id));
+      if (!data || data.length < DB_PAGE_SIZE) {
+        return threadIds;
+      }
+    }
+  }
+  
+  private async listDbMessages(inboxId: string, windowStart: Date, windowEnd: Date): Promise<StoredMessage[]> {
+    const messages: StoredMessage[] = [];
+    
+    for (let from = 0; ; from += DB_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('support_email_messages')
+        .select<string, any>('nylas_message_id, support_email_threads!inner(inbox_id, nylas_thread_id)')
+        .eq('support_email_threads.inbox_id', inboxId)
+        .is('deleted_at', null)
+        .gte('received_date', windowStart.toISOString())
+        .lt('received_date', windowEnd.toISOString())
+        .order('id')
+        .range(from, from + DB_PAGE_SIZE - 1);
+      
+      if (error) {
+        throw new Error(`Failed to list messages for inbox ${inboxId}: ${error.message}`);
+      }
+      
+      messages.push(...(data || []).map((row) => ({
+        nylas_message_id: row.nylas_message_id,
+        nylas_thread_id: row.support_email_threads.nylas_thread_id,
+      })));
+      if (!data || data.length < DB_PAGE_SIZE) {
+        return messages;
+      }
+    }
+  }
+  
+  /**
+   * Candidates that Nylas confirms are gone. A row can be missing from the list only because
+   * it changed while we were listing (e.g. a new message moved the thread out of the window).
+   */
+  private async confirmOrphans(candidates: string[], exists: (id: string) => Promise<boolean>): Promise<string[]> {
+    const orphans: string[] = [];
+    for (const id of candidates) {
+      if (!(await exists(id))) {
+        orphans.push(id);
+      }
+    }
+    return orphans;
+  }
+  
+  private async threadExists(grantId: string, threadId: string): Promise<boolean> {
+    return (await this.provider.getThread(grantId, threadId)) !== null;
+  }
+  
+  private async messageExists(grantId: string, messageId: string): Promise<boolean> {
+    return (await this.provider.getMessage(grantId, messageId)) !== null;
+  }
+  
+  private async saveReport(report: DriftReport): Promise<void> {
+    const { error } = await this.supabase
+      .from('mailbox_drift_reports')
+      .insert(report);
+    
+    if (error) {
+      // Don't throw - the caller still gets the report
+      console.error(`[Reconcile] Error saving drift report for inbox ${report.inbox_id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,278 @@
+import { createHash } from 'crypto';
+import { AddressObject, ParsedMail } from 'mailparser';
+import { textToHtml } from './body-normalizer';
+import {
+  EmailAddress,
+  EmailProvider,
+  ListMessagesParams,
+  ListThreadsParams,
+  ProviderMessage,
+  ProviderPage,
+  ProviderThread,
+} from './email-provider';
+import { parseMessageIds } from './header-parser';
+import { inRange, paginate } from './provider-paging';
+
+// Ids of imported messages and threads are prefixed so they can't collide with Nylas ids,
+// and scoped to the inbox so the same mail imported into two inboxes stays separate
+export const IMPORT_ID_PREFIX = 'import:';
+
+export interface ImportedMail {
+  mail: ParsedMail;
+  raw: Buffer;
+  source: string; // File (and position, for mbox) the message came from
+}
+
+/**
+ * What threading needs from a message: its id (messageKey) and the ids it references
+ */
+export interface MailReferences {
+  key: string;
+  references: string[];
+  date: Date | null;
+}
+
+/**
+ * EmailProvider over parsed MIME messages (.eml / .mbox imports), so imported mail goes
+ * through the same NylasSync path as synced mail.
+ *
+ * An import is usually larger than what fits in memory, so the provider holds one batch of
+ * it; threadIds (from assignThreads over the whole import) places each message in its thread.
+ */
+export class MimeProvider implements EmailProvider {
+  readonly name = 'import';
+  private messages: ProviderMessage[] = [];
+  private threads: ProviderThread[] = [];
+  private attachmentContent = new Map<string, Buffer>();
+  private stats = { requests: 0 };
+  
+  constructor(inboxId: string, mails: ImportedMail[], threadIds: Map<string, string>) {
+    for (const imported of mails) {
+      const id = messageKey(inboxId, imported.mail, imported.raw);
+      this.messages.push(this.toMessage(imported, id, threadIds.get(id)!));
+    }
+    
+    const byThread = new Map<string, ProviderMessage[]>();
+    for (const message of this.messages) {
+      byThread.set(message.threadId!, [...(byThread.get(message.threadId!) || []), message]);
+    }
+    
+    for (const [threadId, messages] of byThread) {
+      this.threads.push(toThread(threadId, messages));
+    }
+  }
+  
+  async listThreads(_grantId: string, params: ListThreadsParams): Promise<ProviderPage<ProviderThread>> {
+    this.stats.requests++;
+    const threads = this.threads.filter((thread) =>
+      inRange(thread.latestMessageAt, params.latestMessageAfter, params.latestMessageBefore)
+    );
+    return paginate(threads, params.limit, params.pageToken);
+  }
+  
+  async getThread(_grantId: string, threadId: string): Promise<ProviderThread | null> {
+    this.stats.requests++;
+    return this.threads.find((thread) => thread.id === threadId) || null;
+  }
+  
+  async listMessages(_grantId: string, params: ListMessagesParams): Promise<ProviderPage<ProviderMessage>> {
+    this.stats.requests++;
+    const messages = this.messages
+      .filter((message) => !params.threadId || message.threadId === params.threadId)
+      .filter((message) => inRange(message.receivedAt, params.receivedAfter, params.receivedBefore));
+    return paginate(messages, params.limit, params.pageToken);
+  }
+  
+  async getMessage(_grantId: string, messageId: string): Promise<ProviderMessage | null> {
+    this.stats.requests++;
+    return this.messages.find((message) => message.id === messageId) || null;
+  }
+  
+  async downloadAttachment(_grantId: string, _messageId: string, attachmentId: string): Promise<Buffer> {
+    this.stats.requests++;
+    const content = this.attachmentContent.get(attachmentId);
+    if (!content) {
+      throw new Error(`Attachment ${attachmentId} is not part of this import`);
+    }
+    return content;
+  }
+  
+  getStats(): Record<string, number> {
+    return { ...this.stats };
+  }
+  
+  getMessages(): ProviderMessage[] {
+    return this.messages;
+  }
+  
+  private toMessage(imported: ImportedMail, id: string, threadId: string): ProviderMessage {
+    const { mail } = imported;
+    const text = mail.text || '';
+    
+    const attachments = mail.attachments.map((attachment, index) => {
+      const attachmentId = `${id}#${index}`;
+      this.attachmentContent.set(attachmentId, attachment.content);
+      return {
+        id: attachmentId,
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        contentId: attachment.cid,
+        isInline: attachment.contentDisposition === 'inline',
+      };
+    });
+    
+    return {
+      id,
+      threadId,
+      subject: mail.subject || null,
+      from: addresses(mail.from),
+      to: addresses(mail.to),
+      cc: addresses(mail.cc),
+      bcc: addresses(mail.bcc),
+      replyTo: addresses(mail.replyTo),
+      body: mail.html || textToHtml(text),
+      snippet: text.replace(/\s+/g, ' ').trim().substring(0, 200),
+      receivedAt: mail.date || null,
+      // Historical mail - nothing to triage as new
+      unread: false,
+      starred: false,
+      folders: folders(mail),
+      attachments,
+      headers: mail.headerLines.map((header) => ({
+        name: header.line.substring(0, header.line.indexOf(':')).trim(),
+        value: header.line.substring(header.line.indexOf(':') + 1).trim(),
+      })),
+      inReplyTo: mail.inReplyTo || null,
+      metadata: { imported_from: imported.source },
+      trackingOptions: null,
+    };
+  }
+}
+
+/**
+ * Prefix of the ids of messages imported into an inbox
+ */
+export function importIdPrefix(inboxId: string): string {
+  return `${IMPORT_ID_PREFIX}${inboxId}:`;
+}
+
+/**
+ * Stable id for an imported message: its Message-ID, or a hash of the raw message without one
+ */
+export function messageKey(inboxId: string, mail: ParsedMail, raw: Buffer): string {
+  const messageId = parseMessageIds(mail.messageId)[0];
+  return importIdPrefix(inboxId) + (messageId || `sha256:${createHash('sha256').update(raw).digest('hex')}`);
+}
+
+/**
+ * Ids (in messageKey form) of the messages this one replies to or references
+ */
+export function referencedKeys(inboxId: string, mail: ParsedMail): string[] {
+  const references = Array.isArray(mail.references) ? mail.references.join(' ') : mail.references;
+  
+  return [...parseMessageIds(references), ...parseMessageIds(mail.inReplyTo)]
+    .map((id) => importIdPrefix(inboxId) + id);
+}
+
+/**
+ * Group messages that reference each other (union-find over message ids) and give each group
+ * a thread id: the existing thread of any member already in the inbox (knownThreads, keyed by
+ * messageKey), otherwise one derived from the group's earliest message. Returns the thread id
+ * of every message by key.
+ */
+export function assignThreads(mails: MailReferences[], knownThreads: Map<string, string>): Map<string, string> {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.has(root) && parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(key, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) {
+      parent.set(rootB, rootA);
+    }
+  };
+  
+  for (const { key, references } of mails) {
+    find(key);
+    for (const reference of references) {
+      union(key, reference);
+    }
+  }
+  
+  // Earliest message first, so the group's thread id comes from the conversation start
+  const chronological = [...mails].sort((a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0));
+  
+  const groupThread = new Map<string, string>();
+  for (const [key, threadId] of knownThreads) {
+    if (parent.has(key)) {
+      groupThread.set(find(key), threadId);
+    }
+  }
+  for (const { key } of chronological) {
+    const root = find(key);
+    if (!groupThread.has(root)) {
+      groupThread.set(root, `${key}#thread`);
+    }
+  }
+  
+  const threadIds = new Map<string, string>();
+  for (const { key } of mails) {
+    threadIds.set(key, groupThread.get(find(key))!);
+  }
+  return threadIds;
+}
+
+function toThread(threadId: string, messages: ProviderMessage[]): ProviderThread {
+  const sorted = [...messages].sort((a, b) => (a.receivedAt?.getTime() ?? 0) - (b.receivedAt?.getTime() ?? 0));
+  const latest = sorted[sorted.length - 1];
+  
+  const participants = new Map<string, EmailAddress>();
+  for (const address of sorted.flatMap((message) => [...message.from, ...message.to, ...message.cc])) {
+    participants.set(address.email.toLowerCase(), address);
+  }
+  
+  return {
+    id: threadId,
+    subject: sorted[0].subject,
+    snippet: latest.snippet,
+    participants: [...participants.values()],
+    latestMessageAt: latest.receivedAt,
+    unread: false,
+    starred: false,
+    folders: [...new Set(sorted.flatMap((message) => message.folders))],
+    messageIds: sorted.map((message) => message.id),
+  };
+}
+
+function addresses(field?: AddressObject | AddressObject[]): EmailAddress[] {
+  const objects = Array.isArray(field) ? field : field ? [field] : [];
+  
+  return objects
+    .flatMap((object) => object.value)
+    // Groups carry their members in .group
+    .flatMap((address) => address.group || [address])
+    .filter((address) => !!address.address)
+    .map((address) => ({
+      ...(address.name && { name: address.name }),
+      email: address.address!,
+    }));
+}
+
+/**
+ * Folders from our own exports (X-Folders) or Gmail Takeout labels (X-Gmail-Labels);
+ * anything else lands in INBOX
+ */
+function folders(mail: ParsedMail): string[] {
+  const labels = mail.headers.get('x-folders') || mail.headers.get('x-gmail-labels');
+  if (typeof labels === 'string' && labels.trim()) {
+    return labels.split(',').map((label) => label.trim()).filter(Boolean);
+  }
+  return ['INBOX'];
+}
@@ -0,0 +1,155 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Minimal RFC 5322 / MIME writer for exports: a stored message becomes a multipart/mixed
+ * message with a text + HTML alternative body and its attachments, all base64 encoded.
+ */
+
+export interface MimeAddress {
+  name?: string;
+  email: string;
+}
+
+export interface MimeAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  contentId?: string | null;
+  isInline?: boolean;
+}
+
+export interface MimeMessage {
+  messageId: string;
+  inReplyTo?: string | null;
+  references?: string | null;
+  from: MimeAddress[];
+  to: MimeAddress[];
+  cc: MimeAddress[];
+  bcc: MimeAddress[];
+  replyTo: MimeAddress[];
+  subject: string;
+  date: Date;
+  html: string;
+  text: string;
+  attachments: MimeAttachment[];
+  // Extra headers written as-is (e.g. X-Folders)
+  extraHeaders?: Array<[string, string]>;
+}
+
+const CRLF = '\r\n';
+
+export function buildEml(message: MimeMessage): Buffer {
+  const headers: Array<[string, string]> = [
+    ['Message-ID', wrapMessageId(message.messageId)],
+    ['Date', formatDate(message.date)],
+    ['From', formatAddresses(message.from)],
+    ['To', formatAddresses(message.to)],
+    ['Cc', formatAddresses(message.cc)],
+    ['Bcc', formatAddresses(message.bcc)],
+    ['Reply-To', formatAddresses(message.replyTo)],
+    ['Subject', encodeWord(message.subject)],
+    ['In-Reply-To', message.inReplyTo ? wrapMessageId(message.inReplyTo) : ''],
+    ['References', message.references || ''],
+    ['MIME-Version', '1.0'],
+    ...(message.extraHeaders || []),
+  ];
+  
+  const alternative = multipart('alternative', [
+    part('text/plain; charset=utf-8', Buffer.from(message.text, 'utf8')),
+    part('text/html; charset=utf-8', Buffer.from(message.html, 'utf8')),
+  ]);
+  
+  const body = message.attachments.length === 0
+    ? alternative
+    : multipart('mixed', [
+      alternative,
+      ...message.attachments.map((attachment) => part(
+        `${attachment.contentType}; name="${encodeParam(attachment.filename)}"`,
+        attachment.content,
+        [
+          ['Content-Disposition', `${attachment.isInline ? 'inline' : 'attachment'}; filename="${encodeParam(attachment.filename)}"`],
+          ...(attachment.contentId ? [['Content-ID', wrapMessageId(attachment.contentId)] as [string, string]] : []),
+        ]
+      )),
+    ]);
+  
+  const headerText = headers
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(CRLF);
+  
+  return Buffer.from(headerText + CRLF + body, 'utf8');
+}
+
+/**
+ * Append a message to an mbox (mboxrd): "From " separator line, LF line endings,
+ * body lines starting with (>*)From quoted with one more '>'
+ */
+export function toMboxEntry(eml: Buffer, sender: string | undefined, date: Date): string {
+  const content = eml.toString('utf8')
+    .replace(/\r\n/g, '\n')
+    .replace(/^(>*From )/gm, '>$1');
+  
+  return `From ${sender || 'MAILER-DAEMON'} ${asctime(date)}\n${content}\n\n`;
+}
+
+// Headers section of one part (plus the blank line), then the content
+function part(contentType: string, content: Buffer, headers: Array<[string, string]> = []): string {
+  return [
+    `Content-Type: ${contentType}`,
+    'Content-Transfer-Encoding: base64',
+    ...headers.map(([name, value]) => `${name}: ${value}`),
+    '',
+    content.toString('base64').replace(/.{1,76}/g, (line) => line + CRLF).trimEnd(),
+    '',
+  ].join(CRLF);
+}
+
+function multipart(subtype: string, parts: string[]): string {
+  const boundary = `----=_Part_${randomBytes(12).toString('hex')}`;
+  
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    '',
+    ...parts.map((content) => `--${boundary}${CRLF}${content}`),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF);
+}
+
+function formatAddresses(addresses: MimeAddress[]): string {
+  return addresses
+    .filter((address) => address.email)
+    .map((address) => address.name
+      ? `${/^[\x20-\x7e]*$/.test(address.name) ? `"${address.name.replace(/(["\\])/g, '\\$1')}"` : encodeWord(address.name)} <${address.email}>`
+      : address.email)
+    .join(', ');
+}
+
+// RFC 2047 encoded-word for non-ASCII header text
+function encodeWord(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return text;
+  }
+  return `=?UTF-8?B?${Buffer.from(text, 'utf8').toString('base64')}?=`;
+}
+
+function encodeParam(value: string): string {
+  return encodeWord(value).replace(/"/g, "'");
+}
+
+function wrapMessageId(messageId: string): string {
+  const id = messageId.trim().replace(/^<|>$/g, '');
+  return `<${id}>`;
+}
+
+// RFC 5322 date, e.g. "Tue, 10 Mar 2026 09:15:00 +0000"
+function formatDate(date: Date): string {
+  return date.toUTCString().replace(/GMT$/, '+0000');
+}
+
+// asctime() format used on mbox separator lines, e.g. "Tue Mar 10 09:15:00 2026"
+function asctime(date: Date): string {
+  const [weekday, day, month, year, time] = date.toUTCString().replace(',', '').split(' ');
+  return `${weekday} ${month} ${day.padStart(2, ' ')} ${time} ${year}`;
+}
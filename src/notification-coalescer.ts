@@ -0,0 +1,114 @@
+import { parseNotification, NotificationValidationError } from './notification-schema';
+import { QueueMessage } from './queue-processor';
+
+/**
+ * A set of queue messages that collapse into a single handler call.
+ * `notificationType` / `payload` describe the effective notification to run.
+ */
+export interface NotificationGroup {
+  key: string;
+  notificationType: string;
+  grantId: string;
+  inboxId: string;
+  payload: any;
+  messages: QueueMessage[];
+}
+
+export interface CoalesceResult {
+  groups: NotificationGroup[];
+  // Messages whose payload failed validation - quarantined individually by the processor
+  invalid: { msg: QueueMessage; error: NotificationValidationError }[];
+}
+
+const MESSAGE_TYPES = [
+  'message.created',
+  'message.created.truncated',
+  'message.updated',
+  'message.updated.truncated',
+  'message.deleted',
+];
+
+/**
+ * Group a batch of webhook queue messages by the object they affect.
+ *
+ * message.* notifications for the same message collapse into one action, where the
+ * last notification wins: a trailing delete deletes, any update becomes an
+ * update-or-insert, otherwise it is a plain sync. The truncated flag sticks if any
+ * notification in the group was truncated. Duplicate thread.replied / thread.deleted
+ * notifications collapse too. Grant notifications and unsupported types are never merged.
+ */
+export function coalesceNotifications(messages: QueueMessage[]): CoalesceResult {
+  const grouped = new Map<string, QueueMessage[]>();
+  const invalid: CoalesceResult['invalid'] = [];
+  
+  // Oldest first, so "last" means the most recently received notification
+  const ordered = [...messages].sort((a, b) => a.msg_id - b.msg_id);
+  
+  for (const msg of ordered) {
+    const { notification_type: type, grant_id: grantId, payload } = msg.message;
+    
+    let notification;
+    try {
+      notification = parseNotification(type, payload);
+    } catch (error) {
+      if (error instanceof NotificationValidationError) {
+        invalid.push({ msg, error });
+        continue;
+      }
+      throw error;
+    }
+    
+    let key = `single:${msg.msg_id}`;
+    
+    if (notification && MESSAGE_TYPES.includes(notification.type)) {
+      key = `message:${grantId}:${(notification.data.object as { id: string }).id}`;
+    } else if (notification?.type === 'thread.replied') {
+      const object = notification.data.object;
+      key = `thread.replied:${grantId}:${object.message_id || object.id}`;
+    } else if (notification?.type === 'thread.deleted') {
+      key = `thread.deleted:${grantId}:${notification.data.object.id}`;
+    }
+    
+    grouped.set(key, [...(grouped.get(key) || []), msg]);
+  }
+  
+  const groups: NotificationGroup[] = [];
+  for (const [key, groupMessages] of grouped) {
+    const last = groupMessages[groupMessages.length - 1].message;
+    const group: NotificationGroup = {
+      key,
+      notificationType: last.notification_type,
+      grantId: last.grant_id,
+      inboxId: last.inbox_id,
+      payload: last.payload,
+      messages: groupMessages,
+    };
+    
+    if (key.startsWith('message:') && groupMessages.length > 1) {
+      group.notificationType = resolveMessageAction(
+        groupMessages.map((msg) => msg.message.notification_type)
+      );
+    }
+    
+    groups.push(group);
+  }
+  
+  return { groups, invalid };
+}
+
+function resolveMessageAction(types: string[]): string {
+  const lastType = types[types.length - 1];
+  if (lastType === 'message.deleted') {
+    return 'message.deleted';
+  }
+  
+  // Only look at what happened since the most recent delete (a re-created message)
+  const lastDelete = types.lastIndexOf('message.deleted');
+  const live = types.slice(lastDelete + 1);
+  const truncated = live.some((type) => type.endsWith('.truncated'));
+  const updated = live.some((type) => type.startsWith('message.updated'));
+  
+  // updateMessage falls back to a full sync when the message isn't stored yet
+  const action = updated ? 'message.updated' : 'message.created';
+  return truncated ? `${action}.truncated` : action;
+}
@@ -1,11 +1,28 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { NylasSync } from './nylas-sync';
+import { GrantLifecycle } from './grant-lifecycle';
+import { parseNotification } from './notification-schema';
+import { FolderPolicies } from './folder-policy';
+import { EmailProvider, createEmailProvider } from './email-provider';
+
+// Notifications that can store a message in a new thread, so the inbox's folder policy applies
+const FOLDER_POLICY_TYPES = new Set<string>([
+  'message.created',
+  'message.created.truncated',
+  'message.updated',
+  'message.updated.truncated',
+  'thread.replied',
+]);
 
 export class NotificationHandler {
   private nylasSync: NylasSync;
+  private grants: GrantLifecycle;
+  private folderPolicies: FolderPolicies;
   
-  constructor(private supabase: SupabaseClient) {
-    this.nylasSync = new NylasSync(supabase);
+  constructor(private supabase: SupabaseClient, provider: EmailProvider = createEmailProvider()) {
+    this.nylasSync = new NylasSync(supabase, provider);
+    this.grants = new GrantLifecycle(supabase);
+    this.folderPolicies = new FolderPolicies(supabase);
   }
   
   async handle(
@@ -17,58 +34,82 @@ export class NotificationHandler {
     console.log(`[Handler] Processing ${notificationType}`);
     
     try {
-      if (
-        notificationType.startsWith('message.created') ||
-        notificationType.startsWith('message.updated')
-      ) {
-        // Log payload structure for debugging
-        console.log('[Handler] Webhook payload structure:', JSON.stringify(payload, null, 2));
+      // Throws NotificationValidationError for malformed payloads (quarantined by the processor)
+      const notification = parseNotification(notificationType, payload);
+      
+      if (!notification) {
+        console.log(`[Handler] Unhandled notification type: ${notificationType}`);
+        return;
+      }
+      
+      const folderPolicy = FOLDER_POLICY_TYPES.has(notification.type)
+        ? await this.folderPolicies.forInbox(inboxId)
+        : undefined;
+      
+      switch (notification.type) {
+        case 'message.created':
+          console.log(`[Handler] Message ID: ${notification.data.object.id}`);
+          await this.nylasSync.syncMessage(grantId, inboxId, notification.data.object.id, { folderPolicy });
+          break;
         
-        // Extract message_id from webhook payload - try multiple possible locations
-        const messageId = 
-          payload.data?.object?.id ||  // Standard Nylas webhook format: payload.data.object.id
-          payload.data?.id ||           // Alternative format: payload.data.id
-          payload.object?.id ||         // Alternative format: payload.object.id
-          payload.id;                   // Direct format: payload.id
+        case 'message.created.truncated':
+          // Body was too large for the webhook - always refetch the full message from the API
+          console.log(`[Handler] Message ID: ${notification.data.object.id} (truncated payload)`);
+          await this.nylasSync.syncMessage(grantId, inboxId, notification.data.object.id, {
+            truncated: true,
+            folderPolicy,
+          });
+          break;
         
-        if (!messageId) {
-          console.error('[Handler] Could not find message ID in any expected location');
-          console.error('[Handler] Payload keys:', Object.keys(payload));
-          console.error('[Handler] payload.data keys:', payload.data ? Object.keys(payload.data) : 'N/A');
-          throw new Error('Message ID missing from webhook payload');
-        }
+        case 'message.updated':
+          console.log(`[Handler] Message ID: ${notification.data.object.id}`);
+          await this.nylasSync.updateMessage(grantId, inboxId, notification.data.object.id, { folderPolicy });
+          break;
         
-        console.log(`[Handler] Extracted message ID: ${messageId}`);
-        await this.nylasSync.syncMessage(grantId, inboxId, messageId);
-      } else if (notificationType.startsWith('thread.replied')) {
-        await this.nylasSync.syncThread(inboxId, payload.data);
-      } else if (notificationType === 'grant.expired') {
-        await this.handleGrantExpired(inboxId, grantId);
-      } else {
-        console.log(`[Handler] Unhandled notification type: ${notificationType}`);
+        case 'message.updated.truncated':
+          console.log(`[Handler] Message ID: ${notification.data.object.id} (truncated payload)`);
+          await this.nylasSync.updateMessage(grantId, inboxId, notification.data.object.id, {
+            truncated: true,
+            folderPolicy,
+          });
+          break;
+        
+        case 'message.deleted':
+          await this.nylasSync.deleteMessage(notification.data.object.id);
+          break;
+        
+        case 'thread.deleted':
+          await this.nylasSync.deleteThread(notification.data.object.id);
+          break;
+        
+        case 'thread.replied':
+          if (notification.data.object.message_id) {
+            // Sync the reply itself - this also creates the thread if we haven't seen it
+            await this.nylasSync.syncMessage(grantId, inboxId, notification.data.object.message_id, { folderPolicy });
+          } else {
+            await this.nylasSync.syncThread(inboxId, notification.data.object, { folderPolicy });
+          }
+          break;
+        
+        case 'grant.expired':
+          await this.grants.handleExpired(inboxId, grantId || notification.data.object.grant_id);
+          break;
+        
+        case 'grant.created':
+          await this.grants.handleCreated(inboxId, grantId || notification.data.object.grant_id);
+          break;
+        
+        case 'grant.updated':
+          await this.grants.handleUpdated(inboxId, grantId || notification.data.object.grant_id, notification.data.object);
+          break;
+        
+        case 'grant.deleted':
+          await this.grants.handleDeleted(inboxId, grantId || notification.data.object.grant_id);
+          break;
       }
     } catch (error) {
       console.error(`[Handler] Error processing ${notificationType}:`, error);
       throw error;
     }
   }
-  
-  private async handleGrantExpired(inboxId: string, grantId: string): Promise<void> {
-    console.log(`[Handler] Grant expired for inbox ${inboxId}`);
-    
-    const { error } = await this.supabase
-      .from('support_inboxes')
-      .update({
-        status: 'auth_expired',
-        webhook_health_status: 'failing',
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', inboxId);
-    
-    if (error) {
-      throw new Error(`Failed to update inbox status: ${error.message}`);
-    }
-    
-    console.log(`[Handler] Marked inbox ${inboxId} as auth_expired`);
-  }
 }
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+
+/**
+ * Nylas Webhook Notification Schemas
+ *
+ * Nylas v3 delivers every notification as an envelope with the affected object under
+ * `data.object`. The queue message carries the notification type separately, so it is
+ * used as the discriminator and the envelope is validated against the matching schema.
+ * Unknown keys are kept (loose objects) so new Nylas fields never fail validation.
+ */
+
+// Message objects (message.created / message.updated and their .truncated variants)
+export const MessageObjectSchema = z.looseObject({
+  id: z.string().min(1),
+  grant_id: z.string().optional(),
+  thread_id: z.string().optional(),
+});
+
+// message.deleted only carries identifiers
+export const DeletedObjectSchema = z.looseObject({
+  id: z.string().min(1),
+  grant_id: z.string().optional(),
+});
+
+// thread.replied points at the reply message; older payloads carry the thread itself
+export const ThreadRepliedObjectSchema = z.looseObject({
+  id: z.string().optional(),
+  grant_id: z.string().optional(),
+  thread_id: z.string().optional(),
+  message_id: z.string().optional(),
+}).refine(
+  (object) => !!(object.message_id || object.id),
+  { message: 'thread.replied object needs message_id or id' }
+);
+
+// grant.* objects identify the grant rather than a mailbox object
+export const GrantObjectSchema = z.looseObject({
+  grant_id: z.string().min(1),
+  provider: z.string().optional(),
+  reauthentication_flag: z.boolean().optional(),
+});
+
+function notificationEnvelope<
+  TType extends string,
+  TObject extends z.ZodType
+>(type: TType, object: TObject) {
+  return z.looseObject({
+    type: z.literal(type),
+    id: z.string().optional(),
+    time: z.number().optional(),
+    data: z.looseObject({
+      object,
+    }),
+  });
+}
+
+export const NylasNotificationSchema = z.discriminatedUnion('type', [
+  notificationEnvelope('message.created', MessageObjectSchema),
+  notificationEnvelope('message.created.truncated', MessageObjectSchema),
+  notificationEnvelope('message.updated', MessageObjectSchema),
+  notificationEnvelope('message.updated.truncated', MessageObjectSchema),
+  notificationEnvelope('message.deleted', DeletedObjectSchema),
+  notificationEnvelope('thread.replied', ThreadRepliedObjectSchema),
+  notificationEnvelope('thread.deleted', DeletedObjectSchema),
+  notificationEnvelope('grant.created', GrantObjectSchema),
+  notificationEnvelope('grant.updated', GrantObjectSchema),
+  notificationEnvelope('grant.deleted', GrantObjectSchema),
+  notificationEnvelope('grant.expired', GrantObjectSchema),
+]);
+
+export type NylasNotification = z.infer<typeof NylasNotificationSchema>;
+export type NotificationType = NylasNotification['type'];
+
+export const SUPPORTED_NOTIFICATION_TYPES: readonly string[] = NylasNotificationSchema.options.map(
+  (option) => option.shape.type.value
+);
+
+/**
+ * Thrown when a payload of a supported type does not match its schema.
+ * The queue processor quarantines these instead of retrying them.
+ */
+export class NotificationValidationError extends Error {
+  constructor(
+    public readonly notificationType: string,
+    public readonly validationError: string
+  ) {
+    super(`Invalid ${notificationType} payload: ${validationError}`);
+    this.name = 'NotificationValidationError';
+  }
+}
+
+/**
+ * Parse a webhook payload into a typed notification.
+ * Returns null for notification types this service does not handle.
+ */
+export function parseNotification(notificationType: string, payload: unknown): NylasNotification | null {
+  if (!SUPPORTED_NOTIFICATION_TYPES.includes(notificationType)) {
+    return null;
+  }
+  
+  if (!payload || typeof payload !== 'object') {
+    throw new NotificationValidationError(notificationType, 'Payload is not an object');
+  }
+  
+  // The queue's notification_type is authoritative, even if the envelope omits `type`
+  const result = NylasNotificationSchema.safeParse({ ...payload, type: notificationType });
+  
+  if (!result.success) {
+    throw new NotificationValidationError(notificationType, z.prettifyError(result.error));
+  }
+  
+  return result.data;
+}
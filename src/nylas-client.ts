@@ -0,0 +1,304 @@
+import Nylas, { AbstractNylasApiError, NylasSdkTimeoutError } from 'nylas';
+import { config } from './config';
+
+export interface NylasClientStats {
+  requests: number;
+  succeeded: number;
+  failed: number;
+  retries: number;
+  rateLimited: number;   // 429 responses
+  serverErrors: number;  // 5xx responses and timeouts
+  networkErrors: number; // Connection resets / refusals and failed fetches
+  throttledMs: number;   // Time spent waiting for a rate limit token
+}
+
+// Connection failures worth retrying. Node's fetch reports them as TypeError('fetch failed')
+// with the system or undici error code on `cause`; node-fetch puts the code on the error itself.
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+// Plain Errors the SDK throws for responses it couldn't read. Error responses whose body isn't
+// JSON lose their status code; in practice they are HTML pages from a gateway (502/503/504).
+const UNREADABLE_RESPONSE_MESSAGES = [
+  'Received an error but could not parse response from the server',
+  'Failed to fetch response',
+];
+
+export interface CallOptions {
+  // False for requests that must not be repeated once they may have reached Nylas (sending
+  // mail). Only 429s are retried then - Nylas turns those away before acting on them - and only
+  // while Retry-After is within NYLAS_RETRY_MAX_DELAY_MS.
+  idempotent?: boolean;
+  // Overrides NYLAS_MAX_RETRIES
+  maxRetries?: number;
+}
+
+/**
+ * Token bucket: holds up to `capacity` tokens and refills `ratePerSecond` per second.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private blockedUntil = 0;
+  
+  constructor(private capacity: number, private ratePerSecond: number) {
+    this.tokens = capacity;
+  }
+  
+  /**
+   * Take a token if one is available; otherwise return how long to wait (ms)
+   */
+  tryTake(): number {
+    const now = Date.now();
+    if (now < this.blockedUntil) {
+      return this.blockedUntil - now;
+    }
+    
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+    this.updatedAt = now;
+    
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    
+    return Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+  }
+  
+  /**
+   * Stop handing out tokens until the given time (used for Retry-After)
+   */
+  blockUntil(timestamp: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, timestamp);
+    this.tokens = 0;
+  }
+}
+
+/**
+ * Shared Nylas client for the process. Every API call goes through `call`, which waits for
+ * a token from the global bucket and the grant's bucket, retries 429s after Retry-After and
+ * retries 5xx responses, timeouts and network errors with jittered exponential backoff
+ * (429s only for calls made with `idempotent: false`).
+ */
+export class NylasClient {
+  private static instance: NylasClient | null = null;
+  
+  private nylas: Nylas;
+  private globalBucket: TokenBucket;
+  private grantBuckets = new Map<string, TokenBucket>();
+  private stats: NylasClientStats = {
+    requests: 0,
+    succeeded: 0,
+    failed: 0,
+    retries: 0,
+    rateLimited: 0,
+    serverErrors: 0,
+    networkErrors: 0,
+    throttledMs: 0,
+  };
+  
+  private constructor() {
+    this.nylas = new Nylas({
+      apiKey: config.nylas.apiKey,
+      apiUri: config.nylas.apiUri,
+      timeout: config.nylas.timeoutSeconds,
+    });
+    this.globalBucket = new TokenBucket(config.nylas.globalBurst, config.nylas.globalRequestsPerSecond);
+  }
+  
+  static getInstance(): NylasClient {
+    if (!NylasClient.instance) {
+      NylasClient.instance = new NylasClient();
+    }
+    return NylasClient.instance;
+  }
+  
+  /**
+   * Run a Nylas SDK call for a grant under the rate limits, with retries.
+   * `operation` is only used for logging (e.g. 'messages.find').
+   */
+  async call<T>(
+    grantId: string,
+    operation: string,
+    request: (nylas: Nylas) => Promise<T>,
+    options: CallOptions = {}
+  ): Promise<T> {
+    const maxRetries = options.maxRetries ?? config.nylas.maxRetries;
+    
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(grantId);
+      this.stats.requests++;
+      
+      try {
+        const result = await request(this.nylas);
+        this.stats.succeeded++;
+        return result;
+      } catch (error) {
+        const retryDelay = this.retryDelay(grantId, error, attempt);
+        const retryable = retryDelay !== null && (
+          options.idempotent !== false ||
+          (isRateLimited(error) && retryDelay <= config.nylas.retryMaxDelayMs)
+        );
+        
+        if (!retryable || attempt >= maxRetries) {
+          this.stats.failed++;
+          throw error;
+        }
+        
+        this.stats.retries++;
+        console.warn(
+          `[Nylas] ${operation} for grant ${grantId} failed (${this.describe(error)}), ` +
+          `retrying in ${retryDelay}ms (attempt ${attempt + 1}/${maxRetries})`
+        );
+        await this.delay(retryDelay);
+      }
+    }
+  }
+  
+  getStats(): NylasClientStats {
+    return { ...this.stats };
+  }
+  
+  private async acquire(grantId: string): Promise<void> {
+    let grantBucket = this.grantBuckets.get(grantId);
+    if (!grantBucket) {
+      grantBucket = new TokenBucket(config.nylas.grantBurst, config.nylas.grantRequestsPerSecond);
+      this.grantBuckets.set(grantId, grantBucket);
+    }
+    
+    // Grant first, so a busy grant waits without holding global capacity
+    for (const bucket of [grantBucket, this.globalBucket]) {
+      let wait = bucket.tryTake();
+      while (wait > 0) {
+        this.stats.throttledMs += wait;
+        await this.delay(wait);
+        wait = bucket.tryTake();
+      }
+    }
+  }
+  
+  /**
+   * Delay before retrying, or null if the error is not retryable
+   */
+  private retryDelay(grantId: string, error: unknown, attempt: number): number | null {
+    if (error instanceof NylasSdkTimeoutError) {
+      this.stats.serverErrors++;
+      return this.backoff(attempt);
+    }
+    
+    if (isNetworkError(error)) {
+      this.stats.networkErrors++;
+      return this.backoff(attempt);
+    }
+    
+    if (!(error instanceof AbstractNylasApiError)) {
+      if (isUnreadableResponse(error)) {
+        this.stats.serverErrors++;
+        return this.backoff(attempt);
+      }
+      return null;
+    }
+    
+    if (!error.statusCode) {
+      return null;
+    }
+    
+    if (error.statusCode === 429) {
+      this.stats.rateLimited++;
+      const retryAfterMs = this.parseRetryAfter(error.headers) ?? this.backoff(attempt);
+      
+      // Nylas limits per grant - hold back every caller for this grant, not just this one
+      this.grantBuckets.get(grantId)?.blockUntil(Date.now() + retryAfterMs);
+      return retryAfterMs;
+    }
+    
+    if (error.statusCode >= 500) {
+      this.stats.serverErrors++;
+      return this.backoff(attempt);
+    }
+    
+    return null;
+  }
+  
+  private parseRetryAfter(headers?: Record<string, string>): number | null {
+    const value = headers?.['retry-after'] ?? headers?.['Retry-After'];
+    if (!value) {
+      return null;
+    }
+    
+    // Either delta-seconds or an HTTP date
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+  
+  private backoff(attempt: number): number {
+    // Full jitter: random delay up to the exponential cap
+    const cap = Math.min(config.nylas.retryMaxDelayMs, config.nylas.retryBaseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * cap);
+  }
+  
+  private describe(error: unknown): string {
+    if (error instanceof AbstractNylasApiError && error.statusCode) {
+      return `HTTP ${error.statusCode}`;
+    }
+    
+    const code = networkErrorCode(error);
+    if (code) {
+      return `network error ${code}`;
+    }
+    
+    // Unreadable responses carry the whole body in the message
+    return error instanceof Error ? error.message.substring(0, 200) : 'Unknown error';
+  }
+  
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+function networkErrorCode(error: unknown): string | null {
+  // Walk the cause chain: fetch failed -> undici SocketError -> system error
+  let current: any = error;
+  for (let depth = 0; current && depth < 3; depth++) {
+    if (typeof current.code === 'string' && RETRYABLE_NETWORK_CODES.has(current.code)) {
+      return current.code;
+    }
+    current = current.cause;
+  }
+  return null;
+}
+
+function isNetworkError(error: unknown): boolean {
+  if (networkErrorCode(error)) {
+    return true;
+  }
+  
+  // Node's fetch without a usable cause: the request failed, or the body stream was cut off
+  return error instanceof TypeError && (error.message === 'fetch failed' || error.message === 'terminated');
+}
+
+function isRateLimited(error: unknown): boolean {
+  return error instanceof AbstractNylasApiError && error.statusCode === 429;
+}
+
+function isUnreadableResponse(error: unknown): boolean {
+  return error instanceof Error &&
+    UNREADABLE_RESPONSE_MESSAGES.some((message) => error.message.startsWith(message));
+}
@@ -0,0 +1,163 @@
+import { AbstractNylasApiError, Message, MessageFields, Thread } from 'nylas';
+import { NylasClient } from './nylas-client';
+import {
+  EmailProvider,
+  ListMessagesParams,
+  ListThreadsParams,
+  ProviderMessage,
+  ProviderPage,
+  ProviderThread,
+} from './email-provider';
+
+/**
+ * EmailProvider backed by the Nylas v3 API. All calls go through the shared NylasClient,
+ * so they are rate limited and retried like any other Nylas call.
+ */
+export class NylasProvider implements EmailProvider {
+  readonly name = 'nylas';
+  private nylas: NylasClient;
+  
+  constructor() {
+    this.nylas = NylasClient.getInstance();
+  }
+  
+  async listThreads(grantId: string, params: ListThreadsParams): Promise<ProviderPage<ProviderThread>> {
+    const response = await this.nylas.call(grantId, 'threads.list', (nylas) =>
+      nylas.threads.list({
+        identifier: grantId,
+        queryParams: {
+          limit: params.limit ?? 100,
+          ...(params.latestMessageAfter && { latestMessageAfter: toUnixSeconds(params.latestMessageAfter) }),
+          ...(params.latestMessageBefore && { latestMessageBefore: toUnixSeconds(params.latestMessageBefore) }),
+          ...(params.pageToken && { pageToken: params.pageToken }),
+        },
+      })
+    );
+    
+    return {
+      data: (response.data || []).map(toProviderThread),
+      nextCursor: response.nextCursor,
+    };
+  }
+  
+  async getThread(grantId: string, threadId: string): Promise<ProviderThread | null> {
+    const response = await this.findOrNull(() =>
+      this.nylas.call(grantId, 'threads.find', (nylas) =>
+        nylas.threads.find({ identifier: grantId, threadId })
+      )
+    );
+    
+    return response?.data ? toProviderThread(response.data) : null;
+  }
+  
+  async listMessages(grantId: string, params: ListMessagesParams): Promise<ProviderPage<ProviderMessage>> {
+    const response = await this.nylas.call(grantId, 'messages.list', (nylas) =>
+      nylas.messages.list({
+        identifier: grantId,
+        queryParams: {
+          limit: params.limit ?? 100,
+          ...(params.threadId && { threadId: params.threadId }),
+          ...(params.receivedAfter && { receivedAfter: toUnixSeconds(params.receivedAfter) }),
+          ...(params.receivedBefore && { receivedBefore: toUnixSeconds(params.receivedBefore) }),
+          ...(params.pageToken && { pageToken: params.pageToken }),
+          ...(params.includeHeaders && { fields: MessageFields.INCLUDE_HEADERS }),
+        },
+      })
+    );
+    
+    return {
+      data: (response.data || []).map(toProviderMessage),
+      nextCursor: response.nextCursor,
+    };
+  }
+  
+  async getMessage(grantId: string, messageId: string): Promise<ProviderMessage | null> {
+    const response = await this.findOrNull(() =>
+      this.nylas.call(grantId, 'messages.find', (nylas) =>
+        nylas.messages.find({
+          identifier: grantId,
+          messageId,
+          queryParams: { fields: MessageFields.INCLUDE_HEADERS },
+        })
+      )
+    );
+    
+    return response?.data ? toProviderMessage(response.data) : null;
+  }
+  
+  async downloadAttachment(grantId: string, messageId: string, attachmentId: string): Promise<Buffer> {
+    return this.nylas.call(grantId, 'attachments.downloadBytes', (nylas) =>
+      nylas.attachments.downloadBytes({
+        identifier: grantId,
+        attachmentId,
+        queryParams: {
+          messageId,
+        },
+      })
+    );
+  }
+  
+  getStats(): Record<string, number> {
+    return { ...this.nylas.getStats() };
+  }
+  
+  private async findOrNull<T>(find: () => Promise<T>): Promise<T | null> {
+    try {
+      return await find();
+    } catch (error) {
+      if (error instanceof AbstractNylasApiError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Map a Nylas message (from find/list, or the object returned by messages.send)
+ */
+export function toProviderMessage(message: Message): ProviderMessage {
+  const raw = message as Message & { in_reply_to?: string };
+  
+  return {
+    id: message.id,
+    threadId: message.threadId || null,
+    subject: message.subject || null,
+    from: message.from || [],
+    to: message.to || [],
+    cc: message.cc || [],
+    bcc: message.bcc || [],
+    replyTo: message.replyTo || [],
+    body: message.body || '',
+    snippet: message.snippet || '',
+    receivedAt: message.date ? new Date(message.date * 1000) : null,
+    unread: message.unread ?? true,
+    starred: message.starred ?? false,
+    folders: message.folders || [],
+    attachments: message.attachments || [],
+    headers: message.headers || [],
+    inReplyTo: raw.in_reply_to || null,
+    metadata: message.metadata || null,
+    trackingOptions: (message.trackingOptions as Record<string, unknown> | undefined) || null,
+  };
+}
+
+export function toProviderThread(thread: Thread): ProviderThread {
+  const latestDate = thread.latestDraftOrMessage?.date;
+  
+  return {
+    id: thread.id,
+    subject: thread.subject || null,
+    snippet: thread.snippet || '',
+    participants: thread.participants || [],
+    latestMessageAt: latestDate ? new Date(latestDate * 1000) : null,
+    unread: thread.unread ?? false,
+    starred: thread.starred ?? false,
+    folders: thread.folders || [],
+    messageIds: thread.messageIds || [],
+  };
+}
+
+function toUnixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
@@ -1,19 +1,37 @@
 import { SupabaseClient } from '@supabase/supabase-js';
-import Nylas from 'nylas';
-import { config } from './config';
+import { EmailProvider, ProviderAttachment, ProviderMessage, ProviderThread, createEmailProvider } from './email-provider';
+import { AttachmentIngestor } from './attachment-ingestor';
+import { normalizeBody } from './body-normalizer';
+import { parseHeaders } from './header-parser';
+import { ThreadAggregates } from './thread-aggregates';
+import { ContactResolver } from './contact-resolver';
+import { FolderPolicy, allowsFolders } from './folder-policy';
+
+export interface SyncOptions {
+  // Nylas sent a *.truncated notification because the message body was too large
+  truncated?: boolean;
+  // Webhook sync: a message that would start a new thread is only stored if its folders pass
+  folderPolicy?: FolderPolicy;
+}
 
 export class NylasSync {
-  private nylas: Nylas;
+  private attachments: AttachmentIngestor;
+  private aggregates: ThreadAggregates;
+  private contacts: ContactResolver;
   
-  constructor(private supabase: SupabaseClient) {
-    this.nylas = new Nylas({
-      apiKey: config.nylas.apiKey,
-      apiUri: config.nylas.apiUri,
-    });
+  constructor(private supabase: SupabaseClient, private provider: EmailProvider = createEmailProvider()) {
+    this.attachments = new AttachmentIngestor(supabase, this.provider);
+    this.aggregates = new ThreadAggregates(supabase);
+    this.contacts = new ContactResolver(supabase);
   }
   
-  async syncMessage(grantId: string, inboxId: string, messageId: string): Promise<void> {
-    console.log(`[Sync] Starting sync for message ${messageId}`);
+  async syncMessage(
+    grantId: string,
+    inboxId: string,
+    messageId: string,
+    options: SyncOptions = {}
+  ): Promise<void> {
+    console.log(`[Sync] Starting sync for message ${messageId}${options.truncated ? ' (truncated notification)' : ''}`);
     
     // Step 1: Check if message already exists in database
     const { data: existingMessage } = await this.supabase
@@ -24,21 +42,20 @@ export class NylasSync {
     
     if (existingMessage) {
       console.log(`[Sync] Message ${messageId} already exists in database, skipping`);
+      if (options.truncated) {
+        await this.markLargeBody(messageId);
+      }
       return;
     }
     
-    // Step 2: Fetch complete message from Nylas API
-    console.log(`[Sync] Fetching complete message ${messageId} from Nylas API`);
-    const messageResponse = await this.nylas.messages.find({
-      identifier: grantId,
-      messageId: messageId,
-    });
+    // Step 2: Fetch complete message from the provider
+    console.log(`[Sync] Fetching complete message ${messageId} from ${this.provider.name}`);
+    const message = await this.provider.getMessage(grantId, messageId);
     
-    if (!messageResponse.data) {
-      throw new Error(`Failed to fetch message ${messageId} from Nylas API`);
+    if (!message) {
+      throw new Error(`Failed to fetch message ${messageId} from ${this.provider.name}`);
     }
     
-    const message = messageResponse.data;
     const threadId = message.threadId;
     
     if (!threadId) {
@@ -53,6 +70,11 @@ export class NylasSync {
       .eq('nylas_thread_id', threadId)
       .single();
     
+    if (!existingThread && options.folderPolicy && !allowsFolders(options.folderPolicy, message.folders)) {
+      console.log(`[Sync] Thread ${threadId} is new and message ${messageId} is in excluded folders (${message.folders.join(', ') || 'none'}), skipping`);
+      return;
+    }
+    
     if (!existingThread) {
       // NEW THREAD: Fetch thread details and all messages
       console.log(`[Sync] Thread ${threadId} is NEW, fetching complete thread with all messages`);
@@ -60,55 +82,249 @@ export class NylasSync {
     } else {
       // EXISTING THREAD: Just insert this single message
       console.log(`[Sync] Thread ${threadId} exists (DB ID: ${existingThread.id}), inserting single message`);
-      await this.insertMessage(existingThread.id, message);
+      await this.insertMessage(grantId, existingThread.id, message);
+    }
+    
+    // The webhook only carried a partial body; the row was written from the full API fetch above
+    if (options.truncated) {
+      await this.markLargeBody(messageId);
     }
     
     console.log(`[Sync] Successfully synced message ${messageId}`);
   }
   
+  /**
+   * Store a message we just sent (the object returned by messages.send) without refetching it.
+   * Returns the support_email_messages id.
+   */
+  async recordSentMessage(grantId: string, inboxId: string, message: ProviderMessage): Promise<string> {
+    if (!message?.threadId) {
+      throw new Error(`Sent message ${message?.id} is missing threadId`);
+    }
+    
+    const { data: existingThread } = await this.supabase
+      .from('support_email_threads')
+      .select('id')
+      .eq('nylas_thread_id', message.threadId)
+      .single();
+    
+    if (existingThread) {
+      await this.insertMessage(grantId, existingThread.id, message);
+    } else {
+      // Compose started a new thread - sync it like any other new thread
+      await this.syncNewThread(grantId, inboxId, message.threadId);
+    }
+    
+    const { data: stored, error } = await this.supabase
+      .from('support_email_messages')
+      .select('id')
+      .eq('nylas_message_id', message.id)
+      .single();
+    
+    if (error || !stored) {
+      throw new Error(`Failed to record sent message ${message.id}: ${error?.message || 'not found after sync'}`);
+    }
+    
+    console.log(`[Sync] Recorded sent message ${message.id}`);
+    return stored.id;
+  }
+  
+  async updateMessage(
+    grantId: string,
+    inboxId: string,
+    messageId: string,
+    options: SyncOptions = {}
+  ): Promise<void> {
+    console.log(`[Sync] Starting update for message ${messageId}${options.truncated ? ' (truncated notification)' : ''}`);
+    
+    // Step 1: Load the stored row we are going to diff against
+    // (truncated updates also compare the body, since the large body may have changed)
+    const columns = 'id, thread_id, unread, starred, folders, snippet, attachments, deleted_at';
+    const { data: stored, error: fetchError } = await this.supabase
+      .from('support_email_messages')
+      .select<string, any>(options.truncated ? `${columns}, body` : columns)
+      .eq('nylas_message_id', messageId)
+      .maybeSingle();
+    
+    if (fetchError) {
+      throw new Error(`Failed to fetch stored message ${messageId}: ${fetchError.message}`);
+    }
+    
+    if (!stored) {
+      // Update arrived before (or instead of) the create - treat it as a new message
+      console.log(`[Sync] Message ${messageId} not in database yet, syncing as new message`);
+      await this.syncMessage(grantId, inboxId, messageId, options);
+      return;
+    }
+    
+    if (stored.deleted_at) {
+      console.log(`[Sync] Message ${messageId} was deleted at ${stored.deleted_at}, skipping update`);
+      return;
+    }
+    
+    // Step 2: Fetch the current state from the provider
+    console.log(`[Sync] Fetching current state of message ${messageId} from ${this.provider.name}`);
+    const message = await this.provider.getMessage(grantId, messageId);
+    
+    if (!message) {
+      throw new Error(`Failed to fetch message ${messageId} from ${this.provider.name}`);
+    }
+    
+    // Step 3: Patch only the fields that changed
+    const changes = this.diffMessage(stored, message, options.truncated ?? false);
+    const changedFields = Object.keys(changes);
+    
+    if (changedFields.length === 0) {
+      console.log(`[Sync] Message ${messageId} unchanged, nothing to update`);
+      if (options.truncated) {
+        await this.markLargeBody(messageId);
+      }
+      return;
+    }
+    
+    const { error: updateError } = await this.supabase
+      .from('support_email_messages')
+      .update(changes)
+      .eq('id', stored.id);
+    
+    if (updateError) {
+      throw new Error(`Failed to update message ${messageId}: ${updateError.message}`);
+    }
+    
+    console.log(`[Sync] Updated message ${messageId} (${changedFields.join(', ')})`);
+    
+    // Measured after the update so the recorded size matches the stored body
+    if (options.truncated) {
+      await this.markLargeBody(messageId);
+    }
+    
+    // Step 4: Thread flags and snippet are derived from their messages
+    await this.aggregates.recompute(stored.thread_id);
+    
+    // Step 5: Pick up attachments added to the message (already stored ones are skipped)
+    if (changes.attachments !== undefined) {
+      await this.ingestAttachments(grantId, stored.id, message);
+    }
+  }
+  
+  private diffMessage(stored: any, message: ProviderMessage, includeBody: boolean): Record<string, any> {
+    const changes: Record<string, any> = {};
+    
+    for (const field of ['unread', 'starred', 'snippet'] as const) {
+      if ((stored[field] ?? null) !== message[field]) {
+        changes[field] = message[field];
+      }
+    }
+    
+    // JSONB doesn't keep key order (and providers don't keep folder order), so the arrays
+    // are compared by content
+    if (!sameFolders(stored.folders, message.folders)) {
+      changes.folders = message.folders;
+    }
+    
+    if (!sameAttachments(stored.attachments, message.attachments)) {
+      changes.attachments = message.attachments;
+    }
+    
+    if (includeBody && (stored.body ?? null) !== message.body) {
+      changes.body = message.body;
+    }
+    
+    // Keep the normalized text in step with the body
+    if (changes.body !== undefined) {
+      const { bodyText, bodyClean } = normalizeBody(changes.body);
+      changes.body_text = bodyText;
+      changes.body_clean = bodyClean;
+    }
+    
+    return changes;
+  }
+  
+  private async markLargeBody(messageId: string): Promise<void> {
+    const { data: message, error: fetchError } = await this.supabase
+      .from('support_email_messages')
+      .select('id, body')
+      .eq('nylas_message_id', messageId)
+      .maybeSingle();
+    
+    if (fetchError || !message) {
+      console.error(`[Sync] Could not load message ${messageId} to record large body:`, fetchError);
+      return;
+    }
+    
+    const bodySizeBytes = Buffer.byteLength(message.body || '', 'utf8');
+    
+    const { error } = await this.supabase
+      .from('support_email_messages')
+      .update({
+        large_body: true,
+        body_size_bytes: bodySizeBytes,
+      })
+      .eq('id', message.id);
+    
+    if (error) {
+      console.error(`[Sync] Error recording large body for message ${messageId}:`, error);
+      return;
+    }
+    
+    console.log(`[Sync] Recorded large body for message ${messageId} (${bodySizeBytes} bytes)`);
+  }
+  
   private async syncNewThread(grantId: string, inboxId: string, threadId: string): Promise<void> {
     console.log(`[Sync] Syncing new thread ${threadId}`);
     
-    // Step 1: Fetch complete thread details from Nylas API
+    // Step 1: Fetch complete thread details from the provider
     console.log(`[Sync] Fetching thread details for ${threadId}`);
-    const threadResponse = await this.nylas.threads.find({
-      identifier: grantId,
-      threadId: threadId,
-    });
+    const thread = await this.provider.getThread(grantId, threadId);
     
-    if (!threadResponse.data) {
-      throw new Error(`Failed to fetch thread ${threadId} from Nylas API`);
+    if (!thread) {
+      throw new Error(`Failed to fetch thread ${threadId} from ${this.provider.name}`);
     }
     
-    const thread = threadResponse.data;
-    
-    // Step 2: Fetch all messages in the thread
+    // Step 2: Fetch the first page of messages in the thread
     console.log(`[Sync] Fetching all messages for thread ${threadId}`);
-    const messagesResponse = await this.nylas.messages.list({
-      identifier: grantId,
-      queryParams: {
-        threadId: threadId,
-      },
-    });
+    let messagesResponse = await this.listThreadMessages(grantId, threadId);
     
-    if (!messagesResponse.data) {
+    if (!messagesResponse.data || messagesResponse.data.length === 0) {
       console.warn(`[Sync] No messages found for thread ${threadId}`);
       return;
     }
     
-    const allMessages = messagesResponse.data;
-    console.log(`[Sync] Found ${allMessages.length} messages in thread ${threadId}`);
-    
     // Step 3: Insert thread (with duplicate check)
     const dbThread = await this.insertThread(inboxId, thread);
     
-    // Step 4: Insert all messages (with batch duplicate check)
-    await this.insertMessages(dbThread.id, allMessages);
+    // Step 4: Insert messages page by page (with batch duplicate check)
+    let totalMessages = 0;
+    let page = 1;
+    
+    while (true) {
+      const pageMessages = messagesResponse.data || [];
+      console.log(`[Sync] Found ${pageMessages.length} messages in thread ${threadId} (page ${page})`);
+      await this.insertMessages(grantId, dbThread.id, pageMessages);
+      totalMessages += pageMessages.length;
+      
+      const pageToken = messagesResponse.nextCursor;
+      if (!pageToken) {
+        break;
+      }
+      
+      messagesResponse = await this.listThreadMessages(grantId, threadId, pageToken);
+      page++;
+    }
     
-    console.log(`[Sync] Successfully synced new thread ${threadId} with ${allMessages.length} messages`);
+    console.log(`[Sync] Successfully synced new thread ${threadId} with ${totalMessages} messages`);
   }
   
-  private async insertThread(inboxId: string, thread: any): Promise<any> {
+  private async listThreadMessages(grantId: string, threadId: string, pageToken?: string) {
+    return this.provider.listMessages(grantId, {
+      threadId,
+      limit: 100,
+      pageToken,
+      includeHeaders: true,
+    });
+  }
+  
+  private async insertThread(inboxId: string, thread: ProviderThread): Promise<any> {
     // Double-check thread doesn't exist (defensive programming)
     const { data: existing } = await this.supabase
       .from('support_email_threads')
@@ -128,13 +344,11 @@ export class NylasSync {
         inbox_id: inboxId,
         nylas_thread_id: thread.id,
         subject: thread.subject || '(No Subject)',
-        snippet: thread.snippet || '',
-        participants: thread.participants || [],
-        latest_message_received_date: thread.latestDraftOrMessage?.date
-          ? new Date(thread.latestDraftOrMessage.date * 1000).toISOString()
-          : new Date().toISOString(),
-        unread: thread.unread ?? false,
-        starred: thread.starred ?? false,
+        snippet: thread.snippet,
+        participants: thread.participants,
+        latest_message_received_date: (thread.latestMessageAt || new Date()).toISOString(),
+        unread: thread.unread,
+        starred: thread.starred,
       })
       .select()
       .single();
@@ -147,7 +361,7 @@ export class NylasSync {
     return dbThread;
   }
   
-  private async insertMessages(threadDbId: string, messages: any[]): Promise<void> {
+  private async insertMessages(grantId: string, threadDbId: string, messages: ProviderMessage[]): Promise<void> {
     if (messages.length === 0) {
       return;
     }
@@ -180,17 +394,17 @@ export class NylasSync {
       const message = messagesToInsert[i];
       
       // Log detailed message information
-      const sender = message.from?.[0];
+      const sender = message.from[0];
       const senderDisplay = sender 
         ? `${sender.name || sender.email} <${sender.email}>`
         : 'Unknown Sender';
       
-      const receivedDate = message.date 
-        ? new Date(message.date * 1000).toLocaleString()
+      const receivedDate = message.receivedAt
+        ? message.receivedAt.toLocaleString()
         : 'Unknown Date';
       
-      const toRecipients = (message.to || [])
-        .map((r: any) => r.email)
+      const toRecipients = message.to
+        .map((r) => r.email)
         .join(', ') || 'None';
       
       console.log(`[Sync] Message ${i + 1}/${messagesToInsert.length}:`);
@@ -198,46 +412,20 @@ export class NylasSync {
       console.log(`[Sync]   From: ${senderDisplay}`);
       console.log(`[Sync]   To: ${toRecipients}`);
       console.log(`[Sync]   Date: ${receivedDate}`);
-      console.log(`[Sync]   Snippet: ${(message.snippet || '').substring(0, 100)}...`);
-      console.log(`[Sync]   Unread: ${message.unread ?? true}`);
-      console.log(`[Sync]   Attachments: ${(message.attachments || []).length}`);
+      console.log(`[Sync]   Snippet: ${message.snippet.substring(0, 100)}...`);
+      console.log(`[Sync]   Unread: ${message.unread}`);
+      console.log(`[Sync]   Attachments: ${message.attachments.length}`);
       console.log(`[Sync] ------------------------------------------------`);
       
-      // Add delay between message processing
-      if (i < messagesToInsert.length - 1) {
-        await this.delay(config.processing.messageDelayMs);
-      }
-      
-      messageRecords.push({
-        thread_id: threadDbId,
-        nylas_message_id: message.id,
-        subject: message.subject || '(No Subject)',
-        sender: message.from?.[0] || { email: 'unknown@example.com' },
-        body: message.body || '',
-        received_date: message.date
-          ? new Date(message.date * 1000).toISOString()
-          : new Date().toISOString(),
-        to_recipients: message.to || [],
-        cc_recipients: message.cc || [],
-        bcc_recipients: message.bcc || [],
-        reply_to: message.replyTo || [],
-        attachments: message.attachments || [],
-        folders: message.folders || [],
-        unread: message.unread ?? true,
-        starred: message.starred ?? false,
-        snippet: message.snippet || '',
-        headers: message.headers || [],
-        in_reply_to: (message as any).in_reply_to || null,
-        metadata: (message as any).metadata || null,
-        tracking_options: message.trackingOptions || null,
-      });
+      messageRecords.push(this.buildMessageRecord(threadDbId, message));
     }
     
     // Step 4: Batch insert messages
     console.log(`[Sync] Saving ${messageRecords.length} messages to database...`);
-    const { error: insertError } = await this.supabase
+    const { data: insertedMessages, error: insertError } = await this.supabase
       .from('support_email_messages')
-      .insert(messageRecords);
+      .insert(messageRecords)
+      .select('id, nylas_message_id');
     
     if (insertError) {
       throw new Error(`Failed to insert messages: ${insertError.message}`);
@@ -245,9 +433,21 @@ export class NylasSync {
     
     console.log(`[Sync] ✓ Successfully inserted ${messagesToInsert.length} messages`);
     console.log(`[Sync] ================================================`);
+    
+    // Step 5: Thread count, latest date, participants and flags now include the new messages
+    await this.aggregates.recompute(threadDbId);
+    
+    // Step 6: Link senders and recipients to contacts, download attachment content
+    for (const inserted of insertedMessages || []) {
+      const index = messagesToInsert.findIndex(msg => msg.id === inserted.nylas_message_id);
+      if (index >= 0) {
+        await this.linkContacts(threadDbId, inserted.id, messageRecords[index]);
+        await this.ingestAttachments(grantId, inserted.id, messagesToInsert[index]);
+      }
+    }
   }
   
-  private async insertMessage(threadDbId: string, message: any): Promise<void> {
+  private async insertMessage(grantId: string, threadDbId: string, message: ProviderMessage): Promise<void> {
     // Double-check message doesn't exist (defensive programming)
     const { data: existing } = await this.supabase
       .from('support_email_messages')
@@ -261,46 +461,91 @@ export class NylasSync {
     }
     
     // Insert new message
-    const sender = message.from?.[0] || { email: 'unknown@example.com' };
-    
-    const { error: insertError } = await this.supabase
+    const record = this.buildMessageRecord(threadDbId, message);
+    const { data: inserted, error: insertError } = await this.supabase
       .from('support_email_messages')
-      .insert({
-        thread_id: threadDbId,
-        nylas_message_id: message.id,
-        subject: message.subject || '(No Subject)',
-        sender,
-        body: message.body || '',
-        received_date: message.date
-          ? new Date(message.date * 1000).toISOString()
-          : new Date().toISOString(),
-        to_recipients: message.to || [],
-        cc_recipients: message.cc || [],
-        bcc_recipients: message.bcc || [],
-        reply_to: message.replyTo || [],
-        attachments: message.attachments || [],
-        folders: message.folders || [],
-        unread: message.unread ?? true,
-        starred: message.starred ?? false,
-        snippet: message.snippet || '',
-        headers: message.headers || [],
-        in_reply_to: (message as any).in_reply_to || null,
-        metadata: (message as any).metadata || null,
-        tracking_options: message.trackingOptions || null,
-      });
+      .insert(record)
+      .select('id')
+      .single();
     
     if (insertError) {
       throw new Error(`Failed to insert message ${message.id}: ${insertError.message}`);
     }
     
     console.log(`[Sync] Inserted message ${message.id}`);
+    
+    await this.aggregates.recompute(threadDbId);
+    
+    await this.linkContacts(threadDbId, inserted.id, record);
+    await this.ingestAttachments(grantId, inserted.id, message);
+  }
+  
+  /**
+   * Map a provider message to a support_email_messages row, including the normalized body text
+   */
+  private buildMessageRecord(threadDbId: string, message: ProviderMessage): Record<string, any> {
+    const { bodyText, bodyClean } = normalizeBody(message.body);
+    
+    return {
+      thread_id: threadDbId,
+      nylas_message_id: message.id,
+      subject: message.subject || '(No Subject)',
+      sender: message.from[0] || { email: 'unknown@example.com' },
+      body: message.body,
+      body_text: bodyText,
+      body_clean: bodyClean,
+      received_date: (message.receivedAt || new Date()).toISOString(),
+      to_recipients: message.to,
+      cc_recipients: message.cc,
+      bcc_recipients: message.bcc,
+      reply_to: message.replyTo,
+      attachments: message.attachments,
+      folders: message.folders,
+      unread: message.unread,
+      starred: message.starred,
+      snippet: message.snippet,
+      headers: message.headers,
+      parsed_headers: parseHeaders(message.headers),
+      in_reply_to: message.inReplyTo,
+      metadata: message.metadata,
+      tracking_options: message.trackingOptions,
+    };
+  }
+  
+  private async linkContacts(threadDbId: string, messageDbId: string, record: Record<string, any>): Promise<void> {
+    try {
+      await this.contacts.linkMessage(threadDbId, messageDbId, {
+        sender: record.sender,
+        to_recipients: record.to_recipients,
+        cc_recipients: record.cc_recipients,
+        bcc_recipients: record.bcc_recipients,
+        reply_to: record.reply_to,
+      });
+    } catch (error) {
+      // Don't throw - `yarn contacts link` picks up messages without participants
+      console.error(`[Sync] Error linking contacts for message ${messageDbId}:`, error);
+    }
+  }
+  
+  private async refreshContacts(threadDbId: string): Promise<void> {
+    try {
+      await this.contacts.refreshThread(threadDbId);
+    } catch (error) {
+      // Don't throw - contact counts are refreshed on the next message they appear on
+      console.error(`[Sync] Error refreshing contacts for thread ${threadDbId}:`, error);
+    }
   }
   
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private async ingestAttachments(grantId: string, messageDbId: string, message: ProviderMessage): Promise<void> {
+    try {
+      await this.attachments.ingestMessage(grantId, messageDbId, message);
+    } catch (error) {
+      // Don't throw - attachment content can be re-ingested on a later sync
+      console.error(`[Sync] Error ingesting attachments for message ${message.id}:`, error);
+    }
   }
   
-  async syncThread(inboxId: string, threadData: any): Promise<void> {
+  async syncThread(inboxId: string, threadData: any, options: SyncOptions = {}): Promise<void> {
     if (!threadData?.id) {
       console.error('[Sync] Thread data missing or missing ID', {
         hasThreadData: !!threadData,
@@ -308,8 +553,23 @@ export class NylasSync {
       throw new Error('Missing thread data or thread ID');
     }
     
+    // Older payloads carry no folders - nothing to decide on
+    const folders = Array.isArray(threadData.folders) ? threadData.folders : null;
+    if (options.folderPolicy && folders && !allowsFolders(options.folderPolicy, folders)) {
+      const { data: existing } = await this.supabase
+        .from('support_email_threads')
+        .select('id')
+        .eq('nylas_thread_id', threadData.id)
+        .maybeSingle();
+      
+      if (!existing) {
+        console.log(`[Sync] Thread ${threadData.id} is in excluded folders and not stored, skipping`);
+        return;
+      }
+    }
+    
     // Upsert the thread
-    const { error: threadError } = await this.supabase
+    const { data: dbThread, error: threadError } = await this.supabase
       .from('support_email_threads')
       .upsert(
         {
@@ -328,12 +588,206 @@ export class NylasSync {
           onConflict: 'nylas_thread_id',
           ignoreDuplicates: false,
         }
-      );
+      )
+      .select('id')
+      .single();
     
     if (threadError) {
       throw new Error(`Failed to upsert thread: ${threadError.message}`);
     }
     
-    console.log(`[Sync] Synced thread ${threadData.id}`);
+    // The payload values are a hint - stored messages are the source of truth
+    const messageCount = await this.aggregates.recompute(dbThread.id);
+    
+    console.log(`[Sync] Synced thread ${threadData.id} (${messageCount} stored messages)`);
+  }
+  
+  async deleteMessage(messageId: string): Promise<void> {
+    console.log(`[Sync] Soft-deleting message ${messageId}`);
+    
+    const { data: message, error: fetchError } = await this.supabase
+      .from('support_email_messages')
+      .select('id, thread_id, deleted_at')
+      .eq('nylas_message_id', messageId)
+      .maybeSingle();
+    
+    if (fetchError) {
+      throw new Error(`Failed to fetch message ${messageId}: ${fetchError.message}`);
+    }
+    
+    if (!message) {
+      console.log(`[Sync] Message ${messageId} not found in database, nothing to delete`);
+      return;
+    }
+    
+    if (message.deleted_at) {
+      console.log(`[Sync] Message ${messageId} already deleted at ${message.deleted_at}, skipping`);
+      return;
+    }
+    
+    const now = new Date().toISOString();
+    
+    const { error: deleteError } = await this.supabase
+      .from('support_email_messages')
+      .update({ deleted_at: now })
+      .eq('id', message.id);
+    
+    if (deleteError) {
+      throw new Error(`Failed to soft-delete message ${messageId}: ${deleteError.message}`);
+    }
+    
+    // Entities sourced from this message no longer have a backing message
+    const { error: entityError } = await this.supabase
+      .from('email_extraction_entities')
+      .update({ retired_at: now })
+      .eq('source_message_id', message.id)
+      .is('retired_at', null);
+    
+    if (entityError) {
+      console.error(`[Sync] Error retiring entities for message ${messageId}:`, entityError);
+    }
+    
+    console.log(`[Sync] Soft-deleted message ${messageId} (DB ID: ${message.id})`);
+    
+    await this.refreshThreadAfterDelete(message.thread_id);
+    await this.refreshContacts(message.thread_id);
+  }
+  
+  async deleteThread(threadId: string): Promise<void> {
+    console.log(`[Sync] Soft-deleting thread ${threadId}`);
+    
+    const { data: thread, error: fetchError } = await this.supabase
+      .from('support_email_threads')
+      .select('id, deleted_at')
+      .eq('nylas_thread_id', threadId)
+      .maybeSingle();
+    
+    if (fetchError) {
+      throw new Error(`Failed to fetch thread ${threadId}: ${fetchError.message}`);
+    }
+    
+    if (!thread) {
+      console.log(`[Sync] Thread ${threadId} not found in database, nothing to delete`);
+      return;
+    }
+    
+    if (thread.deleted_at) {
+      console.log(`[Sync] Thread ${threadId} already deleted at ${thread.deleted_at}, skipping`);
+      return;
+    }
+    
+    await this.softDeleteThread(thread.id);
+    await this.refreshContacts(thread.id);
+    
+    console.log(`[Sync] Soft-deleted thread ${threadId} (DB ID: ${thread.id})`);
+  }
+  
+  private async softDeleteThread(threadDbId: string): Promise<void> {
+    const now = new Date().toISOString();
+    
+    // Cascade to every message still live in the thread
+    const { error: messagesError } = await this.supabase
+      .from('support_email_messages')
+      .update({ deleted_at: now })
+      .eq('thread_id', threadDbId)
+      .is('deleted_at', null);
+    
+    if (messagesError) {
+      throw new Error(`Failed to soft-delete messages for thread ${threadDbId}: ${messagesError.message}`);
+    }
+    
+    const { error: threadError } = await this.supabase
+      .from('support_email_threads')
+      .update({
+        deleted_at: now,
+        updated_at: now,
+      })
+      .eq('id', threadDbId);
+    
+    if (threadError) {
+      throw new Error(`Failed to soft-delete thread ${threadDbId}: ${threadError.message}`);
+    }
+    
+    await this.retireExtractions(threadDbId, now);
+  }
+  
+  private async refreshThreadAfterDelete(threadDbId: string): Promise<void> {
+    // Recompute thread aggregates from the messages that are still live
+    const remaining = await this.aggregates.recompute(threadDbId);
+    
+    if (remaining === 0) {
+      // Last message is gone - the thread is gone too
+      console.log(`[Sync] Thread ${threadDbId} has no remaining messages, soft-deleting thread`);
+      await this.softDeleteThread(threadDbId);
+      return;
+    }
+    
+    // The extraction was built from content that no longer exists
+    const { error: staleError } = await this.supabase
+      .from('email_extractions')
+      .update({
+        is_stale: true,
+        stale_reason: 'message_deleted',
+      })
+      .eq('thread_id', threadDbId)
+      .is('retired_at', null);
+    
+    if (staleError) {
+      console.error(`[Sync] Error flagging extraction stale for thread ${threadDbId}:`, staleError);
+    }
+    
+    console.log(`[Sync] Refreshed thread ${threadDbId} aggregates (${remaining} messages remain)`);
+  }
+  
+  private async retireExtractions(threadDbId: string, retiredAt: string): Promise<void> {
+    const { data: extractions, error } = await this.supabase
+      .from('email_extractions')
+      .update({ retired_at: retiredAt })
+      .eq('thread_id', threadDbId)
+      .is('retired_at', null)
+      .select('id');
+    
+    if (error) {
+      console.error(`[Sync] Error retiring extractions for thread ${threadDbId}:`, error);
+      return;
+    }
+    
+    const extractionIds = (extractions || []).map(e => e.id);
+    if (extractionIds.length === 0) {
+      return;
+    }
+    
+    const { error: entityError } = await this.supabase
+      .from('email_extraction_entities')
+      .update({ retired_at: retiredAt })
+      .in('extraction_id', extractionIds)
+      .is('retired_at', null);
+    
+    if (entityError) {
+      console.error(`[Sync] Error retiring entities for thread ${threadDbId}:`, entityError);
+    }
+    
+    console.log(`[Sync] Retired ${extractionIds.length} extraction(s) for thread ${threadDbId}`);
   }
 }
+
+function sameFolders(stored: unknown, folders: string[]): boolean {
+  if (!Array.isArray(stored) || stored.length !== folders.length) {
+    return false;
+  }
+  
+  const sortedStored = [...stored].sort();
+  return [...folders].sort().every((folder, i) => folder === sortedStored[i]);
+}
+
+// Attachments are matched by id and compared on the fields that identify their content
+function sameAttachments(stored: unknown, attachments: ProviderAttachment[]): boolean {
+  if (!Array.isArray(stored) || stored.length !== attachments.length) {
+    return false;
+  }
+  
+  const key = (attachment: any) =>
+    JSON.stringify([attachment?.id ?? null, attachment?.size ?? null, attachment?.contentType ?? attachment?.content_type ?? null]);
+  const storedKeys = stored.map(key).sort();
+  return attachments.map(key).sort().every((attachmentKey, i) => attachmentKey === storedKeys[i]);
+}
@@ -0,0 +1,450 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { AbstractNylasApiError, Message } from 'nylas';
+import { config, outboxSendMaxMs } from './config';
+import { NylasClient } from './nylas-client';
+import { NylasSync } from './nylas-sync';
+import { toProviderMessage } from './nylas-provider';
+import { MailboxAddresses, ReplySourceMessage, replyRecipients } from './reply-recipients';
+
+interface OutboxJob {
+  msg_id: number;
+  read_ct: number;
+  enqueued_at: string;
+  vt: string;
+  message: {
+    outbox_id: string;
+  };
+}
+
+interface OutboxEntry {
+  id: string;
+  inbox_id: string;
+  thread_id: string | null;
+  kind: 'reply' | 'compose';
+  to_recipients: Recipient[];
+  cc_recipients: Recipient[];
+  bcc_recipients: Recipient[];
+  subject: string | null;
+  body: string;
+  status: 'pending' | 'sending' | 'sent' | 'failed';
+}
+
+interface Recipient {
+  email: string;
+  name?: string;
+}
+
+/**
+ * A send that will never succeed as requested (bad recipients, missing thread, 4xx from Nylas)
+ */
+class PermanentSendError extends Error {}
+
+/**
+ * A send that failed without a clear answer from Nylas (timeout, lost connection, 5xx):
+ * the message may have gone out, so it must not be sent again automatically
+ */
+class UncertainSendError extends Error {}
+
+/**
+ * Sends replies and new messages queued in support_email_outbox (PGMQ queue email_outbox)
+ */
+export class OutboxProcessor {
+  private supabase: SupabaseClient;
+  private nylas: NylasClient;
+  private sync: NylasSync;
+  private mailboxAddresses: MailboxAddresses;
+  private isRunning = false;
+  
+  constructor() {
+    this.supabase = createClient(
+      config.supabase.url,
+      config.supabase.serviceKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+    
+    this.nylas = NylasClient.getInstance();
+    this.sync = new NylasSync(this.supabase);
+    this.mailboxAddresses = new MailboxAddresses(this.nylas);
+  }
+  
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.log('[Outbox] Already running');
+      return;
+    }
+    
+    if (!config.outbox.enabled) {
+      console.log('[Outbox] Disabled by configuration');
+      return;
+    }
+    
+    this.isRunning = true;
+    console.log(`[Outbox] Starting outbox processor (TESTING MODE: ${config.testingMode ? 'ENABLED' : 'DISABLED'})`);
+    
+    if (config.testingMode) {
+      console.log('[Outbox] ⚠️  TESTING MODE - Nothing will be sent, messages stay in the queue');
+    }
+    
+    await this.runWorker();
+  }
+  
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+    
+    console.log('[Outbox] Stopping outbox processor');
+    this.isRunning = false;
+    console.log('[Outbox] Stopped');
+  }
+  
+  private async runWorker(): Promise<void> {
+    console.log('[Outbox] Outbox processor started. Listening for outbound email...');
+    
+    while (this.isRunning) {
+      try {
+        const { data, error } = await this.supabase
+          .schema('pgmq_public')
+          .rpc('read', {
+            queue_name: 'email_outbox',
+            sleep_seconds: config.outbox.visibilityTimeout,
+            n: config.outbox.batchSize,
+          });
+        
+        if (error) {
+          throw new Error(`Failed to read from outbox queue: ${error.message}`);
+        }
+        
+        const jobs = (data || []) as OutboxJob[];
+        
+        if (jobs.length === 0) {
+          await this.delay(config.outbox.pollIntervalMs);
+          continue;
+        }
+        
+        console.log(`[Outbox] Processing ${jobs.length} outbound messages`);
+        
+        for (let i = 0; i < jobs.length; i++) {
+          // A send must finish before its message is visible to the next read
+          if (Date.parse(jobs[i].vt) - Date.now() <= outboxSendMaxMs()) {
+            console.warn(`[Outbox] Visibility timeout too close, leaving ${jobs.length - i} messages to the next read`);
+            break;
+          }
+          
+          await this.processJob(jobs[i]);
+        }
+      
+      } catch (error) {
+        console.error('[Outbox] Worker error:', error);
+        await this.delay(2000);
+      }
+    }
+  }
+  
+  private async processJob(job: OutboxJob): Promise<void> {
+    const { msg_id, read_ct } = job;
+    const outboxId = job.message?.outbox_id;
+    
+    if (!outboxId) {
+      console.error(`[Outbox] Queue message ${msg_id} has no outbox_id, dropping`);
+      await this.deleteJob(msg_id);
+      return;
+    }
+    
+    const { data: entry, error: fetchError } = await this.supabase
+      .from('support_email_outbox')
+      .select('id, inbox_id, thread_id, kind, to_recipients, cc_recipients, bcc_recipients, subject, body, status')
+      .eq('id', outboxId)
+      .maybeSingle();
+    
+    if (fetchError) {
+      // Leave the message in the queue - it becomes visible again after the timeout
+      console.error(`[Outbox] Error fetching outbox entry ${outboxId}:`, fetchError);
+      return;
+    }
+    
+    if (!entry || entry.status === 'sent' || entry.status === 'failed') {
+      console.log(`[Outbox] Outbox entry ${outboxId} is ${entry ? entry.status : 'missing'}, dropping queue message ${msg_id}`);
+      await this.deleteJob(msg_id);
+      return;
+    }
+    
+    // A previous attempt died between marking the entry and hearing back from Nylas. The message
+    // may have gone out - fail it for a human to check rather than risk sending it twice.
+    if (entry.status === 'sending') {
+      await this.failEntry(msg_id, outboxId, 'Interrupted while sending - check the sent folder before retrying');
+      return;
+    }
+    
+    if (read_ct > config.outbox.maxAttempts) {
+      await this.failEntry(msg_id, outboxId, `Exceeded retry limit (${read_ct - 1} attempts)`);
+      return;
+    }
+    
+    console.log(`[Outbox] Sending ${entry.kind} ${outboxId} (attempt ${read_ct}/${config.outbox.maxAttempts})`);
+    
+    if (config.testingMode) {
+      console.log(`[TEST MODE] Would send ${entry.kind} ${outboxId} - skipping`);
+      return;
+    }
+    
+    try {
+      await this.send(entry as OutboxEntry, read_ct);
+      await this.deleteJob(msg_id);
+    
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      
+      if (error instanceof UncertainSendError) {
+        await this.failEntry(msg_id, outboxId, `${errorMessage} - check the sent folder before retrying`);
+        return;
+      }
+      
+      if (this.isPermanent(error)) {
+        await this.failEntry(msg_id, outboxId, errorMessage);
+        return;
+      }
+      
+      console.error(`[Outbox] Error sending ${outboxId} (will retry):`, error);
+      
+      const { error: updateError } = await this.supabase
+        .from('support_email_outbox')
+        .update({
+          status: 'pending',
+          last_error: errorMessage,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', outboxId);
+      
+      if (updateError) {
+        console.error('[Outbox] Error updating outbox status:', updateError);
+      }
+    }
+  }
+  
+  private async send(entry: OutboxEntry, attempt: number): Promise<void> {
+    const { data: inbox, error: inboxError } = await this.supabase
+      .from('support_inboxes')
+      .select('id, nylas_grant_id')
+      .eq('id', entry.inbox_id)
+      .single();
+    
+    if (inboxError || !inbox) {
+      throw new Error(`Failed to fetch inbox ${entry.inbox_id}: ${inboxError?.message}`);
+    }
+    
+    if (!inbox.nylas_grant_id) {
+      throw new PermanentSendError(`Inbox ${entry.inbox_id} has no connected grant`);
+    }
+    
+    const grantId: string = inbox.nylas_grant_id;
+    let to = entry.to_recipients || [];
+    let subject = entry.subject;
+    let replyToMessageId: string | undefined;
+    
+    if (entry.kind === 'reply') {
+      const reply = await this.resolveReply(entry, grantId);
+      replyToMessageId = reply.replyToMessageId;
+      to = to.length > 0 ? to : reply.to;
+      subject = subject || reply.subject;
+    }
+    
+    if (to.length === 0) {
+      throw new PermanentSendError('No recipients');
+    }
+    
+    // Claim the entry before calling Nylas so a crash mid-send is never retried blindly
+    const { error: claimError } = await this.supabase
+      .from('support_email_outbox')
+      .update({
+        status: 'sending',
+        attempts: attempt,
+        reply_to_message_id: replyToMessageId || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', entry.id);
+    
+    if (claimError) {
+      throw new Error(`Failed to mark outbox entry ${entry.id} as sending: ${claimError.message}`);
+    }
+    
+    let sent: Message;
+    try {
+      const response = await this.nylas.call(
+        grantId,
+        'messages.send',
+        (nylas) =>
+          nylas.messages.send({
+            identifier: grantId,
+            requestBody: {
+              to,
+              cc: entry.cc_recipients || [],
+              bcc: entry.bcc_recipients || [],
+              subject: subject || '(No Subject)',
+              body: entry.body,
+              ...(replyToMessageId && { replyToMessageId }),
+            },
+          }),
+        { idempotent: false, maxRetries: config.outbox.sendMaxRetries }
+      );
+      sent = response.data;
+    } catch (error) {
+      if (!this.isRejected(error)) {
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        throw new UncertainSendError(`Send failed without an answer from Nylas (${reason.substring(0, 200)})`);
+      }
+      
+      // Nylas turned the send down - release the claim so it can be retried or failed
+      await this.supabase
+        .from('support_email_outbox')
+        .update({ status: 'pending' })
+        .eq('id', entry.id);
+      throw error;
+    }
+    
+    let messageDbId: string | null = null;
+    try {
+      messageDbId = await this.sync.recordSentMessage(grantId, inbox.id, toProviderMessage(sent));
+    } catch (error) {
+      // Don't throw - the message is sent; the message.created webhook will sync it
+      console.error(`[Outbox] Error recording sent message ${sent?.id}:`, error);
+    }
+    
+    const { error: updateError } = await this.supabase
+      .from('support_email_outbox')
+      .update({
+        status: 'sent',
+        last_error: null,
+        nylas_message_id: sent?.id || null,
+        message_id: messageDbId,
+        sent_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', entry.id);
+    
+    if (updateError) {
+      console.error('[Outbox] Error updating outbox status:', updateError);
+    }
+    
+    console.log(`[Outbox] Sent ${entry.kind} ${entry.id} as message ${sent?.id}`);
+  }
+  
+  /**
+   * Reply target for a thread: its latest message, addressed to the latest inbound sender
+   */
+  private async resolveReply(
+    entry: OutboxEntry,
+    grantId: string
+  ): Promise<{ replyToMessageId: string; to: Recipient[]; subject: string }> {
+    const { data: thread, error: threadError } = await this.supabase
+      .from('support_email_threads')
+      .select('id, inbox_id, subject, deleted_at')
+      .eq('id', entry.thread_id)
+      .maybeSingle();
+    
+    if (threadError) {
+      throw new Error(`Failed to fetch thread ${entry.thread_id}: ${threadError.message}`);
+    }
+    
+    if (!thread || thread.deleted_at) {
+      throw new PermanentSendError(`Thread ${entry.thread_id} not found or deleted`);
+    }
+    
+    if (thread.inbox_id !== entry.inbox_id) {
+      throw new PermanentSendError(`Thread ${entry.thread_id} does not belong to inbox ${entry.inbox_id}`);
+    }
+    
+    const { data: messages, error: messagesError } = await this.supabase
+      .from('support_email_messages')
+      .select<string, ReplySourceMessage & { nylas_message_id: string }>('nylas_message_id, sender, reply_to, to_recipients')
+      .eq('thread_id', thread.id)
+      .is('deleted_at', null)
+      .order('received_date', { ascending: false })
+      .limit(20);
+    
+    if (messagesError) {
+      throw new Error(`Failed to fetch messages for thread ${thread.id}: ${messagesError.message}`);
+    }
+    
+    if (!messages || messages.length === 0) {
+      throw new PermanentSendError(`Thread ${thread.id} has no messages to reply to`);
+    }
+    
+    // Messages sent from the mailbox itself are recognised by their sender address
+    const to = replyRecipients(messages, [await this.mailboxAddresses.forGrant(grantId)]);
+    
+    const threadSubject = thread.subject || '';
+    
+    return {
+      replyToMessageId: messages[0].nylas_message_id,
+      to,
+      subject: /^re:/i.test(threadSubject) ? threadSubject : `Re: ${threadSubject}`,
+    };
+  }
+  
+  private isPermanent(error: unknown): boolean {
+    if (error instanceof PermanentSendError) {
+      return true;
+    }
+    
+    // NylasClient has already retried 429s; any other 4xx won't change on retry
+    return error instanceof AbstractNylasApiError
+      && !!error.statusCode
+      && error.statusCode >= 400
+      && error.statusCode < 500
+      && error.statusCode !== 429;
+  }
+  
+  /**
+   * Whether Nylas answered the send with a 4xx (including 429), so nothing was sent
+   */
+  private isRejected(error: unknown): boolean {
+    return error instanceof AbstractNylasApiError
+      && !!error.statusCode
+      && error.statusCode >= 400
+      && error.statusCode < 500;
+  }
+  
+  private async failEntry(msgId: number, outboxId: string, reason: string): Promise<void> {
+    console.log(`[Outbox] Outbox entry ${outboxId} failed: ${reason}`);
+    
+    const { error: updateError } = await this.supabase
+      .from('support_email_outbox')
+      .update({
+        status: 'failed',
+        last_error: reason,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', outboxId);
+    
+    if (updateError) {
+      // Keep the queue message so the failure isn't lost
+      console.error('[Outbox] Error updating outbox status:', updateError);
+      return;
+    }
+    
+    await this.deleteJob(msgId);
+  }
+  
+  private async deleteJob(msgId: number): Promise<void> {
+    const { error } = await this.supabase
+      .schema('pgmq_public')
+      .rpc('delete', {
+        queue_name: 'email_outbox',
+        message_id: msgId,
+      });
+    
+    if (error) {
+      console.error(`[Outbox] Error deleting message ${msgId} from queue:`, error);
+    }
+  }
+  
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,61 @@
+import { config, validateConfig } from './config';
+import { OutboxProcessor } from './outbox-processor';
+
+let processor: OutboxProcessor | null = null;
+let isShuttingDown = false;
+
+async function main() {
+  try {
+    console.log('[Outbox] Starting Outbox Processor...');
+    
+    // Validate configuration
+    validateConfig();
+    
+    // Create and start outbox processor
+    processor = new OutboxProcessor();
+    await processor.start();
+    
+    console.log('[Outbox] Outbox Processor started successfully');
+    console.log('[Outbox] Sending queued replies and new messages');
+  
+  } catch (error) {
+    console.error('[Outbox] Failed to start:', error);
+    process.exit(1);
+  }
+}
+
+// Graceful shutdown
+async function shutdown(signal: string) {
+  if (isShuttingDown) {
+    console.log('[Outbox] Shutdown already in progress...');
+    return;
+  }
+  
+  isShuttingDown = true;
+  console.log(`\n[Outbox] Received ${signal}, shutting down gracefully...`);
+  
+  if (processor) {
+    await processor.stop();
+  }
+  
+  console.log('[Outbox] Shutdown complete');
+  process.exit(0);
+}
+
+// Handle shutdown signals
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+// Handle uncaught errors
+process.on('uncaughtException', (error) => {
+  console.error('[Outbox] Uncaught exception:', error);
+  shutdown('uncaughtException');
+});
+
+process.on('unhandledRejection', (reason, promise) => {
+  console.error('[Outbox] Unhandled rejection at:', promise, 'reason:', reason);
+  shutdown('unhandledRejection');
+});
+
+// Start the service
+main();
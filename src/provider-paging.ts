@@ -0,0 +1,27 @@
+import { ProviderPage } from './email-provider';
+
+/**
+ * Filtering and paging for in-memory providers (fixtures, imports)
+ */
+
+// Same semantics as the Nylas filters: after is inclusive, before is exclusive
+export function inRange(date: Date | null, after?: Date, before?: Date): boolean {
+  if (!after && !before) {
+    return true;
+  }
+  if (!date) {
+    return false;
+  }
+  return (!after || date >= after) && (!before || date < before);
+}
+
+// Page tokens are plain offsets
+export function paginate<T>(items: T[], limit = 100, pageToken?: string): ProviderPage<T> {
+  const offset = pageToken ? parseInt(pageToken, 10) : 0;
+  const end = offset + limit;
+  
+  return {
+    data: items.slice(offset, end),
+    nextCursor: end < items.length ? String(end) : undefined,
+  };
+}
@@ -1,21 +1,25 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from './config';
 import { NotificationHandler } from './notification-handler';
+import { NotificationValidationError } from './notification-schema';
+import { coalesceNotifications, NotificationGroup } from './notification-coalescer';
 
-interface QueueMessage {
+export interface WebhookQueuePayload {
+  notification_id: string;
+  webhook_id: string;
+  inbox_id: string;
+  notification_type: string;
+  grant_id: string;
+  payload: any;
+  received_at: string;
+}
+
+export interface QueueMessage {
   msg_id: number;
   read_ct: number;
   enqueued_at: string;
   vt: string;
-  message: {
-    notification_id: string;
-    webhook_id: string;
-    inbox_id: string;
-    notification_type: string;
-    grant_id: string;
-    payload: any;
-    received_at: string;
-  };
+  message: WebhookQueuePayload;
 }
 
 export class QueueProcessor {
@@ -73,32 +77,46 @@ export class QueueProcessor {
     // Continuously poll the queue
     while (this.isRunning) {
       try {
-        // Read from queue using direct PGMQ function
-        const { data, error } = await this.supabase
-          .schema('pgmq_public')
-          .rpc('read', {
-            queue_name: 'nylas_webhook_notifications',
-            sleep_seconds: 60,
-            n: config.queue.batchSize,
-          });
-        
-        if (error) {
-          console.error('[Processor] Error reading from queue:', error);
-          await this.delay(2000);
-          continue;
-        }
+        const messages = await this.readBatch();
         
         // If no messages, wait and repeat
-        if (!data || data.length === 0) {
+        if (messages.length === 0) {
           await this.delay(config.queue.pollIntervalMs);
           continue;
         }
         
-        console.log(`[Processor] Processing ${data.length} messages`);
+        console.log(`[Processor] Processing ${messages.length} messages`);
+        
+        // Messages past the retry limit are failed individually, never coalesced
+        const retryable: QueueMessage[] = [];
+        for (const msg of messages) {
+          if (msg.read_ct > 3) {
+            await this.failMessage(msg);
+          } else {
+            retryable.push(msg);
+          }
+        }
+        
+        const { groups, invalid } = coalesceNotifications(retryable);
+        
+        // Malformed payloads will never succeed - quarantine instead of retrying
+        for (const { msg, error } of invalid) {
+          await this.quarantineMessage(msg, error, 0);
+        }
         
-        // Process each message
-        for (const msg of data as QueueMessage[]) {
-          await this.processMessage(msg);
+        if (groups.length < retryable.length - invalid.length) {
+          console.log(`[Processor] Coalesced ${retryable.length - invalid.length} notifications into ${groups.length} syncs`);
+        }
+        
+        for (let i = 0; i < groups.length; i++) {
+          // Once a held message is visible again another read may pick it up - leave the rest to it
+          const visibleAgainAt = Math.min(...groups[i].messages.map((msg) => Date.parse(msg.vt)));
+          if (Date.now() >= visibleAgainAt) {
+            console.warn(`[Processor] Visibility timeout reached, leaving ${groups.length - i} unprocessed syncs to the next read`);
+            break;
+          }
+          
+          await this.processGroup(groups[i]);
         }
         
         await this.delay(1000);
@@ -110,62 +128,112 @@ export class QueueProcessor {
     }
   }
   
-  private async processMessage(msg: QueueMessage): Promise<void> {
-    const startTime = Date.now();
-    const { msg_id, read_ct, message: payload } = msg;
+  /**
+   * Read a batch, then keep reading for the coalescing window so bursts of
+   * notifications for the same object land in the same batch. Messages stay hidden for
+   * VISIBILITY_TIMEOUT from their read, which has to cover the window and the processing.
+   */
+  private async readBatch(): Promise<QueueMessage[]> {
+    const messages: QueueMessage[] = [];
+    const windowEnd = Date.now() + config.queue.coalesceWindowMs;
     
-    // Check if message has been retried too many times
-    if (read_ct > 3) {
-      console.log(`[Processor] Message ${msg_id} has been retried ${read_ct} times. Marking as failed.`);
-      
-      // Update notification status to error
-      const { error: updateError } = await this.supabase
-        .from('support_webhook_notifications')
-        .update({ 
-          status: 'error',
-          error_message: `Exceeded retry limit (${read_ct} attempts)`,
-          processed_at: new Date().toISOString(),
-        })
-        .eq('id', payload.notification_id);
-      
-      if (updateError) {
-        console.error('[Processor] Error updating notification status:', updateError);
-      }
-      
-      // Remove the message from the queue
-      const { error: deleteError } = await this.supabase
+    while (messages.length < config.queue.coalesceMaxMessages) {
+      // Read from queue using direct PGMQ function
+      const { data, error } = await this.supabase
         .schema('pgmq_public')
-        .rpc('delete', {
+        .rpc('read', {
           queue_name: 'nylas_webhook_notifications',
-          message_id: msg_id,
+          sleep_seconds: config.queue.visibilityTimeout,
+          n: Math.min(config.queue.batchSize, config.queue.coalesceMaxMessages - messages.length),
         });
       
-      if (deleteError) {
-        console.error('[Processor] Error deleting failed message from queue:', deleteError);
-      } else {
-        console.log(`[Processor] Removed failed message ${msg_id} from queue`);
+      if (error) {
+        if (messages.length > 0) {
+          // Process what we already hold rather than letting it time out
+          console.error('[Processor] Error reading from queue, processing partial batch:', error);
+          break;
+        }
+        throw new Error(`Failed to read from queue: ${error.message}`);
       }
       
-      return;
+      messages.push(...((data || []) as QueueMessage[]));
+      
+      // Nothing read yet - no window to wait for
+      if (messages.length === 0) {
+        break;
+      }
+      
+      const remaining = windowEnd - Date.now();
+      if (remaining <= 0) {
+        break;
+      }
+      
+      // A full batch means more may be waiting; otherwise give the burst time to arrive
+      if (!data || data.length < config.queue.batchSize) {
+        await this.delay(Math.min(remaining, 500));
+      }
+    }
+    
+    return messages;
+  }
+  
+  private async failMessage(msg: QueueMessage): Promise<void> {
+    const { msg_id, read_ct, message: payload } = msg;
+    
+    console.log(`[Processor] Message ${msg_id} has been retried ${read_ct} times. Marking as failed.`);
+    
+    // Update notification status to error
+    const { error: updateError } = await this.supabase
+      .from('support_webhook_notifications')
+      .update({ 
+        status: 'error',
+        error_message: `Exceeded retry limit (${read_ct} attempts)`,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', payload.notification_id);
+    
+    if (updateError) {
+      console.error('[Processor] Error updating notification status:', updateError);
     }
     
+    // Remove the message from the queue
+    const { error: deleteError } = await this.supabase
+      .schema('pgmq_public')
+      .rpc('delete', {
+        queue_name: 'nylas_webhook_notifications',
+        message_id: msg_id,
+      });
+    
+    if (deleteError) {
+      console.error('[Processor] Error deleting failed message from queue:', deleteError);
+    } else {
+      console.log(`[Processor] Removed failed message ${msg_id} from queue`);
+    }
+  }
+  
+  private async processGroup(group: NotificationGroup): Promise<void> {
+    const startTime = Date.now();
+    const notificationIds = group.messages.map((msg) => msg.message.notification_id);
+    const attempt = Math.max(...group.messages.map((msg) => msg.read_ct));
+    
     try {
       console.log(
-        `[Processor] Processing notification ${payload.notification_id} (${payload.notification_type}) - attempt ${read_ct}`
+        `[Processor] Processing ${group.notificationType} for ${group.key} ` +
+        `(${group.messages.length} notification${group.messages.length === 1 ? '' : 's'}) - attempt ${attempt}`
       );
       
       // Update status to processing
       await this.supabase
         .from('support_webhook_notifications')
         .update({ status: 'processing' })
-        .eq('id', payload.notification_id);
+        .in('id', notificationIds);
       
-      // Process the notification
+      // Process the effective notification once for the whole group
       await this.handler.handle(
-        payload.notification_type,
-        payload.grant_id,
-        payload.inbox_id,
-        payload.payload
+        group.notificationType,
+        group.grantId,
+        group.inboxId,
+        group.payload
       );
       
       const duration = Date.now() - startTime;
@@ -174,14 +242,14 @@ export class QueueProcessor {
       if (config.testingMode) {
         console.log('═══════════════════════════════════════════════');
         console.log('[TEST MODE] Message processed successfully');
-        console.log(`[TEST MODE] Notification ID: ${payload.notification_id}`);
-        console.log(`[TEST MODE] Type: ${payload.notification_type}`);
+        console.log(`[TEST MODE] Notification IDs: ${notificationIds.join(', ')}`);
+        console.log(`[TEST MODE] Type: ${group.notificationType}`);
         console.log(`[TEST MODE] Duration: ${duration}ms`);
-        console.log(`[TEST MODE] Full Payload:`, JSON.stringify(payload, null, 2));
-        console.log('[TEST MODE] ⚠️  Message NOT deleted - will be visible again after visibility timeout');
+        console.log(`[TEST MODE] Full Payload:`, JSON.stringify(group.payload, null, 2));
+        console.log('[TEST MODE] ⚠️  Messages NOT deleted - will be visible again after visibility timeout');
         console.log('═══════════════════════════════════════════════\n');
       } else {
-        // Production mode - update status and delete from queue
+        // Production mode - update status for every coalesced notification and delete from queue
         const { error: updateError } = await this.supabase
           .from('support_webhook_notifications')
           .update({
@@ -189,40 +257,52 @@ export class QueueProcessor {
             processed_at: new Date().toISOString(),
             processing_duration_ms: duration,
           })
-          .eq('id', payload.notification_id);
+          .in('id', notificationIds);
         
         if (updateError) {
           console.error('[Processor] Error updating notification status:', updateError);
         }
         
-        // Remove message from queue
-        const { error: deleteError } = await this.supabase
-          .schema('pgmq_public')
-          .rpc('delete', {
-            queue_name: 'nylas_webhook_notifications',
-            message_id: msg_id,
-          });
-        
-        if (deleteError) {
-          console.error('[Processor] Error deleting message from queue:', deleteError);
-          return;
+        // Remove messages from queue
+        for (const { msg_id } of group.messages) {
+          const { error: deleteError } = await this.supabase
+            .schema('pgmq_public')
+            .rpc('delete', {
+              queue_name: 'nylas_webhook_notifications',
+              message_id: msg_id,
+            });
+          
+          if (deleteError) {
+            console.error(`[Processor] Error deleting message ${msg_id} from queue:`, deleteError);
+          }
         }
         
+        await this.recordWebhookProcessed(group);
+        
         console.log(
-          `[Processor] Successfully processed ${payload.notification_type} in ${duration}ms`
+          `[Processor] Successfully processed ${group.notificationType} in ${duration}ms`
         );
       }
       
     } catch (error) {
       const duration = Date.now() - startTime;
+      
+      // Malformed payloads will never succeed - quarantine instead of retrying
+      if (error instanceof NotificationValidationError) {
+        for (const msg of group.messages) {
+          await this.quarantineMessage(msg, error, duration);
+        }
+        return;
+      }
+      
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
       console.error(
-        `[Processor] Error processing notification ${payload.notification_id}:`,
+        `[Processor] Error processing notifications ${notificationIds.join(', ')}:`,
         error
       );
       
-      // Update notification with error (but don't delete from queue - let it retry)
+      // Update notifications with error (but don't delete from queue - let them retry)
       await this.supabase
         .from('support_webhook_notifications')
         .update({
@@ -230,9 +310,96 @@ export class QueueProcessor {
           error_message: errorMessage,
           processing_duration_ms: duration,
         })
-        .eq('id', payload.notification_id);
+        .in('id', notificationIds);
       
-      console.log(`[Processor] Marked notification as error after ${duration}ms (will retry)`);
+      console.log(`[Processor] Marked ${notificationIds.length} notification(s) as error after ${duration}ms (will retry)`);
+    }
+  }
+  
+  /**
+   * Advance the inbox's webhook cursor (used as the baseline for gap detection)
+   */
+  private async recordWebhookProcessed(group: NotificationGroup): Promise<void> {
+    if (!group.inboxId) {
+      return;
+    }
+    
+    const receivedAt = group.messages
+      .map((msg) => msg.message.received_at)
+      .filter(Boolean)
+      .sort()
+      .pop();
+    
+    const { error } = await this.supabase.rpc('record_webhook_processed', {
+      p_inbox_id: group.inboxId,
+      p_received_at: receivedAt || new Date().toISOString(),
+    });
+    
+    if (error) {
+      // Don't throw - the notification itself was processed
+      console.error(`[Processor] Error recording webhook cursor for inbox ${group.inboxId}:`, error);
+    }
+  }
+  
+  private async quarantineMessage(
+    msg: QueueMessage,
+    validationError: NotificationValidationError,
+    duration: number
+  ): Promise<void> {
+    const { msg_id, message: payload } = msg;
+    
+    console.warn(
+      `[Processor] Quarantining notification ${payload.notification_id} (${payload.notification_type}): ${validationError.validationError}`
+    );
+    
+    const { error: insertError } = await this.supabase
+      .from('support_webhook_quarantine')
+      .insert({
+        notification_id: payload.notification_id,
+        inbox_id: payload.inbox_id || null,
+        grant_id: payload.grant_id || null,
+        notification_type: payload.notification_type,
+        payload: payload.payload,
+        queue_message: payload,
+        validation_error: validationError.validationError,
+      });
+    
+    if (insertError) {
+      // Leave the message in the queue so the payload isn't lost
+      console.error('[Processor] Error writing quarantine entry:', insertError);
+      return;
+    }
+    
+    const { error: updateError } = await this.supabase
+      .from('support_webhook_notifications')
+      .update({
+        status: 'quarantined',
+        error_message: validationError.message,
+        processed_at: new Date().toISOString(),
+        processing_duration_ms: duration,
+      })
+      .eq('id', payload.notification_id);
+    
+    if (updateError) {
+      console.error('[Processor] Error updating notification status:', updateError);
+    }
+    
+    if (config.testingMode) {
+      console.log('[TEST MODE] ⚠️  Quarantined message NOT deleted from queue');
+      return;
+    }
+    
+    const { error: deleteError } = await this.supabase
+      .schema('pgmq_public')
+      .rpc('delete', {
+        queue_name: 'nylas_webhook_notifications',
+        message_id: msg_id,
+      });
+    
+    if (deleteError) {
+      console.error('[Processor] Error deleting quarantined message from queue:', deleteError);
+    } else {
+      console.log(`[Processor] Moved message ${msg_id} to quarantine`);
     }
   }
   
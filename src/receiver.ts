@@ -0,0 +1,61 @@
+import { config, validateConfig } from './config';
+import { WebhookReceiver } from './webhook-receiver';
+
+let processor: WebhookReceiver | null = null;
+let isShuttingDown = false;
+
+async function main() {
+  try {
+    console.log('[Receiver] Starting Webhook Receiver...');
+    
+    // Validate configuration
+    validateConfig();
+    
+    // Create and start webhook receiver
+    processor = new WebhookReceiver();
+    await processor.start();
+    
+    console.log('[Receiver] Webhook Receiver started successfully');
+    console.log('[Receiver] Accepting signed Nylas webhooks and enqueueing them for the webhook processor');
+  
+  } catch (error) {
+    console.error('[Receiver] Failed to start:', error);
+    process.exit(1);
+  }
+}
+
+// Graceful shutdown
+async function shutdown(signal: string) {
+  if (isShuttingDown) {
+    console.log('[Receiver] Shutdown already in progress...');
+    return;
+  }
+  
+  isShuttingDown = true;
+  console.log(`\n[Receiver] Received ${signal}, shutting down gracefully...`);
+  
+  if (processor) {
+    await processor.stop();
+  }
+  
+  console.log('[Receiver] Shutdown complete');
+  process.exit(0);
+}
+
+// Handle shutdown signals
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+// Handle uncaught errors
+process.on('uncaughtException', (error) => {
+  console.error('[Receiver] Uncaught exception:', error);
+  shutdown('uncaughtException');
+});
+
+process.on('unhandledRejection', (reason, promise) => {
+  console.error('[Receiver] Unhandled rejection at:', promise, 'reason:', reason);
+  shutdown('unhandledRejection');
+});
+
+// Start the service
+main();
@@ -0,0 +1,73 @@
+import { createClient } from '@supabase/supabase-js';
+import { config, validateConfig } from './config';
+import { DriftReport, MailboxReconciler } from './mailbox-reconciler';
+
+/**
+ * Compare a rolling window of one inbox (or all connected inboxes) with Nylas and write drift
+ * reports to mailbox_drift_reports. Exits with code 2 when any drift was found, so a nightly
+ * cron job can alert on it.
+ *
+ * Usage:
+ *   yarn reconcile <inbox_id> [--days N] [--fix]
+ *   yarn reconcile --all [--days N] [--fix]
+ */
+async function main() {
+  const [target, ...args] = process.argv.slice(2);
+  const daysIndex = args.indexOf('--days');
+  const windowDays = daysIndex >= 0
+    ? parseInt(args[daysIndex + 1], 10)
+    : config.reconcile.windowDays;
+  const fix = args.includes('--fix');
+  
+  if (!target || !Number.isFinite(windowDays) || windowDays <= 0) {
+    console.error('Usage: reconcile <inbox_id> | --all [--days N] [--fix]');
+    process.exit(1);
+  }
+  
+  validateConfig();
+  
+  const supabase = createClient(
+    config.supabase.url,
+    config.supabase.serviceKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+  const reconciler = new MailboxReconciler(supabase);
+  const options = { windowDays, fix };
+  
+  let reports: DriftReport[];
+  if (target === '--all') {
+    reports = await reconciler.reconcileAll(options);
+  } else {
+    const report = await reconciler.reconcileInbox(target, options);
+    reports = report ? [report] : [];
+  }
+  
+  for (const report of reports) {
+    console.log(
+      `[Reconcile] Inbox ${report.inbox_id}: drift ${report.total_drift} ` +
+      `(missing threads ${report.missing_threads}, partial threads ${report.partial_threads}, ` +
+      `missing messages ${report.missing_messages}, orphaned threads ${report.orphaned_threads}, ` +
+      `orphaned messages ${report.orphaned_messages})` +
+      (report.fix_applied
+        ? ` - queued ${report.threads_queued} thread(s), soft-deleted ${report.threads_soft_deleted} thread(s) and ${report.messages_soft_deleted} message(s)`
+        : '')
+    );
+  }
+  
+  const drifted = reports.filter((report) => report.total_drift > 0);
+  console.log(`[Reconcile] Done - ${reports.length} inbox(es) checked over ${windowDays} day(s), ${drifted.length} with drift`);
+  
+  if (drifted.length > 0) {
+    process.exit(2);
+  }
+}
+
+main().catch((error) => {
+  console.error('[Reconcile] Failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+import { createClient } from '@supabase/supabase-js';
+import { config, validateConfig } from './config';
+import { ThreadAggregates } from './thread-aggregates';
+
+/**
+ * Recompute thread aggregates (message_count, latest_message_received_date, snippet,
+ * participants, unread, starred) for every thread in one inbox, or in all inboxes.
+ *
+ * Usage:
+ *   yarn repair-threads <inbox_id>
+ *   yarn repair-threads --all
+ */
+async function main() {
+  const target = process.argv[2];
+  
+  if (!target) {
+    console.error('Usage: repair-threads <inbox_id> | --all');
+    process.exit(1);
+  }
+  
+  validateConfig({ requireNylas: false });
+  
+  const supabase = createClient(
+    config.supabase.url,
+    config.supabase.serviceKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+  const aggregates = new ThreadAggregates(supabase);
+  
+  let inboxIds: string[] = [target];
+  
+  if (target === '--all') {
+    const { data, error } = await supabase
+      .from('support_inboxes')
+      .select('id');
+    
+    if (error) {
+      throw new Error(`Failed to fetch inboxes: ${error.message}`);
+    }
+    
+    inboxIds = (data || []).map((inbox) => inbox.id);
+  }
+  
+  let totalThreads = 0;
+  for (const inboxId of inboxIds) {
+    const startTime = Date.now();
+    const threads = await aggregates.recomputeInbox(inboxId);
+    totalThreads += threads;
+    console.log(`[Repair] Inbox ${inboxId}: recomputed ${threads} threads in ${Date.now() - startTime}ms`);
+  }
+  
+  console.log(`[Repair] Done - ${totalThreads} threads across ${inboxIds.length} inbox(es)`);
+}
+
+main().catch((error) => {
+  console.error('[Repair] Failed:', error);
+  process.exit(1);
+});
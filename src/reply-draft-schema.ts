@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+/**
+ * Reply Draft Schema
+ *
+ * LLM output for a suggested reply to the latest message of a thread. The body is plain text;
+ * the worker converts it to HTML and appends the tenant signature.
+ */
+
+// Bump when the drafting prompt changes so drafts can be compared per prompt version
+export const REPLY_PROMPT_VERSION = '1.0.0';
+
+export const ReplyDraftSchema = z.object({
+  subject: z.string()
+    .describe('Subject line for the reply (usually "Re: " + the thread subject)'),
+  
+  body: z.string()
+    .describe('Reply body as plain text paragraphs, without greeting placeholders or signature'),
+  
+  addressed_points: z.array(z.string())
+    .describe('Questions or requests from the latest message that this reply answers'),
+  
+  open_questions: z.array(z.string())
+    .describe('Facts the agent must confirm or fill in before sending (empty if none)'),
+  
+  confidence: z.number()
+    .min(0)
+    .max(1)
+    .describe('Confidence 0.0-1.0 that the draft can be sent with little or no editing'),
+});
+
+export type ReplyDraft = z.infer<typeof ReplyDraftSchema>;
@@ -0,0 +1,377 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { generateObject } from 'ai';
+import { openai, OpenAIResponsesProviderOptions } from '@ai-sdk/openai';
+import { anthropic } from '@ai-sdk/anthropic';
+import { config } from './config';
+import { NylasClient } from './nylas-client';
+import { MailboxAddresses, replyRecipients } from './reply-recipients';
+import { textToHtml } from './body-normalizer';
+import { ReplyDraftSchema, ReplyDraft, REPLY_PROMPT_VERSION } from './reply-draft-schema';
+import {
+  ThreadTranscriptLoader,
+  EmailMessage,
+  IncludedAttachment,
+  ATTACHMENT_CONTENT_INSTRUCTION,
+  formatTranscript,
+  sortByDate,
+} from './thread-transcript';
+
+// Row returned by get_reply_draft_candidates (migration 015)
+interface DraftCandidate {
+  extraction_id: string;
+  thread_id: string;
+  inbox_id: string;
+  tenant_id: string | null;
+  reply_expectation: string;
+  summary: string | null;
+  tasks: string[] | null;
+  reply_tone: string;
+  reply_guidelines: string | null;
+  reply_signature: string | null;
+  push_reply_drafts: boolean;
+}
+
+/**
+ * Writes suggested replies for threads whose current extraction expects a reply
+ * (reply_expectation 'expected' or 'required') and stores them in email_reply_drafts
+ */
+export class ReplyDraftWorker {
+  private supabase: SupabaseClient;
+  private transcripts: ThreadTranscriptLoader;
+  private nylas: NylasClient;
+  private mailboxAddresses: MailboxAddresses;
+  private isRunning = false;
+  private totalDrafted = 0;
+  private totalFailed = 0;
+  
+  constructor() {
+    this.supabase = createClient(
+      config.supabase.url,
+      config.supabase.serviceKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+    
+    this.transcripts = new ThreadTranscriptLoader(this.supabase, config.extraction.attachmentCharBudget);
+    this.nylas = NylasClient.getInstance();
+    this.mailboxAddresses = new MailboxAddresses(this.nylas);
+  }
+  
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.log('[ReplyDrafts] Already running');
+      return;
+    }
+    
+    if (!config.replyDrafts.enabled) {
+      console.log('[ReplyDrafts] Disabled by configuration');
+      return;
+    }
+    
+    this.isRunning = true;
+    console.log('[ReplyDrafts] Starting reply draft worker');
+    console.log(`[ReplyDrafts] Provider: ${config.replyDrafts.llmProvider}, Model: ${config.replyDrafts.llmModel}, Prompt version: ${REPLY_PROMPT_VERSION}`);
+    
+    await this.runWorker();
+  }
+  
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+    
+    console.log('[ReplyDrafts] Stopping reply draft worker');
+    this.isRunning = false;
+    console.log(`[ReplyDrafts] Stopped (drafted: ${this.totalDrafted}, failed: ${this.totalFailed})`);
+  }
+  
+  private async runWorker(): Promise<void> {
+    console.log('[ReplyDrafts] Worker started. Looking for threads that need a reply...');
+    
+    while (this.isRunning) {
+      try {
+        const { data, error } = await this.supabase.rpc('get_reply_draft_candidates', {
+          p_limit: config.replyDrafts.batchSize,
+          p_max_attempts: config.replyDrafts.maxAttempts,
+          p_max_age_hours: config.replyDrafts.maxAgeHours,
+        });
+        
+        if (error) {
+          throw new Error(`Failed to fetch reply draft candidates: ${error.message}`);
+        }
+        
+        const candidates = (data || []) as DraftCandidate[];
+        
+        if (candidates.length === 0) {
+          await this.delay(config.replyDrafts.pollIntervalMs);
+          continue;
+        }
+        
+        console.log(`[ReplyDrafts] Drafting replies for ${candidates.length} threads`);
+        
+        for (const candidate of candidates) {
+          await this.processCandidate(candidate);
+        }
+      
+      } catch (error) {
+        console.error('[ReplyDrafts] Worker error:', error);
+        await this.delay(5000);
+      }
+    }
+  }
+  
+  private async processCandidate(candidate: DraftCandidate): Promise<void> {
+    const startTime = Date.now();
+    const { extraction_id, thread_id } = candidate;
+    
+    // Earlier attempts for this extraction (only errored drafts are returned again)
+    const { data: previous } = await this.supabase
+      .from('email_reply_drafts')
+      .select('attempts')
+      .eq('extraction_id', extraction_id)
+      .maybeSingle();
+    const attempts = (previous?.attempts || 0) + 1;
+    
+    try {
+      console.log(`[ReplyDrafts] Drafting reply for thread ${thread_id} (${candidate.reply_expectation}, attempt ${attempts}/${config.replyDrafts.maxAttempts})`);
+      
+      const messages = await this.transcripts.fetchMessages(thread_id);
+      if (messages.length === 0) {
+        throw new Error(`No messages found for thread ${thread_id}`);
+      }
+      
+      const attachments = await this.transcripts.fetchAttachments(messages);
+      const { draft, tokens } = await this.draftWithLLM(candidate, messages, attachments);
+      
+      const sorted = sortByDate(messages);
+      const latest = sorted[sorted.length - 1];
+      const toRecipients = replyRecipients([...sorted].reverse(), await this.inboxAddresses(candidate.inbox_id));
+      const bodyText = candidate.reply_signature
+        ? `${draft.body.trim()}\n\n${candidate.reply_signature.trim()}`
+        : draft.body.trim();
+      
+      const { data: saved, error: saveError } = await this.supabase
+        .from('email_reply_drafts')
+        .upsert(
+          {
+            extraction_id,
+            thread_id,
+            inbox_id: candidate.inbox_id,
+            tenant_id: candidate.tenant_id,
+            reply_to_message_id: latest.id,
+            to_recipients: toRecipients,
+            subject: draft.subject,
+            body_text: bodyText,
+            body_html: textToHtml(bodyText),
+            addressed_points: draft.addressed_points,
+            open_questions: draft.open_questions,
+            confidence: draft.confidence,
+            tone: candidate.reply_tone,
+            model: `${config.replyDrafts.llmProvider}/${config.replyDrafts.llmModel}`,
+            prompt_version: REPLY_PROMPT_VERSION,
+            token_usage: tokens,
+            status: 'draft',
+            attempts,
+            error_message: null,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'extraction_id' }
+        )
+        .select('id, to_recipients, subject, body_html')
+        .single();
+      
+      if (saveError) {
+        throw new Error(`Failed to save reply draft: ${saveError.message}`);
+      }
+      
+      if (candidate.push_reply_drafts) {
+        await this.pushToMailbox(saved.id, candidate.inbox_id, latest.nylas_message_id, saved);
+      }
+      
+      this.totalDrafted++;
+      console.log(`[ReplyDrafts] ✓ Drafted reply for thread ${thread_id} in ${Date.now() - startTime}ms`);
+    
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[ReplyDrafts] Error drafting reply for thread ${thread_id}:`, error);
+      this.totalFailed++;
+      
+      // Recorded so the candidate query retries it until maxAttempts
+      const { error: saveError } = await this.supabase
+        .from('email_reply_drafts')
+        .upsert(
+          {
+            extraction_id,
+            thread_id,
+            inbox_id: candidate.inbox_id,
+            tenant_id: candidate.tenant_id,
+            status: 'error',
+            attempts,
+            error_message: errorMessage,
+            prompt_version: REPLY_PROMPT_VERSION,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'extraction_id' }
+        );
+      
+      if (saveError) {
+        console.error('[ReplyDrafts] Error recording draft failure:', saveError);
+      }
+    }
+  }
+  
+  private async draftWithLLM(
+    candidate: DraftCandidate,
+    messages: EmailMessage[],
+    attachments: IncludedAttachment[]
+  ): Promise<{ draft: ReplyDraft; tokens: number | null }> {
+    const prompt = this.formatDraftPrompt(candidate, messages, attachments);
+    const { llmProvider, llmModel, temperature } = config.replyDrafts;
+    
+    const model = llmProvider === 'anthropic'
+      ? anthropic(llmModel)
+      : openai(llmModel);
+    
+    // Use strictJsonSchema for OpenAI models to enforce schema compliance
+    const providerOptions = llmProvider === 'openai'
+      ? { openai: { strictJsonSchema: true } satisfies OpenAIResponsesProviderOptions }
+      : undefined;
+    
+    try {
+      const result = await generateObject({
+        model,
+        schema: ReplyDraftSchema,
+        schemaName: 'EmailReplyDraft',
+        schemaDescription: 'Suggested reply to the latest message of an email thread',
+        prompt,
+        temperature,
+        providerOptions,
+      });
+      
+      return { draft: result.object as ReplyDraft, tokens: result.usage?.totalTokens ?? null };
+    
+    } catch (error) {
+      throw new Error(`LLM reply drafting failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  private formatDraftPrompt(
+    candidate: DraftCandidate,
+    messages: EmailMessage[],
+    attachments: IncludedAttachment[]
+  ): string {
+    const sorted = sortByDate(messages);
+    const latest = sorted[sorted.length - 1];
+    const tasks = (candidate.tasks || []).map((task) => `- ${task}`).join('\n') || '- None recorded';
+    
+    return `
+# Email Reply Drafting
+
+You are drafting a reply on behalf of a New Home Star employee. The employee will review and edit the draft before it is sent.
+
+## Thread Context
+- **Latest Subject**: ${latest.subject || 'No subject'}
+- **Reply Expectation**: ${candidate.reply_expectation}
+- **Summary**: ${candidate.summary || 'Not available'}
+
+## Open Tasks
+${tasks}
+
+## Thread Transcript
+${formatTranscript(sorted, attachments)}
+
+## Style
+- **Tone**: ${candidate.reply_tone}
+${candidate.reply_guidelines ? `- **Guidelines**: ${candidate.reply_guidelines}\n` : ''}
+## Instructions
+1. Reply to the LATEST message in the thread, answering every question or request it contains.
+2. Only state facts that appear in the thread. Never invent prices, dates, commitments or policies - list anything the employee must confirm in 'open_questions' and phrase the body so it reads naturally until then.
+3. Open with a short greeting using the recipient's first name when known. Do not add a signature; it is appended automatically.
+4. Keep it concise: a few short paragraphs, plain text, no markdown.
+5. ${ATTACHMENT_CONTENT_INSTRUCTION}
+`;
+  }
+  
+  /**
+   * Addresses the inbox sends as, to tell its own messages apart (none without a grant,
+   * e.g. imported mail)
+   */
+  private async inboxAddresses(inboxId: string): Promise<string[]> {
+    const { data: inbox, error } = await this.supabase
+      .from('support_inboxes')
+      .select('nylas_grant_id')
+      .eq('id', inboxId)
+      .single();
+    
+    if (error) {
+      throw new Error(`Failed to fetch inbox ${inboxId}: ${error.message}`);
+    }
+    
+    return inbox?.nylas_grant_id ? [await this.mailboxAddresses.forGrant(inbox.nylas_grant_id)] : [];
+  }
+  
+  /**
+   * Create the draft in the mailbox so it shows up in the agent's mail client
+   */
+  private async pushToMailbox(
+    draftId: string,
+    inboxId: string,
+    replyToMessageId: string,
+    saved: { to_recipients: any[]; subject: string | null; body_html: string | null }
+  ): Promise<void> {
+    try {
+      const { data: inbox, error: inboxError } = await this.supabase
+        .from('support_inboxes')
+        .select('nylas_grant_id')
+        .eq('id', inboxId)
+        .single();
+      
+      if (inboxError || !inbox?.nylas_grant_id) {
+        throw new Error(`Inbox ${inboxId} has no connected grant`);
+      }
+      
+      const grantId: string = inbox.nylas_grant_id;
+      const response = await this.nylas.call(grantId, 'drafts.create', (nylas) =>
+        nylas.drafts.create({
+          identifier: grantId,
+          requestBody: {
+            to: saved.to_recipients,
+            subject: saved.subject || undefined,
+            body: saved.body_html || '',
+            replyToMessageId,
+          },
+        })
+      );
+      
+      await this.supabase
+        .from('email_reply_drafts')
+        .update({
+          status: 'pushed',
+          nylas_draft_id: response.data.id,
+          push_error: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', draftId);
+      
+      console.log(`[ReplyDrafts] Pushed draft ${draftId} to mailbox as ${response.data.id}`);
+    
+    } catch (error) {
+      // Don't throw - the draft is stored and can be used from the app
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[ReplyDrafts] Error pushing draft ${draftId} to mailbox:`, error);
+      
+      await this.supabase
+        .from('email_reply_drafts')
+        .update({ push_error: errorMessage, updated_at: new Date().toISOString() })
+        .eq('id', draftId);
+    }
+  }
+  
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
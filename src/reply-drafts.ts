@@ -0,0 +1,61 @@
+import { config, validateConfig } from './config';
+import { ReplyDraftWorker } from './reply-draft-worker';
+
+let worker: ReplyDraftWorker | null = null;
+let isShuttingDown = false;
+
+async function main() {
+  try {
+    console.log('[ReplyDrafts] Starting Reply Draft Worker...');
+    
+    // Validate configuration
+    validateConfig();
+    
+    // Create and start reply draft worker
+    worker = new ReplyDraftWorker();
+    await worker.start();
+    
+    console.log('[ReplyDrafts] Reply Draft Worker started successfully');
+    console.log('[ReplyDrafts] Drafting replies for threads that expect one');
+  
+  } catch (error) {
+    console.error('[ReplyDrafts] Failed to start:', error);
+    process.exit(1);
+  }
+}
+
+// Graceful shutdown
+async function shutdown(signal: string) {
+  if (isShuttingDown) {
+    console.log('[ReplyDrafts] Shutdown already in progress...');
+    return;
+  }
+  
+  isShuttingDown = true;
+  console.log(`\n[ReplyDrafts] Received ${signal}, shutting down gracefully...`);
+  
+  if (worker) {
+    await worker.stop();
+  }
+  
+  console.log('[ReplyDrafts] Shutdown complete');
+  process.exit(0);
+}
+
+// Handle shutdown signals
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+// Handle uncaught errors
+process.on('uncaughtException', (error) => {
+  console.error('[ReplyDrafts] Uncaught exception:', error);
+  shutdown('uncaughtException');
+});
+
+process.on('unhandledRejection', (reason, promise) => {
+  console.error('[ReplyDrafts] Unhandled rejection at:', promise, 'reason:', reason);
+  shutdown('unhandledRejection');
+});
+
+// Start the service
+main();
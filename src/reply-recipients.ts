@@ -0,0 +1,63 @@
+import { EmailAddress } from './email-provider';
+import { NylasClient } from './nylas-client';
+
+/**
+ * The address fields of a stored message (support_email_messages) a reply is addressed from
+ */
+export interface ReplySourceMessage {
+  sender: EmailAddress | null;
+  reply_to: EmailAddress[] | null;
+  to_recipients: EmailAddress[] | null;
+}
+
+/**
+ * Recipients of a reply in a thread. `messages` are newest first; `mailboxAddresses` are the
+ * addresses the mailbox sends as.
+ *
+ * The reply goes to the Reply-To (or sender) of the newest message someone else sent. When
+ * every message came from the mailbox (a thread we started), it goes to the recipients of the
+ * newest one, like replying to your own message in a mail client. The mailbox's own addresses
+ * are never included.
+ */
+export function replyRecipients(messages: ReplySourceMessage[], mailboxAddresses: string[]): EmailAddress[] {
+  const own = new Set(mailboxAddresses.map(normalizeAddress));
+  const isOwn = (address: EmailAddress | null | undefined) => !!address?.email && own.has(normalizeAddress(address.email));
+  
+  const inbound = messages.find((msg) => !isOwn(msg.sender));
+  const candidates = inbound
+    ? (inbound.reply_to || []).length > 0 ? inbound.reply_to! : [inbound.sender]
+    : messages[0]?.to_recipients || [];
+  
+  return candidates.filter((address): address is EmailAddress => !!address?.email && !isOwn(address));
+}
+
+function normalizeAddress(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Looks up (and caches) the address a grant's mailbox sends as
+ */
+export class MailboxAddresses {
+  private byGrant = new Map<string, string>();
+  
+  constructor(private nylas: NylasClient = NylasClient.getInstance()) {}
+  
+  async forGrant(grantId: string): Promise<string> {
+    const cached = this.byGrant.get(grantId);
+    if (cached) {
+      return cached;
+    }
+    
+    const response = await this.nylas.call(grantId, 'grants.find', (nylas) =>
+      nylas.grants.find({ grantId })
+    );
+    
+    if (!response.data.email) {
+      throw new Error(`Grant ${grantId} has no email address`);
+    }
+    
+    this.byGrant.set(grantId, response.data.email);
+    return response.data.email;
+  }
+}
@@ -4,6 +4,7 @@ import { anthropic } from '@ai-sdk/anthropic';
 import { openai, OpenAIResponsesProviderOptions } from '@ai-sdk/openai';
 import { config } from './config';
 import { SpamDetectionSchema, type SpamDetection } from './spam-detection-schema';
+import { describeHeaderSignals, type ParsedHeaders } from './header-parser';
 
 interface ThreadPreview {
   thread_id: string;
@@ -11,6 +12,7 @@ interface ThreadPreview {
   from_name: string;
   from_email: string;
   preview: string;
+  header_signals: string[];
   inbox_id: string;
   tenant_id: string;
 }
@@ -88,8 +90,9 @@ export class SpamDetector {
     // Get first message for preview
     const { data: messages, error: messageError } = await this.supabase
       .from('support_email_messages')
-      .select('sender, body, snippet')
+      .select('sender, body, body_clean, snippet, parsed_headers')
       .eq('thread_id', threadId)
+      .is('deleted_at', null)
       .order('received_date', { ascending: true })
       .limit(1);
     
@@ -104,8 +107,8 @@ export class SpamDetector {
     const from_name = sender?.name || 'Unknown';
     const from_email = sender?.email || '';
     
-    // Create preview (first 200 chars of body or snippet)
-    const preview = (message.snippet || message.body || '').slice(0, 200);
+    // Create preview (first 200 chars of the cleaned body; snippet/raw body for rows synced before normalization)
+    const preview = (message.body_clean || message.snippet || message.body || '').slice(0, 200);
     
     return {
       thread_id: threadId,
@@ -113,6 +116,7 @@ export class SpamDetector {
       from_name,
       from_email,
       preview,
+      header_signals: describeHeaderSignals(message.parsed_headers as ParsedHeaders | null),
       inbox_id: thread.inbox_id,
       tenant_id: inbox.tenant_id,
     };
@@ -140,11 +144,14 @@ export class SpamDetector {
 Thread Subject: ${preview.subject}
 From: ${preview.from_name} <${preview.from_email}>
 Preview: ${preview.preview}
+Header signals: ${preview.header_signals.length > 0 ? preview.header_signals.join('; ') : 'none'}
 
 DEFINITIONS:
 - spam: unsolicited emails, phishing attempts, scams, suspicious senders
 - promotional: marketing emails
 
+Header signals come from the raw mail headers. Bulk/mailing-list headers point to newsletters or marketing, not to spam on their own. Failed SPF/DKIM/DMARC makes spoofing or phishing more likely.
+
 Be sure not to exclude any company newsletters and updates. The company is New Home Star. 
 
 Return JSON with:
@@ -0,0 +1,65 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Row returned by recompute_thread_aggregates_range (migration 024)
+interface ThreadRange {
+  processed: number;
+  last_thread_id: string | null;
+}
+
+/**
+ * Keeps the denormalized columns on support_email_threads (message_count,
+ * latest_message_received_date, snippet, participants, unread, starred) in step with
+ * the thread's live messages. The work happens in SQL (migrations 013 and 024).
+ */
+export class ThreadAggregates {
+  constructor(private supabase: SupabaseClient) {}
+  
+  /**
+   * Recompute one thread. Returns the number of live messages left in it.
+   */
+  async recompute(threadDbId: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('recompute_thread_aggregates', {
+      p_thread_id: threadDbId,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to recompute aggregates for thread ${threadDbId}: ${error.message}`);
+    }
+    
+    return (data as number) ?? 0;
+  }
+  
+  /**
+   * Recompute every live thread of an inbox, `batchSize` threads per call so large inboxes
+   * stay under the statement timeout. Returns the number of threads processed.
+   */
+  async recomputeInbox(inboxId: string, batchSize = 500): Promise<number> {
+    let processed = 0;
+    let afterThreadId: string | null = null;
+    
+    while (true) {
+      const range = await this.recomputeRange(inboxId, afterThreadId, batchSize);
+      processed += range.processed;
+      
+      if (!range.last_thread_id || range.processed < batchSize) {
+        return processed;
+      }
+      
+      afterThreadId = range.last_thread_id;
+    }
+  }
+  
+  private async recomputeRange(inboxId: string, afterThreadId: string | null, limit: number): Promise<ThreadRange> {
+    const { data, error } = await this.supabase.rpc('recompute_thread_aggregates_range', {
+      p_inbox_id: inboxId,
+      p_after_thread_id: afterThreadId,
+      p_limit: limit,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to recompute thread aggregates for inbox ${inboxId}: ${error.message}`);
+    }
+    
+    return (data as ThreadRange[] | null)?.[0] ?? { processed: 0, last_thread_id: null };
+  }
+}
@@ -0,0 +1,448 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { BlobStore, createBlobStore } from './blob-store';
+import { htmlToText } from './body-normalizer';
+import { EmailAddress, ProviderHeader } from './email-provider';
+import { MimeAttachment, buildEml, toMboxEntry } from './mime-writer';
+
+export type ExportFormat = 'eml' | 'mbox' | 'json';
+
+export interface ExportFilter {
+  inboxId: string;
+  since?: Date;               // Messages received at or after
+  until?: Date;               // Messages received before
+  category?: string;          // Category of the thread's current extraction
+  includeDeleted?: boolean;   // Soft-deleted threads and messages too (legal holds)
+}
+
+export interface ExportResult {
+  threads: number;
+  messages: number;
+  attachments: number;
+  files: string[];
+}
+
+// Rows are loaded with select('*') so the JSON export carries every column; the fields listed
+// are the ones the exporter reads.
+interface ThreadRow {
+  id: string;
+  inbox_id: string;
+  subject: string | null;
+  latest_message_received_date: string | null;
+  deleted_at: string | null;
+  [column: string]: unknown;
+}
+
+interface MessageRow {
+  id: string;
+  thread_id: string;
+  nylas_message_id: string;
+  subject: string | null;
+  sender: EmailAddress | null;
+  to_recipients: EmailAddress[] | null;
+  cc_recipients: EmailAddress[] | null;
+  bcc_recipients: EmailAddress[] | null;
+  reply_to: EmailAddress[] | null;
+  body: string | null;
+  body_text: string | null;
+  received_date: string;
+  in_reply_to: string | null;
+  headers: ProviderHeader[] | null;
+  folders: string[] | null;
+  deleted_at: string | null;
+  [column: string]: unknown;
+}
+
+interface AttachmentRow {
+  id: string;
+  message_id: string;
+  filename: string;
+  content_type: string;
+  content_id: string | null;
+  is_inline: boolean;
+  storage_backend: string | null;
+  storage_key: string | null;
+  status: 'stored' | 'skipped' | 'error';
+  [column: string]: unknown;
+}
+
+interface ExtractionRow {
+  id: string;
+  thread_id: string;
+  category: string | null;
+  [column: string]: unknown;
+}
+
+interface EntityRow {
+  id: string;
+  extraction_id: string;
+  [column: string]: unknown;
+}
+
+interface ExportThread {
+  thread: ThreadRow;
+  messages: MessageRow[];
+  attachments: AttachmentRow[];
+  extraction: ExtractionRow | null;
+  entities: EntityRow[];
+}
+
+const THREAD_PAGE_SIZE = 500;
+// PostgREST caps a response at 1000 rows (max-rows); longer lists are paged
+const DB_PAGE_SIZE = 1000;
+// Keeps .in() filters well inside URL length limits
+const ID_CHUNK_SIZE = 200;
+
+/**
+ * Exports threads of an inbox for offboarding and legal holds:
+ * - eml:  one .eml file per message, in a directory per thread
+ * - mbox: one .mbox per thread, or a single .mbox for the whole inbox
+ * - json: one bundle with each thread, its messages, attachment metadata, current extraction
+ *   and entities
+ */
+export class ThreadExporter {
+  private store: BlobStore;
+  
+  constructor(private supabase: SupabaseClient) {
+    this.store = createBlobStore(supabase);
+  }
+  
+  /**
+   * Writes <outDir>/<thread_id>/<received>-<message_id>.eml
+   */
+  async exportEml(filter: ExportFilter, outDir: string): Promise<ExportResult> {
+    const result = emptyResult();
+    
+    await this.forEachThread(filter, async (exported) => {
+      const threadDir = join(outDir, exported.thread.id);
+      await fs.mkdir(threadDir, { recursive: true });
+      
+      for (const message of exported.messages) {
+        const filePath = join(threadDir, `${fileTimestamp(message.received_date)}-${message.id}.eml`);
+        await fs.writeFile(filePath, await this.toEml(message, exported.attachments, result));
+        result.files.push(filePath);
+      }
+      
+      countThread(result, exported);
+    });
+    
+    return result;
+  }
+  
+  /**
+   * 'thread' writes <out>/<thread_id>.mbox; 'inbox' writes everything to the file <out>
+   */
+  async exportMbox(filter: ExportFilter, out: string, scope: 'thread' | 'inbox'): Promise<ExportResult> {
+    const result = emptyResult();
+    
+    if (scope === 'inbox') {
+      await fs.mkdir(dirname(out), { recursive: true });
+      await fs.writeFile(out, '');
+      result.files.push(out);
+    } else {
+      await fs.mkdir(out, { recursive: true });
+    }
+    
+    await this.forEachThread(filter, async (exported) => {
+      const filePath = scope === 'inbox' ? out : join(out, `${exported.thread.id}.mbox`);
+      
+      let mbox = '';
+      for (const message of exported.messages) {
+        const eml = await this.toEml(message, exported.attachments, result);
+        mbox += toMboxEntry(eml, message.sender?.email, new Date(message.received_date));
+      }
+      
+      await fs.appendFile(filePath, mbox);
+      if (scope === 'thread') {
+        result.files.push(filePath);
+      }
+      
+      countThread(result, exported);
+    });
+    
+    return result;
+  }
+  
+  /**
+   * Single JSON file, written thread by thread so large inboxes aren't held in memory
+   */
+  async exportJson(filter: ExportFilter, outPath: string): Promise<ExportResult> {
+    const result = emptyResult();
+    await fs.mkdir(dirname(outPath), { recursive: true });
+    
+    const file = await fs.open(outPath, 'w');
+    try {
+      const header = {
+        exported_at: new Date().toISOString(),
+        filter: {
+          inbox_id: filter.inboxId,
+          since: filter.since?.toISOString() ?? null,
+          until: filter.until?.toISOString() ?? null,
+          category: filter.category ?? null,
+          include_deleted: filter.includeDeleted ?? false,
+        },
+      };
+      await file.write(`${JSON.stringify(header).slice(0, -1)},"threads":[\n`);
+      
+      await this.forEachThread(filter, async (exported) => {
+        await file.write(`${result.threads > 0 ? ',\n' : ''}${JSON.stringify(exported)}`);
+        countThread(result, exported);
+        result.attachments += exported.attachments.length;
+      });
+      
+      await file.write('\n]}\n');
+    } finally {
+      await file.close();
+    }
+    
+    result.files.push(outPath);
+    return result;
+  }
+  
+  private async forEachThread(filter: ExportFilter, handle: (exported: ExportThread) => Promise<void>): Promise<void> {
+    const categoryThreads = filter.category ? await this.findCategoryThreads(filter) : null;
+    
+    // Keyset paging on id: ordering by date would shift pages as new mail moves threads
+    let lastId: string | null = null;
+    
+    while (true) {
+      let query = this.supabase
+        .from('support_email_threads')
+        .select('*')
+        .eq('inbox_id', filter.inboxId);
+      
+      if (!filter.includeDeleted) {
+        query = query.is('deleted_at', null);
+      }
+      if (filter.since) {
+        // Threads with nothing since then can't have messages in the range
+        query = query.gte('latest_message_received_date', filter.since.toISOString());
+      }
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+      
+      const { data: threads, error } = await query
+        .order('id')
+        .limit(THREAD_PAGE_SIZE);
+      
+      if (error) {
+        throw new Error(`Failed to fetch threads for inbox ${filter.inboxId}: ${error.message}`);
+      }
+      
+      for (const thread of threads || []) {
+        if (categoryThreads && !categoryThreads.has(thread.id)) {
+          continue;
+        }
+        
+        const exported = await this.loadThread(thread, filter);
+        if (exported.messages.length === 0) {
+          continue;
+        }
+        // Only the current extraction decides the category
+        if (filter.category && exported.extraction?.category !== filter.category) {
+          continue;
+        }
+        
+        await handle(exported);
+      }
+      
+      if (!threads || threads.length < THREAD_PAGE_SIZE) {
+        return;
+      }
+      lastId = threads[threads.length - 1].id;
+    }
+  }
+  
+  private async loadThread(thread: ThreadRow, filter: ExportFilter): Promise<ExportThread> {
+    const messages = await this.loadMessages(thread.id, filter);
+    
+    if (messages.length === 0) {
+      return { thread, messages: [], attachments: [], extraction: null, entities: [] };
+    }
+    
+    const attachments = await this.loadAttachments(messages.map((message) => message.id));
+    
+    const { data: extraction, error: extractionError } = await this.supabase
+      .from('email_extractions')
+      .select('*')
+      .eq('thread_id', thread.id)
+      .is('retired_at', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    
+    if (extractionError) {
+      throw new Error(`Failed to fetch extraction for thread ${thread.id}: ${extractionError.message}`);
+    }
+    
+    let entities: EntityRow[] = [];
+    if (extraction) {
+      const { data, error } = await this.supabase
+        .from('email_extraction_entities')
+        .select('*')
+        .eq('extraction_id', extraction.id)
+        .is('retired_at', null);
+      
+      if (error) {
+        throw new Error(`Failed to fetch entities for extraction ${extraction.id}: ${error.message}`);
+      }
+      entities = data || [];
+    }
+    
+    return { thread, messages, attachments, extraction, entities };
+  }
+  
+  /**
+   * The thread's messages in the filter's range, oldest first
+   */
+  private async loadMessages(threadId: string, filter: ExportFilter): Promise<MessageRow[]> {
+    const messages: MessageRow[] = [];
+    
+    for (let from = 0; ; from += DB_PAGE_SIZE) {
+      let query = this.supabase
+        .from('support_email_messages')
+        .select('*')
+        .eq('thread_id', threadId);
+      
+      if (!filter.includeDeleted) {
+        query = query.is('deleted_at', null);
+      }
+      if (filter.since) {
+        query = query.gte('received_date', filter.since.toISOString());
+      }
+      if (filter.until) {
+        query = query.lt('received_date', filter.until.toISOString());
+      }
+      
+      const { data, error } = await query
+        .order('received_date', { ascending: true })
+        .order('id')
+        .range(from, from + DB_PAGE_SIZE - 1);
+      
+      if (error) {
+        throw new Error(`Failed to fetch messages for thread ${threadId}: ${error.message}`);
+      }
+      
+      messages.push(...(data || []));
+      if (!data || data.length < DB_PAGE_SIZE) {
+        return messages;
+      }
+    }
+  }
+  
+  private async loadAttachments(messageIds: string[]): Promise<AttachmentRow[]> {
+    const attachments: AttachmentRow[] = [];
+    
+    for (let i = 0; i < messageIds.length; i += ID_CHUNK_SIZE) {
+      for (let from = 0; ; from += DB_PAGE_SIZE) {
+        const { data, error } = await this.supabase
+          .from('support_email_attachments')
+          .select('*')
+          .in('message_id', messageIds.slice(i, i + ID_CHUNK_SIZE))
+          .order('created_at', { ascending: true })
+          .order('id')
+          .range(from, from + DB_PAGE_SIZE - 1);
+        
+        if (error) {
+          throw new Error(`Failed to fetch attachments: ${error.message}`);
+        }
+        
+        attachments.push(...(data || []));
+        if (!data || data.length < DB_PAGE_SIZE) {
+          break;
+        }
+      }
+    }
+    
+    return attachments;
+  }
+  
+  private async toEml(message: MessageRow, attachments: AttachmentRow[], result: ExportResult): Promise<Buffer> {
+    const contents: MimeAttachment[] = [];
+    
+    for (const attachment of attachments.filter((a) => a.message_id === message.id)) {
+      // Only content we hold in this deployment's store can be embedded
+      if (attachment.status !== 'stored' || !attachment.storage_key || attachment.storage_backend !== this.store.backend) {
+        continue;
+      }
+      
+      try {
+        contents.push({
+          filename: attachment.filename,
+          contentType: attachment.content_type,
+          content: await this.store.get(attachment.storage_key),
+          contentId: attachment.content_id,
+          isInline: attachment.is_inline,
+        });
+        result.attachments++;
+      } catch (error) {
+        // Don't throw - export the message without this file
+        console.error(`[Export] Error reading attachment ${attachment.id} (${attachment.filename}):`, error);
+      }
+    }
+    
+    const header = (name: string): string | null =>
+      (message.headers || []).find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value || null;
+    
+    return buildEml({
+      messageId: header('Message-ID') || `${message.nylas_message_id}@export.invalid`,
+      inReplyTo: message.in_reply_to || header('In-Reply-To'),
+      references: header('References'),
+      from: message.sender ? [message.sender] : [],
+      to: message.to_recipients || [],
+      cc: message.cc_recipients || [],
+      bcc: message.bcc_recipients || [],
+      replyTo: message.reply_to || [],
+      subject: message.subject || '',
+      date: new Date(message.received_date),
+      html: message.body || '',
+      text: message.body_text ?? htmlToText(message.body || ''),
+      attachments: contents,
+      extraHeaders: message.folders && message.folders.length > 0
+        ? [['X-Folders', message.folders.join(', ')]]
+        : [],
+    });
+  }
+  
+  private async findCategoryThreads(filter: ExportFilter): Promise<Set<string>> {
+    const threadIds = new Set<string>();
+    
+    for (let from = 0; ; from += DB_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('email_extractions')
+        .select('thread_id')
+        .eq('inbox_id', filter.inboxId)
+        .eq('category', filter.category!)
+        .is('retired_at', null)
+        .order('id')
+        .range(from, from + DB_PAGE_SIZE - 1);
+      
+      if (error) {
+        throw new Error(`Failed to fetch threads in category ${filter.category}: ${error.message}`);
+      }
+      
+      for (const row of data || []) {
+        threadIds.add(row.thread_id);
+      }
+      if (!data || data.length < DB_PAGE_SIZE) {
+        return threadIds;
+      }
+    }
+  }
+}
+
+function emptyResult(): ExportResult {
+  return { threads: 0, messages: 0, attachments: 0, files: [] };
+}
+
+function countThread(result: ExportResult, exported: ExportThread): void {
+  result.threads++;
+  result.messages += exported.messages.length;
+}
+
+// Sortable and safe in file names
+function fileTimestamp(date: string): string {
+  return new Date(date).toISOString().replace(/[:.]/g, '-');
+}
@@ -1,5 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import Nylas from 'nylas';
+import { EmailProvider, createEmailProvider } from './email-provider';
 import { config } from './config';
 import { NylasSync } from './nylas-sync';
 
@@ -12,13 +12,28 @@ interface ThreadSyncJob {
     thread_id: string;
     grant_id: string;
     inbox_id: string;
-    config_id: string;
+    config_id?: string;   // Backfill threads (queued_threads)
+    catch_up_id?: string; // Gap fill, reconciliation and re-authentication threads (catch_up_thread_syncs)
   };
 }
 
+// The row a job's status and checkpoint are kept in
+interface JobTracking {
+  table: 'queued_threads' | 'catch_up_thread_syncs';
+  match: Record<string, string>;
+}
+
+// Stored in the job's sync_checkpoint while a long thread is paged through
+interface ThreadSyncCheckpoint {
+  page_token: string;
+  pages_completed: number;
+  messages_seen: number;
+  messages_synced: number;
+}
+
 export class ThreadSyncProcessor {
   private supabase: SupabaseClient;
-  private nylas: Nylas;
+  private provider: EmailProvider;
   private nylasSync: NylasSync;
   private isRunning = false;
   private readonly MAX_RETRIES = 5;
@@ -35,12 +50,9 @@ export class ThreadSyncProcessor {
       }
     );
     
-    this.nylas = new Nylas({
-      apiKey: config.nylas.apiKey,
-      apiUri: config.nylas.apiUri,
-    });
+    this.provider = createEmailProvider();
     
-    this.nylasSync = new NylasSync(this.supabase);
+    this.nylasSync = new NylasSync(this.supabase, this.provider);
   }
   
   async start(): Promise<void> {
@@ -63,6 +75,7 @@ export class ThreadSyncProcessor {
     
     console.log('[ThreadSync] Stopping thread sync processor');
     this.isRunning = false;
+    console.log(`[ThreadSync] ${this.provider.name} API usage:`, this.provider.getStats());
     console.log('[ThreadSync] Stopped');
   }
   
@@ -77,7 +90,7 @@ export class ThreadSyncProcessor {
           .schema('pgmq_public')
           .rpc('read', {
             queue_name: 'thread_sync_jobs',
-            sleep_seconds: 10,
+            sleep_seconds: config.processing.threadVisibilityTimeout,
             n: 1, // Process one thread at a time
           });
         
@@ -112,19 +125,35 @@ export class ThreadSyncProcessor {
     const startTime = Date.now();
     const { msg_id, read_ct, message: jobData } = job;
     let { thread_id, grant_id, inbox_id, config_id } = jobData;
+    const tracking = jobTracking(job);
     
     // Check if job has been retried too many times
     if (read_ct > this.MAX_RETRIES) {
       console.log(`[ThreadSync] Job ${msg_id} exceeded retry limit (${read_ct} attempts)`);
       
-      // Delete from queue (give up on this thread)
-      await this.deleteJob(msg_id);
+      // Give up on this thread
+      await this.completeThread(msg_id, tracking, thread_id, 0, false);
       return;
     }
     
     try {
       console.log(`[ThreadSync] Processing thread ${thread_id} (attempt ${read_ct + 1}/${this.MAX_RETRIES})`);
       
+      // Catch-up threads don't belong to a backfill, so its cancel and pause don't apply
+      if (config_id) {
+        // Drop jobs whose backfill was cancelled while they sat in the queue
+        if (await this.isThreadCancelled(config_id, thread_id)) {
+          console.log(`[ThreadSync] Thread ${thread_id} belongs to a cancelled backfill, dropping job`);
+          await this.deleteJob(msg_id);
+          return;
+        }
+        
+        // Hold jobs of a paused backfill in queued_threads until it is resumed
+        if (await this.isBackfillPaused(config_id) && await this.holdThread(msg_id, config_id, thread_id)) {
+          return;
+        }
+      }
+      
       // CRITICAL FIX: If grant_id is missing, fetch it from support_inboxes
       if (!grant_id || grant_id === '') {
         console.log(`[ThreadSync] grant_id missing for thread ${thread_id}, fetching from support_inboxes...`);
@@ -147,71 +176,79 @@ export class ThreadSyncProcessor {
         console.log(`[ThreadSync] Fetched grant_id: ${grant_id}`);
       }
       
-      // Mark thread as processing in queued_threads (trigger will update stats!)
-      await this.markThreadProcessing(config_id, thread_id);
+      // Mark thread as processing (for backfill threads the queued_threads trigger updates stats)
+      await this.markThreadProcessing(tracking, thread_id);
       
       // Step 1: Fetch thread details
-      const threadResponse = await this.nylas.threads.find({
-        identifier: grant_id,
-        threadId: thread_id,
-      });
+      const thread = await this.provider.getThread(grant_id, thread_id);
       
-      if (!threadResponse.data) {
+      if (!thread) {
         console.warn(`[ThreadSync] Thread ${thread_id} not found, skipping`);
-        await this.completeThread(msg_id, config_id, thread_id, 0, true);
+        await this.completeThread(msg_id, tracking, thread_id, 0, true);
         return;
       }
-      
-      const thread = threadResponse.data;
       console.log(`[ThreadSync] Fetched thread details: ${thread.subject || 'No subject'}`);
-      console.log(`[ThreadSync] Waiting ${config.processing.apiDelayMs}ms before fetching messages...`);
-      await this.delay(config.processing.apiDelayMs);
       
-      // Step 2: Fetch all messages in thread
-      const messagesResponse = await this.nylas.messages.list({
-        identifier: grant_id,
-        queryParams: {
-          threadId: thread_id,
-          limit: 100, // Most threads won't have more than 100 messages
-        },
-      });
-      
-      const messages = messagesResponse.data || [];
-      console.log(`[ThreadSync] Fetched ${messages.length} messages for thread ${thread_id}`);
+      // Step 2: Page through every message in the thread, resuming from the last checkpoint
+      const checkpoint = await this.loadCheckpoint(tracking, thread_id);
+      let pageToken = checkpoint?.page_token;
+      let syncedCount = checkpoint?.messages_synced || 0;
+      let seenCount = checkpoint?.messages_seen || 0;
+      let pagesCompleted = checkpoint?.pages_completed || 0;
       
-      if (messages.length === 0) {
-        console.warn(`[ThreadSync] No messages found for thread ${thread_id}, skipping`);
-        await this.completeThread(msg_id, config_id, thread_id, 0, true);
-        return;
+      if (checkpoint) {
+        console.log(`[ThreadSync] Resuming thread ${thread_id} after ${pagesCompleted} page(s), ${syncedCount} messages synced`);
       }
       
-      // Step 3: Sync thread and all messages using existing NylasSync
-      let syncedCount = 0;
-      console.log(`[ThreadSync] Starting to sync ${messages.length} messages...`);
-      
-      for (let i = 0; i < messages.length; i++) {
-        const message = messages[i];
-        try {
-          console.log(`[ThreadSync] Syncing message ${i + 1}/${messages.length} (ID: ${message.id})`);
-          await this.nylasSync.syncMessage(grant_id, inbox_id, message.id);
-          syncedCount++;
-          
-          // Add delay to prevent rate limiting
-          if (i < messages.length - 1) {
-            console.log(`[ThreadSync] Waiting ${config.processing.apiDelayMs}ms before next message...`);
-            await this.delay(config.processing.apiDelayMs);
+      do {
+        const messagesResponse = await this.provider.listMessages(grant_id, {
+          threadId: thread_id,
+          limit: 100,
+          pageToken,
+        });
+        
+        const messages = messagesResponse.data;
+        console.log(`[ThreadSync] Fetched ${messages.length} messages for thread ${thread_id} (page ${pagesCompleted + 1})`);
+        
+        // Step 3: Sync each message using existing NylasSync
+        for (let i = 0; i < messages.length; i++) {
+          const message = messages[i];
+          try {
+            console.log(`[ThreadSync] Syncing message ${seenCount + i + 1} (ID: ${message.id})`);
+            await this.nylasSync.syncMessage(grant_id, inbox_id, message.id);
+            syncedCount++;
+          } catch (error) {
+            console.error(`[ThreadSync] Error syncing message ${message.id}:`, error);
+            // Continue with other messages even if one fails
           }
-        } catch (error) {
-          console.error(`[ThreadSync] Error syncing message ${message.id}:`, error);
-          // Continue with other messages even if one fails
         }
+        
+        seenCount += messages.length;
+        pagesCompleted++;
+        pageToken = messagesResponse.nextCursor;
+        
+        // A retried job picks up from the next page instead of starting over
+        if (pageToken) {
+          await this.saveCheckpoint(tracking, thread_id, {
+            page_token: pageToken,
+            pages_completed: pagesCompleted,
+            messages_seen: seenCount,
+            messages_synced: syncedCount,
+          });
+        }
+      } while (pageToken);
+      
+      if (seenCount === 0) {
+        console.warn(`[ThreadSync] No messages found for thread ${thread_id}, skipping`);
+        await this.completeThread(msg_id, tracking, thread_id, 0, true);
+        return;
       }
       
       const duration = Date.now() - startTime;
-      console.log(`[ThreadSync] Thread ${thread_id} synced: ${syncedCount}/${messages.length} messages in ${Math.round(duration / 1000)}s`);
+      console.log(`[ThreadSync] Thread ${thread_id} synced: ${syncedCount}/${seenCount} messages across ${pagesCompleted} page(s) in ${Math.round(duration / 1000)}s`);
       
       // Step 4: Mark thread as completed and delete from queue (trigger handles stats!)
-      await this.completeThread(msg_id, config_id, thread_id, syncedCount, true);
+      await this.completeThread(msg_id, tracking, thread_id, syncedCount, true);
       
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -222,7 +259,7 @@ export class ThreadSyncProcessor {
       // Mark as failed if we've exceeded retries, otherwise let it retry
       if (read_ct >= this.MAX_RETRIES) {
         console.log(`[ThreadSync] Thread ${thread_id} exceeded retries, marking as failed`);
-        await this.completeThread(msg_id, config_id, thread_id, 0, false);
+        await this.completeThread(msg_id, tracking, thread_id, 0, false);
       } else {
         console.log(`[ThreadSync] Thread job will retry (attempt ${read_ct + 1}/${this.MAX_RETRIES}) after ${Math.round(duration / 1000)}s`);
         // Don't delete - let it retry
@@ -232,23 +269,23 @@ export class ThreadSyncProcessor {
   
   private async completeThread(
     msgId: number,
-    configId: string,
+    tracking: JobTracking,
     threadId: string,
     messagesSynced: number,
     success: boolean
   ): Promise<void> {
     try {
-      // Update queued_threads status - trigger will auto-update stats!
+      // Update the job status - for queued_threads the trigger will auto-update stats!
       const { error } = await this.supabase
-        .from('queued_threads')
+        .from(tracking.table)
         .update({
           status: success ? 'completed' : 'failed',
           messages_synced: messagesSynced,
+          sync_checkpoint: null,
           processed_at: new Date().toISOString()
         })
-        .eq('config_id', configId)
-        .eq('thread_id', threadId)
-        .eq('status', 'processing');
+        .match(tracking.match)
+        .in('status', ['queued', 'processing']);
       
       if (error) {
         console.error(`[ThreadSync] Error updating thread status for ${threadId}:`, error);
@@ -285,16 +322,124 @@ export class ThreadSyncProcessor {
     }
   }
   
-  private async markThreadProcessing(configId: string, threadId: string): Promise<void> {
+  private async isThreadCancelled(configId: string, threadId: string): Promise<boolean> {
     try {
-      const { error } = await this.supabase
+      const { data, error } = await this.supabase
         .from('queued_threads')
+        .select('status')
+        .eq('config_id', configId)
+        .eq('thread_id', threadId)
+        .maybeSingle();
+      
+      if (error) {
+        console.error(`[ThreadSync] Error checking status of thread ${threadId}:`, error);
+        return false;
+      }
+      
+      return data?.status === 'cancelled';
+    } catch (error) {
+      console.error('[ThreadSync] Error checking thread status:', error);
+      return false;
+    }
+  }
+  
+  private async isBackfillPaused(configId: string): Promise<boolean> {
+    try {
+      const { data, error } = await this.supabase
+        .from('support_inbox_configurations')
+        .select('backfill_status')
+        .eq('id', configId)
+        .maybeSingle();
+      
+      if (error) {
+        console.error(`[ThreadSync] Error checking backfill status of config ${configId}:`, error);
+        return false;
+      }
+      
+      return data?.backfill_status === 'paused';
+    } catch (error) {
+      console.error('[ThreadSync] Error checking backfill status:', error);
+      return false;
+    }
+  }
+  
+  /**
+   * Hand a thread job back to queued_threads (queued, not in PGMQ) and take it off the queue.
+   * BackfillControl.resume queues it again; a sync checkpoint from an earlier attempt is kept.
+   * Returns false when the thread has no queued_threads row to hold it in.
+   */
+  private async holdThread(msgId: number, configId: string, threadId: string): Promise<boolean> {
+    const { data: held, error } = await this.supabase
+      .from('queued_threads')
+      .update({
+        status: 'queued',
+        pgmq_queued_at: null,
+      })
+      .eq('config_id', configId)
+      .eq('thread_id', threadId)
+      .in('status', ['queued', 'processing'])
+      .select('thread_id');
+    
+    if (error) {
+      // Leave the job in the queue - it is checked again when it becomes visible
+      console.error(`[ThreadSync] Error holding thread ${threadId} of paused backfill:`, error);
+      return true;
+    }
+    
+    if (!held || held.length === 0) {
+      return false;
+    }
+    
+    await this.deleteJob(msgId);
+    console.log(`[ThreadSync] Thread ${threadId} belongs to a paused backfill, held until it is resumed`);
+    return true;
+  }
+  
+  private async loadCheckpoint(tracking: JobTracking, threadId: string): Promise<ThreadSyncCheckpoint | null> {
+    const { data, error } = await this.supabase
+      .from(tracking.table)
+      .select('sync_checkpoint')
+      .match(tracking.match)
+      .maybeSingle();
+    
+    if (error) {
+      console.error(`[ThreadSync] Error loading checkpoint for thread ${threadId}:`, error);
+      return null;
+    }
+    
+    return (data?.sync_checkpoint as ThreadSyncCheckpoint | null) || null;
+  }
+  
+  private async saveCheckpoint(tracking: JobTracking, threadId: string, checkpoint: ThreadSyncCheckpoint): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from(tracking.table)
+        .update({
+          sync_checkpoint: {
+            ...checkpoint,
+            updated_at: new Date().toISOString(),
+          },
+        })
+        .match(tracking.match);
+      
+      if (error) {
+        console.error(`[ThreadSync] Error saving checkpoint for thread ${threadId}:`, error);
+      }
+    } catch (error) {
+      console.error('[ThreadSync] Error saving checkpoint:', error);
+      // Don't throw - worst case a retry re-reads pages that are already synced
+    }
+  }
+  
+  private async markThreadProcessing(tracking: JobTracking, threadId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from(tracking.table)
         .update({
           status: 'processing',
           started_at: new Date().toISOString()
         })
-        .eq('config_id', configId)
-        .eq('thread_id', threadId)
+        .match(tracking.match)
         .eq('status', 'queued');
       
       if (error) {
@@ -310,3 +455,13 @@ export class ThreadSyncProcessor {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
+
+function jobTracking(job: ThreadSyncJob): JobTracking {
+  const { thread_id, config_id, catch_up_id } = job.message;
+  
+  if (catch_up_id) {
+    return { table: 'catch_up_thread_syncs', match: { id: catch_up_id } };
+  }
+  
+  return { table: 'queued_threads', match: { config_id: config_id || '', thread_id } };
+}
@@ -0,0 +1,207 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { describeHeaderSignals, ParsedHeaders } from './header-parser';
+
+/**
+ * Thread transcripts for LLM prompts (extraction and reply drafting): the live messages of a
+ * thread, oldest first, with attachment text fenced off from what was written in the email.
+ */
+
+export interface EmailMessage {
+  id: string;
+  thread_id: string;
+  nylas_message_id: string;
+  subject: string;
+  sender: any;
+  body: string;
+  body_text: string | null;
+  body_clean: string | null;
+  received_date: string;
+  to_recipients: any;
+  cc_recipients: any;
+  reply_to: any;
+  folders: any;
+  in_reply_to: string;
+  snippet: string;
+  headers: any;
+  parsed_headers: ParsedHeaders | null;
+}
+
+export interface EmailAttachmentText {
+  id: string;
+  message_id: string;
+  filename: string;
+  content_type: string;
+  extracted_text: string;
+}
+
+// Attachment text that made it into the transcript (after the char budget)
+export interface IncludedAttachment {
+  attachment_id: string;
+  message_id: string;
+  filename: string;
+  content_type: string;
+  text: string;
+  original_chars: number;
+  truncated: boolean;
+}
+
+// Prompt instruction that explains the attachment fences used by formatTranscript
+export const ATTACHMENT_CONTENT_INSTRUCTION =
+  'Text between [ATTACHMENT CONTENT] and [END ATTACHMENT CONTENT] was extracted from files attached to that message, not written in the email body. Use it for context (amounts, dates, terms) but attribute it to the attachment.';
+
+const MAX_MESSAGE_CHARS = 2000;
+
+export class ThreadTranscriptLoader {
+  constructor(private supabase: SupabaseClient, private attachmentCharBudget: number) {}
+  
+  /**
+   * Live messages of a thread, oldest first. Returns [] if they can't be loaded.
+   */
+  async fetchMessages(threadId: string): Promise<EmailMessage[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('support_email_messages')
+        .select('*')
+        .eq('thread_id', threadId)
+        .is('deleted_at', null) // Deleted messages must not feed the transcript
+        .order('received_date', { ascending: true }); // Oldest first for transcript
+      
+      if (error) {
+        console.error(`[Transcript] Error fetching messages for thread ${threadId}:`, error);
+        return [];
+      }
+      
+      return (data || []) as EmailMessage[];
+    } catch (error) {
+      console.error('[Transcript] Error in fetchMessages:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Attachment text for the messages, fitted into the char budget
+   */
+  async fetchAttachments(messages: EmailMessage[]): Promise<IncludedAttachment[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('support_email_attachments')
+        .select('id, message_id, filename, content_type, extracted_text')
+        .in('message_id', messages.map(m => m.id))
+        .eq('status', 'stored')
+        .not('extracted_text', 'is', null)
+        .order('created_at', { ascending: true });
+      
+      if (error) {
+        console.error('[Transcript] Error fetching attachment text:', error);
+        return [];
+      }
+      
+      return this.budgetAttachmentText(messages, (data || []) as EmailAttachmentText[]);
+    } catch (error) {
+      // Don't throw - work from the message bodies alone
+      console.error('[Transcript] Error in fetchAttachments:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Fit attachment text into the transcript budget, newest messages first
+   * (their attachments are the most likely to describe the current state).
+   */
+  private budgetAttachmentText(messages: EmailMessage[], attachments: EmailAttachmentText[]): IncludedAttachment[] {
+    const messageOrder = new Map(
+      [...messages]
+        .sort((a, b) => new Date(b.received_date).getTime() - new Date(a.received_date).getTime())
+        .map((msg, index) => [msg.id, index])
+    );
+    
+    const byRecency = [...attachments].sort(
+      (a, b) => (messageOrder.get(a.message_id) ?? 0) - (messageOrder.get(b.message_id) ?? 0)
+    );
+    
+    let remaining = this.attachmentCharBudget;
+    const included: IncludedAttachment[] = [];
+    
+    for (const attachment of byRecency) {
+      const text = attachment.extracted_text.trim();
+      if (remaining <= 0 || !text) {
+        continue;
+      }
+      
+      const truncated = text.length > remaining;
+      included.push({
+        attachment_id: attachment.id,
+        message_id: attachment.message_id,
+        filename: attachment.filename,
+        content_type: attachment.content_type,
+        text: truncated ? text.substring(0, remaining) : text,
+        original_chars: text.length,
+        truncated,
+      });
+      remaining -= Math.min(text.length, remaining);
+    }
+    
+    return included;
+  }
+}
+
+/**
+ * Cleaned body text, falling back for messages synced before body normalization
+ */
+export function messageText(msg: EmailMessage): string {
+  return msg.body_clean || msg.body_text || msg.body || '';
+}
+
+export function sortByDate(messages: EmailMessage[]): EmailMessage[] {
+  return [...messages].sort((a, b) =>
+    new Date(a.received_date).getTime() - new Date(b.received_date).getTime()
+  );
+}
+
+/**
+ * Render the thread as "--- MESSAGE n of m ---" blocks, oldest first
+ */
+export function formatTranscript(messages: EmailMessage[], attachments: IncludedAttachment[]): string {
+  const sortedMessages = sortByDate(messages);
+  const messageCount = sortedMessages.length;
+  
+  return sortedMessages.map((msg, index) => {
+    const senderInfo = msg.sender
+      ? `${msg.sender.name || 'Unknown'} <${msg.sender.email || 'unknown@example.com'}>`
+      : 'Unknown sender';
+    
+    const timestamp = new Date(msg.received_date).toLocaleString();
+    
+    // Only what this message added - quoted history is already in the earlier messages
+    let bodyContent = messageText(msg) || msg.snippet || 'No content';
+    if (bodyContent.length > MAX_MESSAGE_CHARS) {
+      bodyContent = bodyContent.substring(0, MAX_MESSAGE_CHARS) + '... [truncated]';
+    }
+    
+    // Attachment text is fenced so the model can tell it apart from what was written in the email
+    const attachmentContent = attachments
+      .filter(a => a.message_id === msg.id)
+      .map(a => `
+[ATTACHMENT CONTENT: ${a.filename} (${a.content_type})${a.truncated ? ' - truncated' : ''}]
+${a.text}${a.truncated ? '... [truncated]' : ''}
+[END ATTACHMENT CONTENT]
+`)
+      .join('');
+    
+    // Only automated/bulk markers - authentication results are for spam detection
+    const headerNotes = describeHeaderSignals(msg.parsed_headers)
+      .filter(signal => !signal.startsWith('Sender authentication'))
+      .map(signal => `Note: ${signal}\n`)
+      .join('');
+    
+    return `
+--- MESSAGE ${index + 1} of ${messageCount} ---
+From: ${senderInfo}
+Date: ${timestamp}
+Subject: ${msg.subject || 'No subject'}
+To: ${(msg.to_recipients || []).map((r: any) => r.email).join(', ')}
+${headerNotes}
+${bodyContent}
+${attachmentContent}`;
+  }).join('\n');
+}
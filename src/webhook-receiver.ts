@@ -0,0 +1,274 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { config } from './config';
+import { WebhookQueuePayload } from './queue-processor';
+
+export class WebhookReceiver {
+  private supabase: SupabaseClient;
+  private server: Server | null = null;
+  private isRunning = false;
+  private totalReceived = 0;
+  private totalRejected = 0;
+  
+  constructor() {
+    this.supabase = createClient(
+      config.supabase.url,
+      config.supabase.serviceKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+  }
+  
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.log('[Receiver] Already running');
+      return;
+    }
+    
+    if (!config.receiver.webhookSecret) {
+      throw new Error('NYLAS_WEBHOOK_SECRET is required to run the webhook receiver');
+    }
+    
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('[Receiver] Unhandled request error:', error);
+        if (!res.headersSent) {
+          this.respond(res, 500, 'Internal error');
+        }
+      });
+    });
+    
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(config.receiver.port, () => resolve());
+    });
+    
+    this.isRunning = true;
+    console.log(`[Receiver] Listening on port ${config.receiver.port} (path: ${config.receiver.path})`);
+  }
+  
+  async stop(): Promise<void> {
+    if (!this.isRunning || !this.server) {
+      return;
+    }
+    
+    console.log('[Receiver] Stopping webhook receiver');
+    this.isRunning = false;
+    
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+    
+    console.log(`[Receiver] Stopped. Received: ${this.totalReceived}, Rejected: ${this.totalRejected}`);
+  }
+  
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    
+    if (req.method === 'GET' && url.pathname === '/health') {
+      this.respond(res, 200, 'ok');
+      return;
+    }
+    
+    if (url.pathname !== config.receiver.path) {
+      this.respond(res, 404, 'Not found');
+      return;
+    }
+    
+    // Nylas verifies a new webhook endpoint by sending GET ?challenge=... and expects it echoed back
+    if (req.method === 'GET') {
+      const challenge = url.searchParams.get('challenge');
+      if (!challenge) {
+        this.respond(res, 400, 'Missing challenge');
+        return;
+      }
+      
+      console.log('[Receiver] Answered Nylas challenge handshake');
+      this.respond(res, 200, challenge);
+      return;
+    }
+    
+    if (req.method !== 'POST') {
+      this.respond(res, 405, 'Method not allowed');
+      return;
+    }
+    
+    let rawBody: Buffer;
+    try {
+      rawBody = await this.readBody(req);
+    } catch (error) {
+      this.totalRejected++;
+      console.warn('[Receiver] Rejected webhook:', error instanceof Error ? error.message : error);
+      this.respond(res, 413, 'Payload too large');
+      return;
+    }
+    
+    const signature = req.headers['x-nylas-signature'];
+    if (typeof signature !== 'string' || !this.verifySignature(rawBody, signature)) {
+      this.totalRejected++;
+      console.warn('[Receiver] Rejected webhook with missing or invalid signature');
+      this.respond(res, 401, 'Invalid signature');
+      return;
+    }
+    
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      this.totalRejected++;
+      console.warn('[Receiver] Rejected webhook with invalid JSON body');
+      this.respond(res, 400, 'Invalid JSON');
+      return;
+    }
+    
+    if (!payload?.type || !payload?.id) {
+      this.totalRejected++;
+      console.warn('[Receiver] Rejected webhook missing type or id');
+      this.respond(res, 400, 'Missing type or id');
+      return;
+    }
+    
+    // Respond non-2xx on storage failure so Nylas redelivers the notification
+    try {
+      await this.storeNotification(payload);
+      this.totalReceived++;
+      this.respond(res, 200, 'ok');
+    } catch (error) {
+      console.error('[Receiver] Error storing notification:', error);
+      this.respond(res, 500, 'Failed to store notification');
+    }
+  }
+  
+  private verifySignature(rawBody: Buffer, signature: string): boolean {
+    const expected = createHmac('sha256', config.receiver.webhookSecret)
+      .update(rawBody)
+      .digest('hex');
+    
+    const expectedBuffer = Buffer.from(expected, 'utf8');
+    const providedBuffer = Buffer.from(signature.trim().toLowerCase(), 'utf8');
+    
+    // timingSafeEqual throws on length mismatch
+    if (expectedBuffer.length !== providedBuffer.length) {
+      return false;
+    }
+    
+    return timingSafeEqual(expectedBuffer, providedBuffer);
+  }
+  
+  private async storeNotification(payload: any): Promise<void> {
+    const notificationType: string = payload.type;
+    const webhookId: string = payload.id;
+    const grantId: string | undefined = payload.data?.object?.grant_id;
+    
+    // Nylas retries deliveries - the notification id makes the receiver idempotent
+    const { data: existing, error: existingError } = await this.supabase
+      .from('support_webhook_notifications')
+      .select('id')
+      .eq('webhook_id', webhookId)
+      .maybeSingle();
+    
+    if (existingError) {
+      throw new Error(`Failed to check for duplicate notification: ${existingError.message}`);
+    }
+    
+    if (existing) {
+      console.log(`[Receiver] Duplicate delivery of ${notificationType} (${webhookId}), already stored`);
+      return;
+    }
+    
+    const inboxId = grantId ? await this.resolveInboxId(grantId) : null;
+    const receivedAt = new Date().toISOString();
+    
+    // Grant notifications are resolved by grant ID downstream; everything else needs an inbox
+    const routable = !!inboxId || notificationType.startsWith('grant.');
+    
+    const { data: notification, error: insertError } = await this.supabase
+      .from('support_webhook_notifications')
+      .insert({
+        webhook_id: webhookId,
+        inbox_id: inboxId,
+        notification_type: notificationType,
+        grant_id: grantId || null,
+        payload,
+        received_at: receivedAt,
+        status: routable ? 'pending' : 'error',
+        error_message: routable ? null : `No inbox found for grant ${grantId || '(none)'}`,
+      })
+      .select('id')
+      .single();
+    
+    if (insertError) {
+      throw new Error(`Failed to insert notification: ${insertError.message}`);
+    }
+    
+    if (!routable) {
+      console.warn(`[Receiver] Stored ${notificationType} without inbox (grant ${grantId || 'none'}), not queued`);
+      return;
+    }
+    
+    const message: WebhookQueuePayload = {
+      notification_id: notification.id,
+      webhook_id: webhookId,
+      inbox_id: inboxId as string,
+      notification_type: notificationType,
+      grant_id: grantId || '',
+      payload,
+      received_at: receivedAt,
+    };
+    
+    const { error: sendError } = await this.supabase
+      .schema('pgmq_public')
+      .rpc('send', {
+        queue_name: 'nylas_webhook_notifications',
+        message,
+      });
+    
+    if (sendError) {
+      throw new Error(`Failed to enqueue notification ${notification.id}: ${sendError.message}`);
+    }
+    
+    console.log(`[Receiver] Queued ${notificationType} (${webhookId}) as notification ${notification.id}`);
+  }
+  
+  private async resolveInboxId(grantId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('support_inboxes')
+      .select('id')
+      .eq('nylas_grant_id', grantId)
+      .maybeSingle();
+    
+    if (error) {
+      throw new Error(`Failed to resolve inbox for grant ${grantId}: ${error.message}`);
+    }
+    
+    return data?.id || null;
+  }
+  
+  private readBody(req: IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > config.receiver.maxBodyBytes) {
+          req.destroy();
+          reject(new Error(`Body exceeds ${config.receiver.maxBodyBytes} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+  }
+  
+  private respond(res: ServerResponse, status: number, body: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(body);
+  }
+}
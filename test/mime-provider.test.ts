@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { simpleParser } from 'mailparser';
+import { MailReferences, assignThreads, messageKey, referencedKeys } from '../src/mime-provider';
+
+function references(key: string, refs: string[], date: string): MailReferences {
+  return { key, references: refs, date: new Date(date) };
+}
+
+test('message ids are scoped to the inbox they are imported into', async () => {
+  const raw = Buffer.from('Message-ID: <1@example.com>\r\nIn-Reply-To: <0@example.com>\r\n\r\nHello\r\n');
+  const mail = await simpleParser(raw);
+  
+  assert.equal(messageKey('inbox-1', mail, raw), 'import:inbox-1:1@example.com');
+  assert.notEqual(messageKey('inbox-1', mail, raw), messageKey('inbox-2', mail, raw));
+  assert.deepEqual(referencedKeys('inbox-2', mail), ['import:inbox-2:0@example.com']);
+});
+
+test('assignThreads groups replies under the earliest message', () => {
+  const threadIds = assignThreads([
+    references('import:inbox-1:2@x', ['import:inbox-1:1@x'], '2026-03-02'),
+    references('import:inbox-1:1@x', [], '2026-03-01'),
+    references('import:inbox-1:3@x', [], '2026-03-03'),
+  ], new Map());
+  
+  assert.equal(threadIds.get('import:inbox-1:1@x'), 'import:inbox-1:1@x#thread');
+  assert.equal(threadIds.get('import:inbox-1:2@x'), 'import:inbox-1:1@x#thread');
+  assert.equal(threadIds.get('import:inbox-1:3@x'), 'import:inbox-1:3@x#thread');
+});
+
+test('assignThreads joins a thread already in the inbox', () => {
+  const threadIds = assignThreads(
+    [references('import:inbox-1:2@x', ['import:inbox-1:1@x'], '2026-03-02')],
+    new Map([['import:inbox-1:1@x', 'nylas-thread-1']])
+  );
+  
+  assert.equal(threadIds.get('import:inbox-1:2@x'), 'nylas-thread-1');
+});
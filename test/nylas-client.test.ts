@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NylasApiError } from 'nylas';
+import { config } from '../src/config';
+import { NylasClient } from '../src/nylas-client';
+
+config.nylas.maxRetries = 2;
+config.nylas.retryBaseDelayMs = 1;
+config.nylas.retryMaxDelayMs = 1;
+
+const client = NylasClient.getInstance();
+
+// Fails with each error in turn, then succeeds
+function failingWith(...errors: unknown[]): { request: () => Promise<string>; calls: () => number } {
+  let calls = 0;
+  return {
+    request: async () => {
+      const error = errors[calls++];
+      if (error) {
+        throw error;
+      }
+      return 'ok';
+    },
+    calls: () => calls,
+  };
+}
+
+function apiError(statusCode: number): NylasApiError {
+  return new NylasApiError(
+    { requestId: 'request-1', error: { type: 'api_error', message: `HTTP ${statusCode}` } } as any,
+    statusCode
+  );
+}
+
+function fetchFailed(code: string): TypeError {
+  const cause = Object.assign(new Error(`read ${code}`), { code });
+  return new TypeError('fetch failed', { cause });
+}
+
+test('retries a 5xx error response whose body is not JSON', async () => {
+  const sdkError = new Error('Received an error but could not parse response from the server: <html>502 Bad Gateway</html>');
+  const request = failingWith(sdkError);
+  
+  assert.equal(await client.call('grant-1', 'messages.find', request.request), 'ok');
+  assert.equal(request.calls(), 2);
+});
+
+test('retries network errors reported by fetch', async () => {
+  const request = failingWith(fetchFailed('ECONNRESET'), fetchFailed('UND_ERR_SOCKET'));
+  
+  assert.equal(await client.call('grant-1', 'messages.find', request.request), 'ok');
+  assert.equal(request.calls(), 3);
+});
+
+test('retries network errors that carry the code themselves', async () => {
+  const request = failingWith(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }));
+  
+  assert.equal(await client.call('grant-1', 'messages.find', request.request), 'ok');
+  assert.equal(request.calls(), 2);
+});
+
+test('retries 5xx API errors and gives up after the retry limit', async () => {
+  const request = failingWith(apiError(503), apiError(503), apiError(503));
+  
+  await assert.rejects(client.call('grant-1', 'messages.find', request.request), NylasApiError);
+  assert.equal(request.calls(), 3);
+});
+
+test('does not retry client errors or unrelated failures', async () => {
+  const notFound = failingWith(apiError(404));
+  await assert.rejects(client.call('grant-1', 'messages.find', notFound.request), NylasApiError);
+  assert.equal(notFound.calls(), 1);
+  
+  const bug = failingWith(new TypeError("Cannot read properties of undefined (reading 'id')"));
+  await assert.rejects(client.call('grant-1', 'messages.find', bug.request), TypeError);
+  assert.equal(bug.calls(), 1);
+});
+
+test('counts network errors separately from server errors', async () => {
+  const before = client.getStats();
+  const request = failingWith(fetchFailed('ECONNREFUSED'));
+  
+  await client.call('grant-1', 'messages.find', request.request);
+  
+  const after = client.getStats();
+  assert.equal(after.networkErrors - before.networkErrors, 1);
+  assert.equal(after.serverErrors - before.serverErrors, 0);
+});
+
+test('retries only rate limits for calls that are not idempotent', async () => {
+  const rateLimited = failingWith(apiError(429));
+  assert.equal(await client.call('grant-2', 'messages.send', rateLimited.request, { idempotent: false }), 'ok');
+  assert.equal(rateLimited.calls(), 2);
+  
+  for (const error of [apiError(503), fetchFailed('ECONNRESET')]) {
+    const request = failingWith(error);
+    await assert.rejects(client.call('grant-2', 'messages.send', request.request, { idempotent: false }));
+    assert.equal(request.calls(), 1);
+  }
+});
+
+test('per-call maxRetries overrides the configured limit', async () => {
+  const request = failingWith(apiError(503), apiError(503));
+  
+  await assert.rejects(client.call('grant-1', 'messages.find', request.request, { maxRetries: 1 }), NylasApiError);
+  assert.equal(request.calls(), 2);
+});
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config';
+import { ProviderMessage } from '../src/email-provider';
+import { NylasSync } from '../src/nylas-sync';
+import { FakeSupabase } from './support/fake-supabase';
+import { StubProvider } from './support/stub-provider';
+
+// Attachment content ingestion is covered elsewhere; these tests look at the row diff only
+config.attachments.enabled = false;
+
+const GRANT_ID = 'grant-1';
+const INBOX_ID = 'inbox-1';
+const MESSAGE_ID = 'msg-1';
+
+function providerMessage(overrides: Partial<ProviderMessage> = {}): ProviderMessage {
+  return {
+    id: MESSAGE_ID,
+    threadId: 'thread-1',
+    subject: 'Contract renewal',
+    from: [{ email: 'dana@example.com' }],
+    to: [{ email: 'support@example.org' }],
+    cc: [],
+    bcc: [],
+    replyTo: [],
+    body: '<p>See the attached contract.</p>',
+    snippet: 'See the attached contract.',
+    receivedAt: new Date('2026-03-16T14:00:01Z'),
+    unread: true,
+    starred: false,
+    folders: ['INBOX', 'IMPORTANT', 'UNREAD'],
+    attachments: [
+      { id: 'att-1', filename: 'contract.pdf', contentType: 'application/pdf', size: 48213 },
+      { id: 'att-2', filename: 'terms.docx', contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', size: 9120 },
+    ],
+    headers: [],
+    inReplyTo: null,
+    metadata: null,
+    trackingOptions: null,
+    ...overrides,
+  };
+}
+
+// The row as read back from Postgres: JSONB reorders object keys, folders come back as stored
+function storedRow(): Record<string, any> {
+  return {
+    id: 'message-db-1',
+    thread_id: 'thread-db-1',
+    nylas_message_id: MESSAGE_ID,
+    unread: true,
+    starred: false,
+    folders: ['UNREAD', 'INBOX', 'IMPORTANT'],
+    snippet: 'See the attached contract.',
+    attachments: [
+      { id: 'att-2', size: 9120, filename: 'terms.docx', contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+      { id: 'att-1', size: 48213, filename: 'contract.pdf', contentType: 'application/pdf' },
+    ],
+    deleted_at: null,
+  };
+}
+
+async function applyUpdate(message: ProviderMessage): Promise<FakeSupabase> {
+  const db = new FakeSupabase({ support_email_messages: [storedRow()] });
+  const sync = new NylasSync(db.asClient(), new StubProvider([message]));
+  await sync.updateMessage(GRANT_ID, INBOX_ID, MESSAGE_ID);
+  return db;
+}
+
+test('updateMessage ignores folder order and JSONB key order', async () => {
+  const db = await applyUpdate(providerMessage());
+  
+  assert.equal(db.updates.length, 0);
+});
+
+test('updateMessage writes folders when the set of folders changes', async () => {
+  const db = await applyUpdate(providerMessage({ folders: ['INBOX', 'IMPORTANT'], unread: false }));
+  
+  assert.deepEqual(db.updates.map((update) => Object.keys(update.values).sort()), [['folders', 'unread']]);
+  assert.deepEqual(db.rows('support_email_messages')[0].folders, ['INBOX', 'IMPORTANT']);
+});
+
+test('updateMessage writes attachments when an attachment is added or its content changes', async () => {
+  const [contract, terms] = providerMessage().attachments;
+  
+  const resized = await applyUpdate(providerMessage({ attachments: [{ ...contract, size: 50102 }, terms] }));
+  assert.deepEqual(resized.updates.map((update) => Object.keys(update.values)), [['attachments']]);
+  
+  const added = await applyUpdate(providerMessage({
+    attachments: [contract, terms, { id: 'att-3', filename: 'invoice.pdf', contentType: 'application/pdf', size: 3310 }],
+  }));
+  assert.deepEqual(added.updates.map((update) => Object.keys(update.values)), [['attachments']]);
+  assert.equal(added.rows('support_email_messages')[0].attachments.length, 3);
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReplySourceMessage, replyRecipients } from '../src/reply-recipients';
+
+const MAILBOX = 'support@example.org';
+
+function message(sender: string, overrides: Partial<ReplySourceMessage> = {}): ReplySourceMessage {
+  return {
+    sender: { email: sender },
+    reply_to: [],
+    to_recipients: [],
+    ...overrides,
+  };
+}
+
+test('replies to the newest message sent by someone else', () => {
+  const messages = [
+    message(MAILBOX, { to_recipients: [{ email: 'dana@example.com' }] }),
+    message('dana@example.com'),
+    message('lee@example.com'),
+  ];
+  
+  assert.deepEqual(replyRecipients(messages, [MAILBOX]), [{ email: 'dana@example.com' }]);
+});
+
+test('recognises our own messages by address regardless of case or folder names', () => {
+  // A label like "Sent to vendor" used to mark inbound mail as our own
+  const messages = [message('Support@Example.org '), message('dana@example.com')];
+  
+  assert.deepEqual(replyRecipients(messages, [MAILBOX]), [{ email: 'dana@example.com' }]);
+});
+
+test('prefers Reply-To over the sender and leaves out the mailbox itself', () => {
+  const messages = [
+    message('noreply@vendor.example', {
+      reply_to: [{ name: 'Billing', email: 'billing@vendor.example' }, { email: MAILBOX }],
+    }),
+  ];
+  
+  assert.deepEqual(replyRecipients(messages, [MAILBOX]), [{ name: 'Billing', email: 'billing@vendor.example' }]);
+});
+
+test('follows up with the recipients when the mailbox started the thread', () => {
+  const messages = [
+    message(MAILBOX, { to_recipients: [{ email: 'dana@example.com' }, { email: MAILBOX }] }),
+    message(MAILBOX, { to_recipients: [{ email: 'old@example.com' }] }),
+  ];
+  
+  assert.deepEqual(replyRecipients(messages, [MAILBOX]), [{ email: 'dana@example.com' }]);
+});
+
+test('skips senders without an address', () => {
+  const messages = [message('dana@example.com', { sender: null })];
+  
+  assert.deepEqual(replyRecipients(messages, [MAILBOX]), []);
+});
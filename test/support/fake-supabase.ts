@@ -0,0 +1,178 @@
+import { randomUUID } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+export interface RecordedWrite {
+  table: string;
+  values: Row;
+}
+
+export interface RecordedRpc {
+  name: string;
+  args: Row;
+}
+
+/**
+ * In-memory stand-in for the parts of the Supabase client the services use: table queries
+ * with eq/neq/in/is filters, insert/update/delete, single/maybeSingle and rpc calls.
+ * Writes and rpc calls are recorded so tests can assert on them; rpc results come from
+ * rpcResults (null by default), either as a value or as a function of the call's arguments.
+ */
+export class FakeSupabase {
+  readonly tables = new Map<string, Row[]>();
+  readonly inserts: RecordedWrite[] = [];
+  readonly updates: RecordedWrite[] = [];
+  readonly rpcCalls: RecordedRpc[] = [];
+  readonly rpcResults = new Map<string, unknown>();
+  
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [table, rows] of Object.entries(seed)) {
+      this.tables.set(table, rows.map((row) => ({ ...row })));
+    }
+  }
+  
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, []);
+    }
+    return this.tables.get(table)!;
+  }
+  
+  from(table: string): QueryBuilder {
+    return new QueryBuilder(this, table);
+  }
+  
+  schema(_name: string): { rpc: FakeSupabase['rpc'] } {
+    return { rpc: this.rpc.bind(this) };
+  }
+  
+  async rpc(name: string, args: Row = {}): Promise<{ data: unknown; error: null }> {
+    this.rpcCalls.push({ name, args });
+    const result = this.rpcResults.get(name);
+    return { data: (typeof result === 'function' ? result(args) : result) ?? null, error: null };
+  }
+  
+  asClient(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+}
+
+class QueryBuilder implements PromiseLike<{ data: any; error: any; count?: number }> {
+  private filters: Filter[] = [];
+  private operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private values: Row[] = [];
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+  private rowLimit: number | null = null;
+  
+  constructor(private db: FakeSupabase, private table: string) {}
+  
+  select(_columns?: string, _options?: unknown): this {
+    return this;
+  }
+  
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+  
+  update(values: Row): this {
+    this.operation = 'update';
+    this.values = [values];
+    return this;
+  }
+  
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+  
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+  
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+  
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+  
+  is(column: string, value: null | boolean): this {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+  
+  order(_column: string, _options?: unknown): this {
+    return this;
+  }
+  
+  limit(count: number): this {
+    this.rowLimit = count;
+    return this;
+  }
+  
+  single<T = any>(): PromiseLike<{ data: T; error: any }> {
+    this.mode = 'single';
+    return this;
+  }
+  
+  maybeSingle<T = any>(): PromiseLike<{ data: T | null; error: any }> {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+  
+  then<TResult1 = any, TResult2 = never>(
+    onfulfilled?: ((value: { data: any; error: any; count?: number }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+  
+  private execute(): { data: any; error: any; count?: number } {
+    const rows = this.db.rows(this.table);
+    let result: Row[];
+    
+    if (this.operation === 'insert') {
+      result = this.values.map((values) => ({ id: randomUUID(), ...values }));
+      rows.push(...result);
+      for (const row of result) {
+        this.db.inserts.push({ table: this.table, values: row });
+      }
+    } else {
+      result = rows.filter((row) => this.filters.every((filter) => filter(row)));
+      
+      if (this.operation === 'update') {
+        for (const row of result) {
+          Object.assign(row, this.values[0]);
+        }
+        this.db.updates.push({ table: this.table, values: this.values[0] });
+      } else if (this.operation === 'delete') {
+        this.db.tables.set(this.table, rows.filter((row) => !result.includes(row)));
+      }
+    }
+    
+    if (this.rowLimit !== null) {
+      result = result.slice(0, this.rowLimit);
+    }
+    
+    if (this.mode === 'many') {
+      return { data: result.map((row) => ({ ...row })), error: null, count: result.length };
+    }
+    
+    if (result.length > 1 || (this.mode === 'single' && result.length === 0)) {
+      return {
+        data: null,
+        error: { code: 'PGRST116', message: `JSON object requested, ${result.length} rows returned` },
+      };
+    }
+    
+    return { data: result[0] ? { ...result[0] } : null, error: null };
+  }
+}
@@ -0,0 +1,36 @@
+import { EmailProvider, ProviderMessage, ProviderPage, ProviderThread } from '../../src/email-provider';
+
+/**
+ * Serves getMessage from a fixed set of messages and records which ids were requested
+ */
+export class StubProvider implements EmailProvider {
+  readonly name = 'stub';
+  readonly requested: Array<{ grantId: string; messageId: string }> = [];
+  
+  constructor(private messages: ProviderMessage[]) {}
+  
+  async getMessage(grantId: string, messageId: string): Promise<ProviderMessage | null> {
+    this.requested.push({ grantId, messageId });
+    return this.messages.find((message) => message.id === messageId) || null;
+  }
+  
+  async getThread(_grantId: string, _threadId: string): Promise<ProviderThread | null> {
+    throw new Error('getThread not expected');
+  }
+  
+  async listThreads(): Promise<ProviderPage<ProviderThread>> {
+    throw new Error('listThreads not expected');
+  }
+  
+  async listMessages(): Promise<ProviderPage<ProviderMessage>> {
+    throw new Error('listMessages not expected');
+  }
+  
+  async downloadAttachment(): Promise<Buffer> {
+    throw new Error('downloadAttachment not expected');
+  }
+  
+  getStats(): Record<string, number> {
+    return {};
+  }
+}
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ThreadAggregates } from '../src/thread-aggregates';
+import { FakeSupabase } from './support/fake-supabase';
+
+// Serves recompute_thread_aggregates_range over a sorted list of thread ids, like migration 024
+function inboxWithThreads(count: number): FakeSupabase {
+  const threadIds = Array.from({ length: count }, (_, i) => `thread-${String(i).padStart(4, '0')}`);
+  const db = new FakeSupabase();
+  
+  db.rpcResults.set('recompute_thread_aggregates_range', (args: Record<string, any>) => {
+    const range = threadIds
+      .filter((id) => args.p_after_thread_id === null || id > args.p_after_thread_id)
+      .slice(0, args.p_limit);
+    return [{ processed: range.length, last_thread_id: range[range.length - 1] ?? null }];
+  });
+  
+  return db;
+}
+
+test('recomputeInbox walks the inbox in ranges of batchSize threads', async () => {
+  const db = inboxWithThreads(250);
+  
+  const processed = await new ThreadAggregates(db.asClient()).recomputeInbox('inbox-1', 100);
+  
+  assert.equal(processed, 250);
+  assert.deepEqual(
+    db.rpcCalls.map((call) => [call.args.p_after_thread_id, call.args.p_limit]),
+    [[null, 100], ['thread-0099', 100], ['thread-0199', 100]]
+  );
+});
+
+test('recomputeInbox stops after an exactly full last range', async () => {
+  const db = inboxWithThreads(200);
+  
+  const processed = await new ThreadAggregates(db.asClient()).recomputeInbox('inbox-1', 100);
+  
+  assert.equal(processed, 200);
+  assert.equal(db.rpcCalls.length, 3);
+});
+
+test('recomputeInbox handles an inbox without threads', async () => {
+  const db = inboxWithThreads(0);
+  
+  assert.equal(await new ThreadAggregates(db.asClient()).recomputeInbox('inbox-1'), 0);
+  assert.equal(db.rpcCalls.length, 1);
+});
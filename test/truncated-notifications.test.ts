@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { NotificationHandler } from '../src/notification-handler';
+import { ProviderMessage } from '../src/email-provider';
+import { FakeSupabase } from './support/fake-supabase';
+import { StubProvider } from './support/stub-provider';
+
+const GRANT_ID = '3f9d2a61-7c48-4b0e-a5d3-91e6c2b8f470';
+const INBOX_ID = 'inbox-1';
+const THREAD_DB_ID = 'thread-db-1';
+const MESSAGE_ID = '18e4a9c2f7b3d051';
+
+// Far larger than a webhook may carry - the reason Nylas sent a truncated notification
+const FULL_BODY = `<div>${'<p>Seat usage for the quarter, by team and month.</p>'.repeat(4000)}</div>`;
+
+function loadWebhook(type: string): any {
+  return JSON.parse(readFileSync(join(__dirname, 'fixtures', 'webhooks', `${type}.json`), 'utf8'));
+}
+
+function fullMessage(overrides: Partial<ProviderMessage> = {}): ProviderMessage {
+  return {
+    id: MESSAGE_ID,
+    threadId: MESSAGE_ID,
+    subject: 'Quarterly usage report',
+    from: [{ name: 'Dana Reyes', email: 'dana@example.com' }],
+    to: [{ name: 'Support', email: 'support@example.org' }],
+    cc: [],
+    bcc: [],
+    replyTo: [],
+    body: FULL_BODY,
+    snippet: 'Attached is the full usage breakdown for the quarter, including per-seat numbers',
+    receivedAt: new Date('2026-03-16T14:00:01Z'),
+    unread: true,
+    starred: false,
+    folders: ['INBOX', 'UNREAD'],
+    attachments: [],
+    headers: [],
+    inReplyTo: null,
+    metadata: null,
+    trackingOptions: null,
+    ...overrides,
+  };
+}
+
+function seededDatabase(messages: Record<string, any>[] = []): FakeSupabase {
+  return new FakeSupabase({
+    support_inbox_configurations: [{ id: 'config-1', inbox_id: INBOX_ID, include_folders: null, exclude_folders: null }],
+    support_inboxes: [{ id: INBOX_ID, tenant_id: null }],
+    support_email_threads: [{ id: THREAD_DB_ID, inbox_id: INBOX_ID, nylas_thread_id: MESSAGE_ID }],
+    support_email_messages: messages,
+  });
+}
+
+function storedMessage(): Record<string, any> {
+  return {
+    id: 'message-db-1',
+    thread_id: THREAD_DB_ID,
+    nylas_message_id: MESSAGE_ID,
+    body: '<div><p>Seat usage for the quarter',
+    unread: true,
+    starred: false,
+    folders: ['INBOX', 'UNREAD'],
+    snippet: 'Attached is the full usage breakdown for the quarter, including per-seat numbers',
+    attachments: [],
+    deleted_at: null,
+  };
+}
+
+test('message.created.truncated refetches the message by id and stores the full body', async () => {
+  const db = seededDatabase();
+  const provider = new StubProvider([fullMessage()]);
+  const handler = new NotificationHandler(db.asClient(), provider);
+  
+  await handler.handle('message.created.truncated', GRANT_ID, INBOX_ID, loadWebhook('message.created.truncated'));
+  
+  assert.deepEqual(provider.requested, [{ grantId: GRANT_ID, messageId: MESSAGE_ID }]);
+  
+  const [row] = db.rows('support_email_messages');
+  assert.equal(row.nylas_message_id, MESSAGE_ID);
+  assert.equal(row.thread_id, THREAD_DB_ID);
+  assert.equal(row.body, FULL_BODY);
+  assert.equal(row.large_body, true);
+  assert.equal(row.body_size_bytes, Buffer.byteLength(FULL_BODY, 'utf8'));
+});
+
+test('message.updated.truncated refetches the message by id and replaces the partial body', async () => {
+  const db = seededDatabase([storedMessage()]);
+  const provider = new StubProvider([fullMessage({ unread: false, folders: ['INBOX'] })]);
+  const handler = new NotificationHandler(db.asClient(), provider);
+  
+  await handler.handle('message.updated.truncated', GRANT_ID, INBOX_ID, loadWebhook('message.updated.truncated'));
+  
+  assert.deepEqual(provider.requested, [{ grantId: GRANT_ID, messageId: MESSAGE_ID }]);
+  
+  const [row] = db.rows('support_email_messages');
+  assert.equal(row.body, FULL_BODY);
+  assert.ok(row.body_text.length > 0);
+  assert.equal(row.unread, false);
+  assert.deepEqual(row.folders, ['INBOX']);
+  assert.equal(row.large_body, true);
+  assert.equal(row.body_size_bytes, Buffer.byteLength(FULL_BODY, 'utf8'));
+  
+  assert.ok(db.rpcCalls.some((call) =>
+    call.name === 'recompute_thread_aggregates' && call.args.p_thread_id === THREAD_DB_ID
+  ));
+});
+
+test('message.created.truncated fails when the message is not found on refetch', async () => {
+  const db = seededDatabase();
+  const provider = new StubProvider([]);
+  const handler = new NotificationHandler(db.asClient(), provider);
+  
+  await assert.rejects(
+    handler.handle('message.created.truncated', GRANT_ID, INBOX_ID, loadWebhook('message.created.truncated')),
+    new RegExp(`Failed to fetch message ${MESSAGE_ID} from stub`)
+  );
+  
+  assert.deepEqual(provider.requested, [{ grantId: GRANT_ID, messageId: MESSAGE_ID }]);
+  assert.equal(db.inserts.length, 0);
+  assert.equal(db.updates.length, 0);
+});
+
+test('message.updated.truncated fails without touching the stored row when the message is not found', async () => {
+  const db = seededDatabase([storedMessage()]);
+  const provider = new StubProvider([]);
+  const handler = new NotificationHandler(db.asClient(), provider);
+  
+  await assert.rejects(
+    handler.handle('message.updated.truncated', GRANT_ID, INBOX_ID, loadWebhook('message.updated.truncated')),
+    new RegExp(`Failed to fetch message ${MESSAGE_ID} from stub`)
+  );
+  
+  assert.deepEqual(provider.requested, [{ grantId: GRANT_ID, messageId: MESSAGE_ID }]);
+  assert.equal(db.updates.length, 0);
+  assert.deepEqual(db.rows('support_email_messages')[0], storedMessage());
+});